@@ -129,6 +129,7 @@ const result = await Bun.build({
   minify: true,
   target: "browser",
   sourcemap: "linked",
+  env: "BUN_PUBLIC_*", // e.g. BUN_PUBLIC_MAP_TILE_URL
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
   },
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "AnalysisSettings" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "assumptions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnalysisSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalysisSettings_name_key" ON "AnalysisSettings"("name");
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "EmailParseStatus" AS ENUM ('PENDING', 'PARSED', 'PARTIAL', 'EMPTY', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "EmailMessage" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "subject" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "html" TEXT,
+    "text" TEXT,
+    "parseStatus" "EmailParseStatus" NOT NULL DEFAULT 'PENDING',
+    "parseErrors" TEXT[],
+    "parsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_EmailMessageToProperty" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_EmailMessageToProperty_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailMessage_messageId_key" ON "EmailMessage"("messageId");
+
+-- CreateIndex
+CREATE INDEX "EmailMessage_source_receivedAt_idx" ON "EmailMessage"("source", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "EmailMessage_parseStatus_idx" ON "EmailMessage"("parseStatus");
+
+-- CreateIndex
+CREATE INDEX "_EmailMessageToProperty_B_index" ON "_EmailMessageToProperty"("B");
+
+-- AddForeignKey
+ALTER TABLE "_EmailMessageToProperty" ADD CONSTRAINT "_EmailMessageToProperty_A_fkey" FOREIGN KEY ("A") REFERENCES "EmailMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EmailMessageToProperty" ADD CONSTRAINT "_EmailMessageToProperty_B_fkey" FOREIGN KEY ("B") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "MailboxState" (
+    "id" TEXT NOT NULL,
+    "mailbox" TEXT NOT NULL,
+    "uidValidity" BIGINT NOT NULL,
+    "lastUid" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MailboxState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MailboxState_mailbox_key" ON "MailboxState"("mailbox");
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "IngestionTrigger" AS ENUM ('CRON', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "IngestionRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'COMPLETED_WITH_ERRORS', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "IngestionRun" (
+    "id" TEXT NOT NULL,
+    "trigger" "IngestionTrigger" NOT NULL,
+    "status" "IngestionRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "emailsScanned" INTEGER NOT NULL DEFAULT 0,
+    "propertiesParsed" INTEGER NOT NULL DEFAULT 0,
+    "propertiesCreated" INTEGER NOT NULL DEFAULT 0,
+    "propertiesUpdated" INTEGER NOT NULL DEFAULT 0,
+    "propertiesSkipped" INTEGER NOT NULL DEFAULT 0,
+    "sourceStats" JSONB,
+    "errors" TEXT[],
+
+    CONSTRAINT "IngestionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestionRun_startedAt_idx" ON "IngestionRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "IngestionRun_status_idx" ON "IngestionRun"("status");
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "Listing" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "status" "PropertyStatus" NOT NULL DEFAULT 'ACTIVE',
+    "price" DECIMAL(12,2) NOT NULL,
+    "images" TEXT[],
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Listing_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing property becomes its own single listing, reusing its ID
+INSERT INTO "Listing" ("id", "propertyId", "source", "sourceId", "url", "status", "price", "images", "firstSeenAt", "createdAt", "updatedAt")
+SELECT "id", "id", "source", "sourceId", "url", "status", "price", "images", "firstSeenAt", "createdAt", "updatedAt"
+FROM "Property";
+
+-- Price history belongs to the listing it was observed on
+ALTER TABLE "PriceHistory" DROP CONSTRAINT "PriceHistory_propertyId_fkey";
+DROP INDEX "PriceHistory_propertyId_idx";
+ALTER TABLE "PriceHistory" RENAME COLUMN "propertyId" TO "listingId";
+
+-- Source emails link to listings; listing IDs equal the old property IDs
+ALTER TABLE "_EmailMessageToProperty" DROP CONSTRAINT "_EmailMessageToProperty_B_fkey";
+ALTER TABLE "_EmailMessageToProperty" RENAME TO "_EmailMessageToListing";
+ALTER TABLE "_EmailMessageToListing" RENAME CONSTRAINT "_EmailMessageToProperty_AB_pkey" TO "_EmailMessageToListing_AB_pkey";
+ALTER TABLE "_EmailMessageToListing" RENAME CONSTRAINT "_EmailMessageToProperty_A_fkey" TO "_EmailMessageToListing_A_fkey";
+ALTER INDEX "_EmailMessageToProperty_B_index" RENAME TO "_EmailMessageToListing_B_index";
+
+-- DropIndex
+DROP INDEX "Property_source_sourceId_key";
+
+-- AlterTable
+ALTER TABLE "Property" DROP COLUMN "images",
+DROP COLUMN "source",
+DROP COLUMN "sourceId",
+DROP COLUMN "url";
+
+-- CreateIndex
+CREATE INDEX "Listing_propertyId_idx" ON "Listing"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "Listing_source_idx" ON "Listing"("source");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Listing_source_sourceId_key" ON "Listing"("source", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_listingId_idx" ON "PriceHistory"("listingId");
+
+-- AddForeignKey
+ALTER TABLE "Listing" ADD CONSTRAINT "Listing_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EmailMessageToListing" ADD CONSTRAINT "_EmailMessageToListing_B_fkey" FOREIGN KEY ("B") REFERENCES "Listing"("id") ON DELETE CASCADE ON UPDATE CASCADE;
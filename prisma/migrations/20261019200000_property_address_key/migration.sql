@@ -0,0 +1,7 @@
+-- AlterTable
+-- Existing rows get an empty key; run `bun run db:backfill-address-keys` after migrating
+ALTER TABLE "Property" ADD COLUMN "addressKey" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Property" ALTER COLUMN "addressKey" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Property_addressKey_idx" ON "Property"("addressKey");
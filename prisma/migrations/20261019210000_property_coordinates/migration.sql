@@ -0,0 +1,8 @@
+-- AlterTable
+-- Existing rows stay null until `bun run db:backfill-geocodes`
+ALTER TABLE "Property" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "geocodePrecision" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Property_latitude_longitude_idx" ON "Property"("latitude", "longitude");
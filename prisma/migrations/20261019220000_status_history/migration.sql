@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "PropertyStatus" ADD VALUE 'COMING_SOON' BEFORE 'ACTIVE';
+
+-- CreateEnum
+CREATE TYPE "ListingEvent" AS ENUM ('COMING_SOON', 'PENDING', 'BACK_ON_MARKET', 'SOLD', 'OPEN_HOUSE');
+
+-- CreateTable
+CREATE TABLE "StatusHistory" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "oldStatus" "PropertyStatus",
+    "newStatus" "PropertyStatus" NOT NULL,
+    "event" "ListingEvent",
+    "changeDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- Start every existing listing's timeline at its current status
+INSERT INTO "StatusHistory" ("id", "listingId", "oldStatus", "newStatus", "changeDate")
+SELECT 'sh_' || "id", "id", NULL, "status", "firstSeenAt"
+FROM "Listing";
+
+-- CreateIndex
+CREATE INDEX "StatusHistory_listingId_idx" ON "StatusHistory"("listingId");
+
+-- CreateIndex
+CREATE INDEX "StatusHistory_changeDate_idx" ON "StatusHistory"("changeDate");
+
+-- AddForeignKey
+ALTER TABLE "StatusHistory" ADD CONSTRAINT "StatusHistory_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE CASCADE ON UPDATE CASCADE;
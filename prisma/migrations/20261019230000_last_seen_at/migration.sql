@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "ListingEvent" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Best guess for existing rows: a listing was last seen when an alert last updated it
+UPDATE "Listing" SET "lastSeenAt" = "updatedAt";
+
+UPDATE "Property" p
+SET "lastSeenAt" = l."lastSeenAt"
+FROM (
+    SELECT "propertyId", MAX("lastSeenAt") AS "lastSeenAt"
+    FROM "Listing"
+    GROUP BY "propertyId"
+) l
+WHERE l."propertyId" = p."id";
+
+-- CreateIndex
+CREATE INDEX "Listing_status_lastSeenAt_idx" ON "Listing"("status", "lastSeenAt");
+
+-- CreateIndex
+CREATE INDEX "Property_firstSeenAt_idx" ON "Property"("firstSeenAt");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "pricePerSqft" DECIMAL(10,2),
+ADD COLUMN "priceDrop" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Backfill price per square foot
+UPDATE "Property"
+SET "pricePerSqft" = ROUND("price" / "sqft", 2)
+WHERE "sqft" > 0;
+
+-- Backfill the largest cut from each listing's original asking price
+WITH "original" AS (
+  SELECT DISTINCT ON (l."id")
+    l."propertyId",
+    COALESCE(ph."oldPrice", l."price") - l."price" AS "drop"
+  FROM "Listing" l
+  LEFT JOIN "PriceHistory" ph ON ph."listingId" = l."id"
+  ORDER BY l."id", ph."changeDate" ASC
+)
+UPDATE "Property" p
+SET "priceDrop" = GREATEST(o."drop", 0)
+FROM (
+  SELECT "propertyId", MAX("drop") AS "drop" FROM "original" GROUP BY "propertyId"
+) o
+WHERE o."propertyId" = p."id";
+
+-- CreateIndex
+CREATE INDEX "Property_pricePerSqft_idx" ON "Property"("pricePerSqft");
+
+-- CreateIndex
+CREATE INDEX "Property_priceDrop_idx" ON "Property"("priceDrop");
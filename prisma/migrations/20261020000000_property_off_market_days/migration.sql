@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "offMarketDays" INTEGER;
+
+-- Backfill days on market for properties that are no longer listed
+UPDATE "Property"
+SET "offMarketDays" = GREATEST(FLOOR(EXTRACT(EPOCH FROM ("lastSeenAt" - "firstSeenAt")) / 86400), 0)
+WHERE "status" IN ('SOLD', 'OFF_MARKET');
+
+-- CreateIndex
+CREATE INDEX "Property_offMarketDays_idx" ON "Property"("offMarketDays");
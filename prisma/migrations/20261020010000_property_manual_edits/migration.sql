@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "notes" TEXT,
+ADD COLUMN "overriddenFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
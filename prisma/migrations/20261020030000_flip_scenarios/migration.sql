@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "FlipScenario" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "arv" DECIMAL(12,2) NOT NULL,
+    "purchasePrice" DECIMAL(12,2),
+    "rehabItems" JSONB NOT NULL,
+    "assumptions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FlipScenario_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FlipScenario_propertyId_idx" ON "FlipScenario"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "FlipScenario" ADD CONSTRAINT "FlipScenario_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
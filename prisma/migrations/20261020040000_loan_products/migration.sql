@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "LoanType" AS ENUM ('CONVENTIONAL', 'FHA', 'DSCR', 'HARD_MONEY', 'SELLER_FINANCE');
+
+-- CreateTable
+CREATE TABLE "LoanProduct" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "LoanType" NOT NULL,
+    "interestRate" DECIMAL(6,5) NOT NULL,
+    "points" DECIMAL(6,5) NOT NULL DEFAULT 0,
+    "termYears" INTEGER NOT NULL,
+    "maxLtv" DECIMAL(6,5) NOT NULL,
+    "interestOnlyMonths" INTEGER NOT NULL DEFAULT 0,
+    "balloonMonths" INTEGER,
+    "pmiRate" DECIMAL(6,5) NOT NULL DEFAULT 0,
+    "pmiLtvThreshold" DECIMAL(6,5),
+    "closingCostPercent" DECIMAL(6,5) NOT NULL DEFAULT 0.03,
+    "minDscr" DECIMAL(4,2),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoanProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanProduct_name_key" ON "LoanProduct"("name");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Listing" ALTER COLUMN "url" DROP NOT NULL;
+
+-- Imported rows without a link were stored with an empty url
+UPDATE "Listing" SET "url" = NULL WHERE "url" = '';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN "parseAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- Emails parsed before attempts were counted have been tried once
+UPDATE "EmailMessage" SET "parseAttempts" = 1 WHERE "parseStatus" <> 'PENDING';
@@ -0,0 +1,12 @@
+/**
+ * Recompute Property.addressKey with the current address normalizer
+ * Usage: bun run db:backfill-address-keys
+ */
+import { backfillAddressKeys, cleanup } from "../src/services/address/backfill";
+
+console.log("🏠 Backfilling property address keys...");
+
+const result = await backfillAddressKeys();
+console.log(`✅ Scanned ${result.scanned}, updated ${result.updated} address keys`);
+
+await cleanup();
@@ -0,0 +1,14 @@
+/**
+ * Geocode properties saved before coordinates were tracked
+ * Usage: bun run db:backfill-geocodes
+ */
+import { backfillGeocodes, cleanup } from "../src/services/geocoding/backfill";
+
+console.log("📍 Geocoding properties without coordinates...");
+
+const result = await backfillGeocodes();
+console.log(
+  `✅ Scanned ${result.scanned}, geocoded ${result.geocoded}, ${result.unresolved} not in the offline dataset`
+);
+
+await cleanup();
@@ -0,0 +1,83 @@
+/**
+ * Rebuild the offline geocoding tables from US Census Gazetteer files
+ * https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ *
+ * Usage:
+ *   bun run scripts/build-geocoding-data.ts <zcta_gazetteer.txt> [place_gazetteer.txt] [states]
+ *   e.g. ... 2020_Gaz_zcta_national.txt 2020_Gaz_place_national.txt sc,nc,ga
+ *
+ * ZCTAs have no state column, so every ZCTA is kept; places are limited to the given states
+ * Without a place file only the ZIP table is rebuilt
+ */
+import path from "path";
+import { normalizeCity, normalizeState } from "../src/services/address/normalize";
+
+const DATA_DIR = path.join(import.meta.dir, "../src/services/geocoding/data");
+
+// Place names end in their legal type, e.g. "Greer city", "Taylors CDP"
+const PLACE_TYPE_SUFFIX = /\s+(city|town|village|borough|cdp|municipality|city and borough)$/i;
+
+const [zctaPath, placePath, stateList] = process.argv.slice(2);
+if (!zctaPath) {
+  console.error("Usage: bun run scripts/build-geocoding-data.ts <zcta.txt> [places.txt] [states]");
+  process.exit(1);
+}
+
+const states = stateList
+  ? new Set(stateList.split(",").map((state) => normalizeState(state)))
+  : null;
+
+type Centroid = [number, number];
+
+async function readGazetteer(file: string): Promise<Record<string, string>[]> {
+  const [header, ...rows] = (await Bun.file(file).text()).trim().split(/\r?\n/);
+  const columns = header!.split("\t").map((column) => column.trim());
+
+  return rows.map((row) => {
+    const values = row.split("\t").map((value) => value.trim());
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+  });
+}
+
+function centroid(row: Record<string, string>): Centroid {
+  return [
+    Number(Number(row.INTPTLAT).toFixed(4)),
+    Number(Number(row.INTPTLONG).toFixed(4)),
+  ];
+}
+
+function formatCentroids(entries: Record<string, Centroid>, indent: string): string {
+  const lines = Object.keys(entries)
+    .sort()
+    .map((key) => `${indent}"${key}": [${entries[key]![0]}, ${entries[key]![1]}]`);
+  return `{\n${lines.join(",\n")}\n${indent.slice(2)}}`;
+}
+
+const zips: Record<string, Centroid> = {};
+for (const row of await readGazetteer(zctaPath)) {
+  zips[row.GEOID!] = centroid(row);
+}
+
+await Bun.write(path.join(DATA_DIR, "zip-centroids.json"), formatCentroids(zips, "  ") + "\n");
+console.log(`✅ Wrote ${Object.keys(zips).length} ZIP centroids`);
+
+if (placePath) {
+  const places: Record<string, Record<string, Centroid>> = {};
+  for (const row of await readGazetteer(placePath)) {
+    const state = normalizeState(row.USPS!);
+    if (states && !states.has(state)) continue;
+
+    const city = normalizeCity(row.NAME!.replace(PLACE_TYPE_SUFFIX, ""));
+    (places[state] ??= {})[city] = centroid(row);
+  }
+
+  const placeJson = `{\n${Object.keys(places)
+    .sort()
+    .map((state) => `  "${state}": ${formatCentroids(places[state]!, "    ")}`)
+    .join(",\n")}\n}`;
+
+  await Bun.write(path.join(DATA_DIR, "place-centroids.json"), placeJson + "\n");
+  console.log(
+    `✅ Wrote ${Object.values(places).reduce((n, p) => n + Object.keys(p).length, 0)} place centroids`
+  );
+}
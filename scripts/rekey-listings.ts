@@ -0,0 +1,19 @@
+/**
+ * One-off data migration: re-key listings saved with click-tracking URLs
+ * Usage: bun run db:rekey-listings
+ */
+import { rekeyListingUrls, cleanup } from "../src/services/email/rekey";
+
+console.log("🔑 Re-keying stored listing URLs...");
+
+const result = await rekeyListingUrls();
+console.log(
+  `✅ Scanned ${result.scanned}, re-keyed ${result.rekeyed}, merged ${result.merged} duplicates`
+);
+
+for (const error of result.errors) {
+  console.error(`❌ ${error}`);
+}
+
+await cleanup();
+process.exit(result.errors.length > 0 ? 1 : 0);
@@ -1,75 +1,458 @@
 import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { PropertyCard } from "@/components/PropertyCard";
-import { useState, useEffect } from "react";
+import { AuthScreen, type User } from "@/components/AuthScreen";
+import { PropertyDetail } from "@/components/PropertyDetail";
+import { ImportPage } from "@/components/ImportPage";
+import { PropertyForm } from "@/components/PropertyForm";
+import { PipelineBoard } from "@/components/PipelineBoard";
+import { FilterPanel, filterQuery } from "@/components/FilterPanel";
+import {
+  PropertyMap,
+  getPropertyPosition,
+  isInBounds,
+  type LatLng,
+  type MapBounds,
+} from "@/components/PropertyMap";
+import { useState, useEffect, useRef } from "react";
+import { Link, Route, Routes, useSearchParams } from "react-router";
 import "./index.css";
 
+interface Listing {
+  id: string;
+  source: string;
+  url: string | null;
+  price: string | number;
+  status: string;
+  images: string[];
+}
+
 interface Property {
   id: string;
   street: string;
   city: string;
   state: string;
+  zip?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   price: string | number;
   beds?: number | null;
   baths?: string | number | null;
   sqft?: number | null;
-  source: string;
-  url: string;
-  images: string[];
   propertyType: string;
+  listings: Listing[];
+}
+
+interface Favorite {
+  id: string;
+  propertyId: string;
+  property: Property;
 }
 
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+type View = "all" | "favorites";
+type Layout = "grid" | "map";
+
 export function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [properties, setProperties] = useState<Property[]>([]);
+  // Every match for the map, fetched apart from the paged list; null until loaded
+  const [mapProperties, setMapProperties] = useState<Property[] | null>(null);
+  const [mapTruncated, setMapTruncated] = useState(false);
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [view, setView] = useState<View>("all");
+  const [layout, setLayout] = useState<Layout>("grid");
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [zipCentroids, setZipCentroids] = useState<Record<string, LatLng>>({});
   const [loading, setLoading] = useState(true);
+  const [filterErrors, setFilterErrors] = useState<FieldError[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = filterQuery(searchParams);
+  // In-flight requests, aborted when a newer one replaces them
+  const listRequest = useRef<AbortController | null>(null);
+  const mapRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetchCurrentUser();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchFavorites(user.id);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchProperties(query);
+  }, [user, query]);
+
+  useEffect(() => {
+    if (!user || layout !== "map") return;
+    fetchMapProperties(query);
+  }, [user, query, layout]);
 
   useEffect(() => {
-    fetchProperties();
+    return () => {
+      listRequest.current?.abort();
+      mapRequest.current?.abort();
+    };
   }, []);
 
-  const fetchProperties = async () => {
+  const fetchCurrentUser = async () => {
+    try {
+      const response = await fetch("/api/auth/me");
+      setUser(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error("Failed to fetch current user:", error);
+    } finally {
+      setAuthChecked(true);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Failed to log out:", error);
+    }
+    setUser(null);
+    setFavorites([]);
+    setView("all");
+  };
+
+  // Without a cursor this replaces the list; with one it appends the next page
+  // A newer request aborts this one, so a slow response can't overwrite newer filters
+  const fetchProperties = async (query: string, cursor?: string) => {
+    const params = new URLSearchParams(query);
+    if (cursor) params.set("cursor", cursor);
+
+    listRequest.current?.abort();
+    const controller = new AbortController();
+    listRequest.current = controller;
+
     try {
-      const response = await fetch("/api/properties");
+      const response = await fetch(`/api/properties?${params}`, { signal: controller.signal });
       const data = await response.json();
-      console.log("API response:", data);
-      console.log("Is array?", Array.isArray(data));
-      setProperties(Array.isArray(data) ? data : []);
+
+      if (!response.ok) {
+        setFilterErrors(data.details ?? []);
+        setProperties([]);
+        setNextCursor(null);
+        setTotalCount(0);
+        return;
+      }
+
+      const page: Property[] = data.properties;
+      setFilterErrors([]);
+      setProperties((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(data.nextCursor);
+      setTotalCount(data.totalCount);
+      fetchZipCentroids(page);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Failed to fetch properties:", error);
-      setProperties([]);
+      if (!cursor) setProperties([]);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
+  const fetchMapProperties = async (query: string) => {
+    mapRequest.current?.abort();
+    const controller = new AbortController();
+    mapRequest.current = controller;
+
+    try {
+      const response = await fetch(`/api/properties/map?${query}`, { signal: controller.signal });
+      const data = await response.json();
+
+      // Invalid filters are already reported by the list request
+      if (!response.ok) {
+        setMapProperties([]);
+        setMapTruncated(false);
+        return;
+      }
+
+      setMapProperties(data.properties);
+      setMapTruncated(data.truncated);
+      fetchZipCentroids(data.properties);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to fetch map properties:", error);
+      setMapProperties([]);
+    }
+  };
+
+  const refreshProperties = () => {
+    fetchProperties(query);
+    if (layout === "map") fetchMapProperties(query);
+  };
+
+  const loadMore = () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    fetchProperties(query, nextCursor);
+  };
+
+  // Properties without coordinates are plotted at their ZIP centroid
+  const fetchZipCentroids = async (list: Property[]) => {
+    const zips = [
+      ...new Set(
+        list
+          .filter((p) => p.latitude == null || p.longitude == null)
+          .flatMap((p) => (p.zip ? [p.zip.slice(0, 5)] : []))
+      ),
+    ];
+    if (zips.length === 0) return;
+
+    try {
+      const response = await fetch(`/api/geocoding/zips?zips=${zips.join(",")}`);
+      if (response.ok) {
+        const centroids = await response.json();
+        setZipCentroids((prev) => ({ ...prev, ...centroids }));
+      }
+    } catch (error) {
+      console.error("Failed to fetch ZIP centroids:", error);
+    }
+  };
+
+  const fetchFavorites = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/users/${userId}/favorites`);
+      const data = await response.json();
+      setFavorites(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch favorites:", error);
+    }
+  };
+
+  const toggleFavorite = async (property: Pick<Property, "id">) => {
+    if (!user) return;
+
+    const isFavorite = favorites.some((f) => f.propertyId === property.id);
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/favorites`, {
+        method: isFavorite ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ propertyId: property.id }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      if (isFavorite) {
+        setFavorites((prev) => prev.filter((f) => f.propertyId !== property.id));
+      } else {
+        const favorite: Favorite = await response.json();
+        setFavorites((prev) => [favorite, ...prev]);
+      }
+    } catch (error) {
+      console.error("Failed to update favorite:", error);
+    }
+  };
+
+  const favoriteIds = new Set(favorites.map((f) => f.propertyId));
+  const viewProperties =
+    view === "favorites"
+      ? favorites.map((f) => f.property)
+      : layout === "map"
+        ? (mapProperties ?? [])
+        : properties;
+  const viewLoading = view === "all" && layout === "map" ? mapProperties === null : loading;
+
+  // In map mode the list follows the map: only properties inside the visible bounds
+  const visibleProperties =
+    layout === "map" && mapBounds
+      ? viewProperties.filter((property) => {
+          const position = getPropertyPosition(property, zipCentroids);
+          return position !== null && isInBounds(position, mapBounds);
+        })
+      : viewProperties;
+
+  if (!authChecked) {
+    return null;
+  }
+
+  if (!user) {
+    return <AuthScreen onAuthenticated={setUser} />;
+  }
+
+  const dashboard = (
+    <div className={view === "all" ? "grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6" : ""}>
+      {view === "all" && (
+        <aside>
+          <FilterPanel searchParams={searchParams} onChange={setSearchParams} />
+        </aside>
+      )}
+      <div className="min-w-0">
+        <header className="mb-8">
+          <p className="text-muted-foreground">
+            Showing {visibleProperties.length}
+            {view === "all" && ` of ${totalCount}`} properties
+            {layout === "map" && " in the map area"}
+            {layout === "map" && view === "all" && mapTruncated && " (too many to map them all - narrow the filters)"}
+          </p>
+          <div className="flex gap-2 mt-4">
+            <Button
+              variant={view === "all" ? "default" : "outline"}
+              onClick={() => setView("all")}
+            >
+              All Listings
+            </Button>
+            <Button
+              variant={view === "favorites" ? "default" : "outline"}
+              onClick={() => setView("favorites")}
+            >
+              Favorites ({favorites.length})
+            </Button>
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant={layout === "grid" ? "default" : "outline"}
+                onClick={() => setLayout("grid")}
+              >
+                Grid
+              </Button>
+              <Button
+                variant={layout === "map" ? "default" : "outline"}
+                onClick={() => setLayout("map")}
+              >
+                Map
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {filterErrors.length > 0 && (
+          <Card className="mb-6 border-destructive">
+            <CardHeader>
+              <CardTitle className="text-destructive">Invalid filters</CardTitle>
+              <ul className="text-sm text-muted-foreground list-disc pl-5">
+                {filterErrors.map((error) => (
+                  <li key={`${error.field}:${error.message}`}>{error.message}</li>
+                ))}
+              </ul>
+            </CardHeader>
+          </Card>
+        )}
+
+        {!viewLoading && layout === "map" && viewProperties.length > 0 && (
+          <div className="mb-6">
+            <PropertyMap
+              properties={viewProperties}
+              zipCentroids={zipCentroids}
+              onBoundsChange={setMapBounds}
+            />
+          </div>
+        )}
+
+        {viewLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading properties...</p>
+          </div>
+        ) : viewProperties.length === 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {view === "favorites" ? "No favorites yet" : "No properties found"}
+              </CardTitle>
+              <p className="text-muted-foreground">
+                {view === "favorites"
+                  ? "Star a listing to add it to your shortlist."
+                  : query
+                    ? "No properties match these filters."
+                    : "Email alerts will appear here once the cron job processes them."}
+              </p>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {visibleProperties.map((property) => (
+              <PropertyCard
+                key={property.id}
+                property={property}
+                isFavorite={favoriteIds.has(property.id)}
+                onToggleFavorite={toggleFavorite}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && view === "all" && layout === "grid" && nextCursor && (
+          <div className="flex justify-center mt-8">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading..." : `Load more (${totalCount - properties.length} left)`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="container mx-auto p-8">
-      <header className="mb-8">
-        <h1 className="text-4xl font-bold mb-2">Property Listings Dashboard</h1>
-        <p className="text-muted-foreground">
-          Showing {properties.length} properties
-        </p>
-      </header>
-
-      {loading ? (
-        <div className="text-center py-12">
-          <p className="text-muted-foreground">Loading properties...</p>
-        </div>
-      ) : properties.length === 0 ? (
-        <Card>
-          <CardHeader>
-            <CardTitle>No properties found</CardTitle>
-            <p className="text-muted-foreground">
-              Email alerts will appear here once the cron job processes them.
-            </p>
-          </CardHeader>
-        </Card>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {properties.map((property) => (
-            <PropertyCard key={property.id} property={property} />
-          ))}
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <h1 className="text-4xl font-bold">Property Listings Dashboard</h1>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <span>
+            {user.firstName} {user.lastName}
+          </span>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/pipeline">Pipeline</Link>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/properties/new">Add property</Link>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/import">Import deals</Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={logout}>
+            Log out
+          </Button>
         </div>
-      )}
+      </div>
+
+      <Routes>
+        <Route
+          path="/properties/new"
+          element={<PropertyForm onSaved={refreshProperties} />}
+        />
+        <Route
+          path="/properties/:id"
+          element={
+            <PropertyDetail
+              favoriteIds={favoriteIds}
+              onToggleFavorite={toggleFavorite}
+              onDeleted={() => {
+                refreshProperties();
+                if (user) fetchFavorites(user.id);
+              }}
+            />
+          }
+        />
+        <Route
+          path="/properties/:id/edit"
+          element={<PropertyForm onSaved={refreshProperties} />}
+        />
+        <Route path="/pipeline" element={<PipelineBoard currentUserId={user.id} />} />
+        <Route
+          path="/import"
+          element={<ImportPage onImported={refreshProperties} />}
+        />
+        <Route path="*" element={dashboard} />
+      </Routes>
     </div>
   );
 }
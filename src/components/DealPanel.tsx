@@ -0,0 +1,353 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link } from "react-router";
+import { Trash2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/** Pipeline stages, in board order */
+export const DEAL_STAGES = [
+  { value: "LEAD", label: "Lead" },
+  { value: "ANALYZING", label: "Analyzing" },
+  { value: "OFFER_SENT", label: "Offer Sent" },
+  { value: "UNDER_CONTRACT", label: "Under Contract" },
+  { value: "CLOSED", label: "Closed" },
+  { value: "DEAD", label: "Dead" },
+];
+
+export interface DealUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface DealNote {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: DealUser | null;
+}
+
+interface DealTask {
+  id: string;
+  title: string;
+  dueAt: string;
+  completedAt: string | null;
+  assignee: DealUser | null;
+}
+
+interface DealDetails {
+  id: string;
+  stage: string;
+  stageChangedAt: string;
+  assignee: DealUser | null;
+  property: { id: string; street: string; city: string; state: string };
+  notes: DealNote[];
+  tasks: DealTask[];
+}
+
+const UNASSIGNED = "unassigned";
+
+export function userName(user: DealUser) {
+  return `${user.firstName} ${user.lastName}`;
+}
+
+/**
+ * A deal's stage, assignee, notes and tasks, editable in place
+ */
+export function DealPanel({
+  dealId,
+  users,
+  onChanged,
+  onClose,
+}: {
+  dealId: string;
+  users: DealUser[];
+  onChanged?: () => void;
+  onClose?: () => void;
+}) {
+  const [deal, setDeal] = useState<DealDetails | null>(null);
+  const [note, setNote] = useState("");
+  const [task, setTask] = useState({ title: "", dueAt: "", assigneeId: UNASSIGNED });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchDeal();
+  }, [dealId]);
+
+  const fetchDeal = async () => {
+    try {
+      const response = await fetch(`/api/deals/${dealId}`);
+      if (response.ok) setDeal(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch deal:", error);
+    }
+  };
+
+  // Send a change, then reload the deal and let the board catch up
+  const send = async (path: string, method: string, body?: unknown) => {
+    setErrors([]);
+    try {
+      const response = await fetch(`/api/deals/${dealId}${path}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setErrors(data.details ?? [data.error || "Failed to save"]);
+        return false;
+      }
+      await fetchDeal();
+      onChanged?.();
+      return true;
+    } catch (error) {
+      console.error("Failed to update deal:", error);
+      setErrors(["Failed to save"]);
+      return false;
+    }
+  };
+
+  const addNote = async (e: FormEvent) => {
+    e.preventDefault();
+    if (await send("/notes", "POST", { body: note })) setNote("");
+  };
+
+  const addTask = async (e: FormEvent) => {
+    e.preventDefault();
+    const saved = await send("/tasks", "POST", {
+      title: task.title,
+      dueAt: task.dueAt,
+      assigneeId: task.assigneeId === UNASSIGNED ? null : task.assigneeId,
+    });
+    if (saved) setTask({ title: "", dueAt: "", assigneeId: UNASSIGNED });
+  };
+
+  const removeDeal = async () => {
+    if (!confirm("Remove this deal and its notes and tasks from the pipeline?")) return;
+    if (await send("", "DELETE")) onClose?.();
+  };
+
+  if (!deal) {
+    return <p className="text-muted-foreground">Loading deal...</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>
+            <Link to={`/properties/${deal.property.id}`} className="hover:underline">
+              {deal.property.street}, {deal.property.city}, {deal.property.state}
+            </Link>
+          </CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">
+            In this stage since {formatDate(deal.stageChangedAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={removeDeal}>
+            <Trash2 />
+            Remove
+          </Button>
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close">
+              <X />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select value={deal.stage} onValueChange={(stage) => send("", "PATCH", { stage })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEAL_STAGES.map((stage) => (
+                  <SelectItem key={stage.value} value={stage.value}>
+                    {stage.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Assignee</Label>
+            <UserSelect
+              users={users}
+              value={deal.assignee?.id ?? UNASSIGNED}
+              onChange={(id) => send("", "PATCH", { assigneeId: id === UNASSIGNED ? null : id })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className="space-y-3">
+            <h3 className="font-semibold">Tasks</h3>
+            <ul className="space-y-2 text-sm">
+              {deal.tasks.map((t) => (
+                <li key={t.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!t.completedAt}
+                    onChange={(e) => send(`/tasks/${t.id}`, "PATCH", { completed: e.target.checked })}
+                    aria-label={`Complete ${t.title}`}
+                  />
+                  <span className={t.completedAt ? "line-through text-muted-foreground" : ""}>
+                    {t.title}
+                  </span>
+                  <span
+                    className={`ml-auto text-xs ${
+                      !t.completedAt && Date.parse(t.dueAt) < Date.now()
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {t.assignee && `${t.assignee.firstName} · `}
+                    {formatDueDate(t.dueAt)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => send(`/tasks/${t.id}`, "DELETE")}
+                    aria-label={`Delete ${t.title}`}
+                  >
+                    <Trash2 />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <form onSubmit={addTask} className="grid grid-cols-2 gap-2">
+              <Input
+                className="col-span-2"
+                placeholder="New task"
+                value={task.title}
+                onChange={(e) => setTask({ ...task, title: e.target.value })}
+              />
+              <Input
+                type="date"
+                value={task.dueAt}
+                onChange={(e) => setTask({ ...task, dueAt: e.target.value })}
+                aria-label="Due date"
+              />
+              <UserSelect
+                users={users}
+                value={task.assigneeId}
+                onChange={(assigneeId) => setTask({ ...task, assigneeId })}
+              />
+              <Button type="submit" variant="outline" className="col-span-2">
+                Add task
+              </Button>
+            </form>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">Notes</h3>
+            <form onSubmit={addNote} className="space-y-2">
+              <Textarea
+                placeholder="Add a note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+              />
+              <Button type="submit" variant="outline" disabled={!note.trim()}>
+                Add note
+              </Button>
+            </form>
+            <ul className="space-y-3 text-sm">
+              {deal.notes.map((n) => (
+                <li key={n.id} className="border-t pt-2">
+                  <p className="text-xs text-muted-foreground flex justify-between">
+                    <span>
+                      {n.author ? userName(n.author) : "Former user"} · {formatDateTime(n.createdAt)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => send(`/notes/${n.id}`, "DELETE")}
+                      className="hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </p>
+                  <p className="whitespace-pre-line">{n.body}</p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function UserSelect({
+  users,
+  value,
+  onChange,
+}: {
+  users: DealUser[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {users.map((user) => (
+          <SelectItem key={user.id} value={user.id}>
+            {userName(user)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// Tasks are due at the end of a UTC day
+function formatDueDate(date: string) {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDateTime(date: string) {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
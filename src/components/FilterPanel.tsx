@@ -0,0 +1,334 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SOURCES } from "@/lib/sources";
+
+/** Query params the panel owns; anything else in the URL is left alone */
+export const FILTER_PARAMS = [
+  "city",
+  "state",
+  "source",
+  "type",
+  "status",
+  "minPrice",
+  "maxPrice",
+  "minBeds",
+  "maxBeds",
+  "minBaths",
+  "maxBaths",
+  "minSqft",
+  "maxSqft",
+  "firstSeenAfter",
+  "firstSeenBefore",
+  "sortBy",
+  "order",
+] as const;
+
+type FilterParam = (typeof FILTER_PARAMS)[number];
+type Filters = Partial<Record<FilterParam, string>>;
+
+// Select values are "sortBy:order"
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest" },
+  { value: "price:asc", label: "Price: low to high" },
+  { value: "price:desc", label: "Price: high to low" },
+  { value: "pricePerSqft:asc", label: "Price / sqft" },
+  { value: "priceDrop:desc", label: "Biggest price drop" },
+];
+const DEFAULT_SORT = "createdAt:desc";
+
+const STATUSES = [
+  { value: "ACTIVE", label: "Active" },
+  { value: "COMING_SOON", label: "Coming soon" },
+  { value: "PENDING", label: "Pending" },
+  { value: "SOLD", label: "Sold" },
+  { value: "OFF_MARKET", label: "Off market" },
+];
+
+const PROPERTY_TYPES = [
+  { value: "HOME", label: "Home" },
+  { value: "CONDO", label: "Condo" },
+  { value: "TOWNHOUSE", label: "Townhouse" },
+  { value: "MULTI_FAMILY", label: "Multi-family" },
+  { value: "LAND", label: "Land" },
+];
+
+const RANGES: { label: string; min: FilterParam; max: FilterParam; step?: string }[] = [
+  { label: "Price", min: "minPrice", max: "maxPrice" },
+  { label: "Beds", min: "minBeds", max: "maxBeds" },
+  { label: "Baths", min: "minBaths", max: "maxBaths", step: "0.5" },
+  { label: "Sqft", min: "minSqft", max: "maxSqft" },
+];
+
+// Radix Select can't hold an empty value, so "any" stands in for no filter
+const ANY = "any";
+
+interface FilterPanelProps {
+  searchParams: URLSearchParams;
+  onChange: (params: URLSearchParams) => void;
+}
+
+/**
+ * Dashboard filters and sort, read from and written to the URL query string
+ * Selects apply immediately; typed values apply on submit
+ */
+export function FilterPanel({ searchParams, onChange }: FilterPanelProps) {
+  const [draft, setDraft] = useState<Filters>(() => readFilters(searchParams));
+
+  // Back/forward navigation changes the URL under us
+  useEffect(() => {
+    setDraft(readFilters(searchParams));
+  }, [searchParams]);
+
+  const apply = (filters: Filters) => {
+    const next = new URLSearchParams(searchParams);
+    for (const param of FILTER_PARAMS) {
+      const value = filters[param]?.trim();
+      if (value) next.set(param, value);
+      else next.delete(param);
+    }
+    onChange(next);
+  };
+
+  const setField = (param: FilterParam, value: string) =>
+    setDraft((prev) => ({ ...prev, [param]: value }));
+
+  const selectField = (param: FilterParam, value: string) => {
+    const filters = { ...draft, [param]: value === ANY ? "" : value };
+    setDraft(filters);
+    apply(filters);
+  };
+
+  const selectSort = (value: string) => {
+    const [sortBy, order] = value.split(":");
+    const filters = value === DEFAULT_SORT ? { ...draft, sortBy: "", order: "" } : { ...draft, sortBy, order };
+    setDraft(filters);
+    apply(filters);
+  };
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    apply(draft);
+  };
+
+  const reset = () => {
+    setDraft({});
+    apply({});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Filters</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Sort by</Label>
+            <Select
+              value={draft.sortBy ? `${draft.sortBy}:${draft.order}` : DEFAULT_SORT}
+              onValueChange={selectSort}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="filter-city">City</Label>
+            <Input
+              id="filter-city"
+              value={draft.city ?? ""}
+              onChange={(e) => setField("city", e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="filter-state">State</Label>
+            <Input
+              id="filter-state"
+              placeholder="SC"
+              maxLength={2}
+              value={draft.state ?? ""}
+              onChange={(e) => setField("state", e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <Select
+              value={draft.source || ANY}
+              onValueChange={(value) => selectField("source", value)}
+            >
+              <SelectTrigger className="w-full capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any source</SelectItem>
+                {SOURCES.map((source) => (
+                  <SelectItem key={source} value={source} className="capitalize">
+                    {source}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={draft.type || ANY}
+              onValueChange={(value) => selectField("type", value)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any type</SelectItem>
+                {PROPERTY_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={draft.status || ANY}
+              onValueChange={(value) => selectField("status", value)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any status</SelectItem>
+                {STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {RANGES.map((range) => (
+            <div key={range.label} className="space-y-2">
+              <Label>{range.label}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step={range.step}
+                  placeholder="Min"
+                  aria-label={`Minimum ${range.label.toLowerCase()}`}
+                  value={draft[range.min] ?? ""}
+                  onChange={(e) => setField(range.min, e.target.value)}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={range.step}
+                  placeholder="Max"
+                  aria-label={`Maximum ${range.label.toLowerCase()}`}
+                  value={draft[range.max] ?? ""}
+                  onChange={(e) => setField(range.max, e.target.value)}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label>First seen</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                aria-label="First seen after"
+                value={draft.firstSeenAfter ?? ""}
+                onChange={(e) => setField("firstSeenAfter", e.target.value)}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="date"
+                aria-label="First seen before"
+                value={draft.firstSeenBefore ?? ""}
+                onChange={(e) => setField("firstSeenBefore", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              Apply
+            </Button>
+            <Button type="button" variant="outline" onClick={reset}>
+              Reset
+            </Button>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label>Export all matching properties</Label>
+            <div className="flex gap-2">
+              {(["csv", "xlsx"] as const).map((format) => (
+                <Button key={format} asChild variant="outline" size="sm" className="flex-1">
+                  <a href={exportUrl(searchParams, format)} download>
+                    <Download />
+                    {format.toUpperCase()}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The panel's params as an API query string, e.g. "city=greer&sort=price-asc"
+ */
+export function filterQuery(searchParams: URLSearchParams): string {
+  const query = new URLSearchParams();
+  for (const param of FILTER_PARAMS) {
+    const value = searchParams.get(param);
+    if (value) query.set(param, value);
+  }
+  return query.toString();
+}
+
+function exportUrl(searchParams: URLSearchParams, format: "csv" | "xlsx"): string {
+  const query = new URLSearchParams(filterQuery(searchParams));
+  query.set("format", format);
+  return `/api/properties/export?${query}`;
+}
+
+function readFilters(searchParams: URLSearchParams): Filters {
+  const filters: Filters = {};
+  for (const param of FILTER_PARAMS) {
+    const value = searchParams.get(param);
+    if (value) filters[param] = value;
+  }
+  return filters;
+}
@@ -0,0 +1,491 @@
+import { useEffect, useState, type FormEvent, type ReactNode } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface RehabLineItem {
+  category: string;
+  description?: string;
+  cost?: number;
+  costPerSqft?: number;
+}
+
+interface RehabTemplate {
+  name: string;
+  label: string;
+  description: string;
+  items: RehabLineItem[];
+}
+
+interface FlipAnalysis {
+  purchasePrice: number;
+  rehab: { subtotal: number; contingency: number; total: number };
+  loanAmount: number;
+  loanPointsCost: number;
+  purchaseClosingCosts: number;
+  holdingCosts: { monthly: number; total: number };
+  sellingCosts: number;
+  totalProjectCost: number;
+  cashInvested: number;
+  projectedProfit: number;
+  roi: number;
+  annualizedRoi: number;
+  profitMargin: number;
+  maximumAllowableOffer: number;
+  meetsMaoRule: boolean;
+}
+
+interface FlipScenario {
+  id: string;
+  name: string;
+  arv: number;
+  purchasePrice: number | null;
+  rehabItems: RehabLineItem[];
+  assumptions: Record<string, number>;
+  analysis: FlipAnalysis | null;
+  error: string | null;
+}
+
+// The assumptions worth tweaking per scenario; rates are shown as percents
+const ASSUMPTION_FIELDS = [
+  { key: "holdingMonths", label: "Holding months", percent: false },
+  { key: "financedPercent", label: "Financed %", percent: true },
+  { key: "interestRate", label: "Interest rate %", percent: true },
+  { key: "sellingCostPercent", label: "Selling costs %", percent: true },
+  { key: "rehabContingencyPercent", label: "Contingency %", percent: true },
+  { key: "maoPercent", label: "MAO rule %", percent: true },
+];
+
+interface LineForm {
+  category: string;
+  amount: string;
+  perSqft: boolean;
+}
+
+interface ScenarioForm {
+  name: string;
+  arv: string;
+  purchasePrice: string;
+  items: LineForm[];
+  assumptions: Record<string, string>;
+}
+
+const EMPTY_FORM: ScenarioForm = { name: "", arv: "", purchasePrice: "", items: [], assumptions: {} };
+
+const PICK_TEMPLATE = "pick";
+
+/**
+ * Saved fix-and-flip scenarios for a property: rehab budget, costs,
+ * projected profit and the 70%-rule maximum allowable offer
+ */
+export function FlipAnalyzer({ propertyId, sqft }: { propertyId: string; sqft?: number | null }) {
+  const [scenarios, setScenarios] = useState<FlipScenario[]>([]);
+  const [templates, setTemplates] = useState<RehabTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<ScenarioForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchScenarios();
+    fetchTemplates();
+  }, [propertyId]);
+
+  const fetchScenarios = async (selectId?: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/flips`);
+      if (!response.ok) return;
+      const data: FlipScenario[] = await response.json();
+      setScenarios(data);
+      const selected = data.find((s) => s.id === selectId) ?? data[0];
+      if (selected) select(selected);
+    } catch (error) {
+      console.error("Failed to fetch flip scenarios:", error);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch("/api/analysis/rehab-templates");
+      if (response.ok) setTemplates(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch rehab templates:", error);
+    }
+  };
+
+  const select = (scenario: FlipScenario | null) => {
+    setErrors([]);
+    setSelectedId(scenario?.id ?? null);
+    setForm(scenario ? toForm(scenario) : EMPTY_FORM);
+  };
+
+  const applyTemplate = (name: string) => {
+    const template = templates.find((t) => t.name === name);
+    if (template) setForm({ ...form, items: template.items.map(toLineForm) });
+  };
+
+  const setItem = (index: number, changes: Partial<LineForm>) => {
+    setForm({
+      ...form,
+      items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const save = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(
+        `/api/properties/${propertyId}/flips${selectedId ? `/${selectedId}` : ""}`,
+        {
+          method: selectedId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(fromForm(form)),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details ?? [data.error || "Failed to save scenario"]);
+        return;
+      }
+      await fetchScenarios(data.id);
+    } catch (error) {
+      console.error("Failed to save flip scenario:", error);
+      setErrors(["Failed to save scenario"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!selectedId || !confirm("Delete this scenario?")) return;
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/flips/${selectedId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error((await response.json()).error);
+      select(null);
+      await fetchScenarios();
+    } catch (error) {
+      console.error("Failed to delete flip scenario:", error);
+      setErrors(["Failed to delete scenario"]);
+    }
+  };
+
+  const selected = scenarios.find((s) => s.id === selectedId);
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle>Flip analysis</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          {scenarios.map((scenario) => (
+            <Button
+              key={scenario.id}
+              size="sm"
+              variant={scenario.id === selectedId ? "default" : "outline"}
+              onClick={() => select(scenario)}
+            >
+              {scenario.name}
+            </Button>
+          ))}
+          <Button size="sm" variant={selectedId ? "ghost" : "default"} onClick={() => select(null)}>
+            <Plus />
+            New scenario
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <form onSubmit={save} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="Name">
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Base case"
+              />
+            </Field>
+            <Field label="ARV">
+              <Input
+                type="number"
+                min={0}
+                value={form.arv}
+                onChange={(e) => setForm({ ...form, arv: e.target.value })}
+              />
+            </Field>
+            <Field label="Purchase price">
+              <Input
+                type="number"
+                min={0}
+                value={form.purchasePrice}
+                onChange={(e) => setForm({ ...form, purchasePrice: e.target.value })}
+                placeholder="Asking price"
+              />
+            </Field>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="font-semibold text-sm">Rehab budget</h3>
+              <Select value={PICK_TEMPLATE} onValueChange={applyTemplate}>
+                <SelectTrigger size="sm" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PICK_TEMPLATE} disabled>
+                    Start from a template
+                  </SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.name} value={template.name}>
+                      {template.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!sqft && form.items.some((item) => item.perSqft) && (
+              <p className="text-xs text-destructive">
+                Per-sqft lines need the property's square footage.
+              </p>
+            )}
+            {form.items.map((item, i) => (
+              <div key={i} className="grid grid-cols-[1fr_7rem_auto_auto] items-center gap-2">
+                <Input
+                  value={item.category}
+                  onChange={(e) => setItem(i, { category: e.target.value })}
+                  aria-label="Category"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={item.amount}
+                  onChange={(e) => setItem(i, { amount: e.target.value })}
+                  aria-label={`${item.category} cost`}
+                />
+                <label className="text-xs flex items-center gap-1 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={item.perSqft}
+                    onChange={(e) => setItem(i, { perSqft: e.target.checked })}
+                  />
+                  / sqft
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, items: form.items.filter((_, j) => j !== i) })}
+                  aria-label={`Remove ${item.category}`}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setForm({ ...form, items: [...form.items, { category: "", amount: "", perSqft: false }] })
+              }
+            >
+              <Plus />
+              Add line
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {ASSUMPTION_FIELDS.map((field) => (
+              <Field key={field.key} label={field.label}>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.assumptions[field.key] ?? ""}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      assumptions: { ...form.assumptions, [field.key]: e.target.value },
+                    })
+                  }
+                  placeholder="Default"
+                />
+              </Field>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : selectedId ? "Save scenario" : "Add scenario"}
+            </Button>
+            {selectedId && (
+              <Button type="button" variant="outline" onClick={remove}>
+                <Trash2 />
+                Delete
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <FlipResults scenario={selected} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function FlipResults({ scenario }: { scenario?: FlipScenario }) {
+  if (!scenario) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Save a scenario to see its costs, profit and maximum allowable offer.
+      </p>
+    );
+  }
+  if (!scenario.analysis) {
+    return <p className="text-sm text-destructive">{scenario.error}</p>;
+  }
+
+  const a = scenario.analysis;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <Metric
+          label="Projected profit"
+          value={formatPrice(a.projectedProfit)}
+          tone={a.projectedProfit >= 0 ? "good" : "bad"}
+        />
+        <Metric label="ROI" value={`${formatPercent(a.roi)} (${formatPercent(a.annualizedRoi)}/yr)`} />
+        <Metric
+          label="Max allowable offer"
+          value={formatPrice(a.maximumAllowableOffer)}
+          tone={a.meetsMaoRule ? "good" : "bad"}
+        />
+      </div>
+      <dl className="grid grid-cols-2 gap-y-1 text-sm">
+        <Row label="Purchase price" value={a.purchasePrice} />
+        <Row label="Purchase closing costs" value={a.purchaseClosingCosts} />
+        <Row label="Rehab (incl. contingency)" value={a.rehab.total} />
+        <Row label={`Holding (${formatPrice(a.holdingCosts.monthly)}/mo)`} value={a.holdingCosts.total} />
+        <Row label="Loan points" value={a.loanPointsCost} />
+        <Row label="Selling costs" value={a.sellingCosts} />
+        <Row label="Total project cost" value={a.totalProjectCost} strong />
+        <Row label="Loan amount" value={a.loanAmount} />
+        <Row label="Cash invested" value={a.cashInvested} strong />
+      </dl>
+      <p className="text-xs text-muted-foreground">
+        Profit margin {formatPercent(a.profitMargin)} of ARV.{" "}
+        {a.meetsMaoRule
+          ? "The purchase price is within the maximum allowable offer."
+          : "The purchase price is above the maximum allowable offer."}
+      </p>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function Metric({ label, value, tone }: { label: string; value: string; tone?: "good" | "bad" }) {
+  const color = tone === "good" ? "text-green-700" : tone === "bad" ? "text-destructive" : "";
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`font-semibold ${color}`}>{value}</p>
+    </div>
+  );
+}
+
+function Row({ label, value, strong }: { label: string; value: number; strong?: boolean }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className={`text-right ${strong ? "font-semibold" : ""}`}>{formatPrice(value)}</dd>
+    </>
+  );
+}
+
+function toLineForm(item: RehabLineItem): LineForm {
+  return item.costPerSqft !== undefined
+    ? { category: item.category, amount: String(item.costPerSqft), perSqft: true }
+    : { category: item.category, amount: String(item.cost ?? ""), perSqft: false };
+}
+
+function toForm(scenario: FlipScenario): ScenarioForm {
+  const assumptions: Record<string, string> = {};
+  for (const field of ASSUMPTION_FIELDS) {
+    const value = scenario.assumptions[field.key];
+    if (value !== undefined) {
+      assumptions[field.key] = String(field.percent ? round(value * 100) : value);
+    }
+  }
+
+  return {
+    name: scenario.name,
+    arv: String(scenario.arv),
+    purchasePrice: scenario.purchasePrice === null ? "" : String(scenario.purchasePrice),
+    items: scenario.rehabItems.map(toLineForm),
+    assumptions,
+  };
+}
+
+// Blank assumptions fall back to the defaults
+function fromForm(form: ScenarioForm) {
+  const assumptions: Record<string, number> = {};
+  for (const field of ASSUMPTION_FIELDS) {
+    const value = form.assumptions[field.key];
+    if (value) assumptions[field.key] = field.percent ? Number(value) / 100 : Number(value);
+  }
+
+  return {
+    name: form.name,
+    arv: form.arv,
+    purchasePrice: form.purchasePrice || null,
+    rehabItems: form.items.map((item) =>
+      item.perSqft
+        ? { category: item.category, costPerSqft: item.amount }
+        : { category: item.category, cost: item.amount }
+    ),
+    assumptions,
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(price);
+}
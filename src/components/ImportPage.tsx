@@ -0,0 +1,299 @@
+import { useState, type ChangeEvent } from "react";
+import { Link } from "react-router";
+import { ArrowLeft, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Mirrors IMPORT_FIELDS on the server; required ones must be mapped
+const FIELDS = [
+  { value: "street", label: "Street", required: true },
+  { value: "city", label: "City", required: true },
+  { value: "state", label: "State", required: true },
+  { value: "zip", label: "ZIP" },
+  { value: "price", label: "Price", required: true },
+  { value: "propertyType", label: "Type" },
+  { value: "status", label: "Status" },
+  { value: "beds", label: "Beds" },
+  { value: "baths", label: "Baths" },
+  { value: "sqft", label: "Square feet" },
+  { value: "lotSize", label: "Lot size (acres)" },
+  { value: "url", label: "Listing URL" },
+  { value: "sourceId", label: "Deal ID" },
+];
+const UNMAPPED = "unmapped";
+
+type ColumnMapping = Record<string, string>;
+
+interface ImportRow {
+  rowNumber: number;
+  property?: {
+    street: string;
+    city: string;
+    state: string;
+    price: number;
+    propertyType?: string;
+  };
+  errors: string[];
+  match?: "new" | "existing";
+}
+
+interface ImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+  validCount: number;
+  errorCount: number;
+  errors: string[];
+}
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { rowNumber: number; error: string }[];
+}
+
+export function ImportPage({ onImported }: { onImported?: () => void }) {
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [source, setSource] = useState("import");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const post = async (path: string, mapping?: ColumnMapping, text: string = csv) => {
+    setBusy(true);
+    setErrors([]);
+    try {
+      const response = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: text, mapping, source }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details ?? [data.error || "Import failed"]);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error("Failed to import:", error);
+      setErrors(["Import failed"]);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadPreview = async (mapping?: ColumnMapping, text?: string) => {
+    setResult(null);
+    const data = await post("/api/properties/import/preview", mapping, text);
+    if (data) setPreview(data);
+  };
+
+  const chooseFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setPreview(null);
+    await loadPreview(undefined, text);
+  };
+
+  const mapField = (field: string, header: string) => {
+    if (!preview) return;
+    const mapping = { ...preview.mapping };
+    if (header === UNMAPPED) delete mapping[field];
+    else mapping[field] = header;
+    loadPreview(mapping);
+  };
+
+  const runImport = async () => {
+    if (!preview) return;
+    const data = await post("/api/properties/import", preview.mapping);
+    if (!data) return;
+    setResult(data);
+    onImported?.();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link to="/">
+          <ArrowLeft />
+          Back to listings
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import deals</CardTitle>
+          <CardDescription>
+            Upload a CSV of off-market or wholesaler deals. Rows are matched to existing
+            properties by address, and re-importing a sheet updates the same listings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV file</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={chooseFile} />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-source">Source label</Label>
+            <Input
+              id="import-source"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              onBlur={() => csv && loadPreview(preview?.mapping)}
+              placeholder="import"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {(errors.length > 0 || (preview && preview.errors.length > 0)) && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">Can't import this file</CardTitle>
+            <ul className="text-sm text-muted-foreground list-disc pl-5">
+              {[...errors, ...(preview?.errors ?? [])].map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </CardHeader>
+        </Card>
+      )}
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Columns</CardTitle>
+            <CardDescription>Match each field to a column in the sheet.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {FIELDS.map((field) => (
+              <div key={field.value} className="space-y-2">
+                <Label>
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <Select
+                  value={preview.mapping[field.value] ?? UNMAPPED}
+                  onValueChange={(header) => mapField(field.value, header)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {preview.headers.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {preview && preview.rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              {preview.validCount} rows ready, {preview.errorCount} with errors (skipped)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-h-[480px] overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-3">Row</th>
+                    <th className="py-2 pr-3">Address</th>
+                    <th className="py-2 pr-3">Price</th>
+                    <th className="py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.rowNumber} className="border-t align-top">
+                      <td className="py-2 pr-3">{row.rowNumber}</td>
+                      <td className="py-2 pr-3">
+                        {row.property &&
+                          `${row.property.street}, ${row.property.city}, ${row.property.state}`}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {row.property && formatPrice(row.property.price)}
+                      </td>
+                      <td className="py-2">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-destructive">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : row.match === "existing" ? (
+                          <span className="text-amber-700">Updates existing property</span>
+                        ) : (
+                          <span className="text-green-700">New property</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Button onClick={runImport} disabled={busy || preview.validCount === 0 || !!result}>
+              <Upload />
+              {busy ? "Working..." : `Import ${preview.validCount} rows`}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import complete</CardTitle>
+            <CardDescription>
+              {result.created} created, {result.updated} updated, {result.skipped} skipped
+            </CardDescription>
+            {result.errors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {result.errors.map((error) => (
+                  <li key={error.rowNumber}>
+                    Row {error.rowNumber}: {error.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardHeader>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(price);
+}
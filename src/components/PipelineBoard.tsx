@@ -0,0 +1,253 @@
+import { useEffect, useState, type DragEvent } from "react";
+import { Link } from "react-router";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DealPanel, DEAL_STAGES, userName, type DealUser } from "@/components/DealPanel";
+
+interface BoardDeal {
+  id: string;
+  stage: string;
+  stageChangedAt: string;
+  property: {
+    id: string;
+    street: string;
+    city: string;
+    state: string;
+    price: string | number;
+  };
+  assignee: DealUser | null;
+  tasks: { id: string; title: string; dueAt: string }[];
+  _count: { tasks: number };
+}
+
+const EVERYONE = "everyone";
+
+/**
+ * Kanban board of deals by stage
+ * Drag a card to another column to move the deal; click it for notes and tasks
+ */
+export function PipelineBoard({ currentUserId }: { currentUserId: string }) {
+  const [deals, setDeals] = useState<BoardDeal[]>([]);
+  const [users, setUsers] = useState<DealUser[]>([]);
+  const [assigneeId, setAssigneeId] = useState(EVERYONE);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    fetchDeals();
+  }, [assigneeId]);
+
+  const fetchDeals = async () => {
+    try {
+      const query = assigneeId === EVERYONE ? "" : `?assigneeId=${encodeURIComponent(assigneeId)}`;
+      const response = await fetch(`/api/deals${query}`);
+      if (response.ok) setDeals(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch deals:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch("/api/users");
+      if (response.ok) setUsers(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+    }
+  };
+
+  const moveDeal = async (dealId: string, stage: string) => {
+    const deal = deals.find((d) => d.id === dealId);
+    if (!deal || deal.stage === stage) return;
+
+    // Move the card right away; a failed save puts it back
+    setError(null);
+    setDeals((current) =>
+      current.map((d) =>
+        d.id === dealId ? { ...d, stage, stageChangedAt: new Date().toISOString() } : d
+      )
+    );
+    try {
+      const response = await fetch(`/api/deals/${dealId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stage }),
+      });
+      if (!response.ok) throw new Error((await response.json()).error);
+    } catch (error) {
+      console.error("Failed to move deal:", error);
+      setError("Failed to move deal");
+      fetchDeals();
+    }
+  };
+
+  const onDrop = (e: DragEvent, stage: string) => {
+    e.preventDefault();
+    setDropStage(null);
+    const dealId = e.dataTransfer.getData("text/plain");
+    if (dealId) moveDeal(dealId, stage);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft />
+            Back to listings
+          </Link>
+        </Button>
+        <div className="space-y-2 w-56">
+          <Label>Assignee</Label>
+          <Select value={assigneeId} onValueChange={setAssigneeId}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={EVERYONE}>Everyone</SelectItem>
+              <SelectItem value={currentUserId}>Assigned to me</SelectItem>
+              {users
+                .filter((user) => user.id !== currentUserId)
+                .map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {userName(user)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading pipeline...</p>
+        </div>
+      ) : (
+        <div className="grid grid-flow-col auto-cols-[minmax(220px,1fr)] gap-4 overflow-x-auto pb-2">
+          {DEAL_STAGES.map((stage) => {
+            const column = deals.filter((deal) => deal.stage === stage.value);
+            return (
+              <section
+                key={stage.value}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropStage(stage.value);
+                }}
+                onDragLeave={() => setDropStage(null)}
+                onDrop={(e) => onDrop(e, stage.value)}
+                className={`rounded-lg bg-muted/50 p-3 min-h-64 space-y-3 ${
+                  dropStage === stage.value ? "ring-2 ring-primary" : ""
+                }`}
+              >
+                <h3 className="text-sm font-semibold flex justify-between">
+                  {stage.label}
+                  <span className="text-muted-foreground">{column.length}</span>
+                </h3>
+                {column.map((deal) => (
+                  <DealCard
+                    key={deal.id}
+                    deal={deal}
+                    selected={deal.id === selectedId}
+                    onSelect={() => setSelectedId(deal.id)}
+                  />
+                ))}
+              </section>
+            );
+          })}
+        </div>
+      )}
+
+      {deals.length === 0 && !loading && (
+        <p className="text-muted-foreground text-center">
+          No deals yet. Add a property to the pipeline from its detail page.
+        </p>
+      )}
+
+      {selectedId && (
+        <DealPanel
+          key={selectedId}
+          dealId={selectedId}
+          users={users}
+          onChanged={fetchDeals}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function DealCard({
+  deal,
+  selected,
+  onSelect,
+}: {
+  deal: BoardDeal;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const nextTask = deal.tasks[0];
+  const overdue = nextTask && Date.parse(nextTask.dueAt) < Date.now();
+
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", deal.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={onSelect}
+      className={`w-full text-left rounded-md border bg-card p-3 shadow-xs cursor-grab active:cursor-grabbing space-y-1 ${
+        selected ? "border-primary" : ""
+      }`}
+    >
+      <p className="font-medium text-sm">{deal.property.street}</p>
+      <p className="text-xs text-muted-foreground">
+        {deal.property.city}, {deal.property.state} · {formatPrice(deal.property.price)}
+      </p>
+      {nextTask && (
+        <p className={`text-xs ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+          {nextTask.title} · due {formatDate(nextTask.dueAt)}
+          {deal._count.tasks > 1 && ` (+${deal._count.tasks - 1})`}
+        </p>
+      )}
+      {deal.assignee && <p className="text-xs">{userName(deal.assignee)}</p>}
+    </button>
+  );
+}
+
+// Tasks are due at the end of a UTC day
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatPrice(price: string | number) {
+  const numPrice = typeof price === "string" ? parseFloat(price) : price;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(numPrice);
+}
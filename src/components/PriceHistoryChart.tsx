@@ -0,0 +1,184 @@
+import { getSourceHex } from "@/lib/sources";
+
+interface PriceChange {
+  id: string;
+  oldPrice: string | number;
+  newPrice: string | number;
+  changeDate: string;
+}
+
+interface ChartListing {
+  id: string;
+  source: string;
+  price: string | number;
+  status: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  priceHistory: PriceChange[];
+}
+
+interface PricePoint {
+  date: number;
+  price: number;
+}
+
+interface Series {
+  listing: ChartListing;
+  points: PricePoint[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+
+/**
+ * Price over time for one listing, as a step series
+ * Starts at the price it was first seen at, steps at each change, and runs to
+ * today (or the last sighting once it's off the market)
+ */
+function buildPriceSeries(listing: ChartListing, now: number = Date.now()): PricePoint[] {
+  const changes = [...listing.priceHistory].sort(
+    (a, b) => Date.parse(a.changeDate) - Date.parse(b.changeDate)
+  );
+  const firstSeen = Date.parse(listing.firstSeenAt);
+  const end =
+    listing.status === "SOLD" || listing.status === "OFF_MARKET"
+      ? Date.parse(listing.lastSeenAt)
+      : now;
+
+  const points: PricePoint[] = [
+    { date: firstSeen, price: Number(changes[0]?.oldPrice ?? listing.price) },
+  ];
+  for (const change of changes) {
+    points.push({ date: Date.parse(change.changeDate), price: Number(change.newPrice) });
+  }
+  points.push({ date: Math.max(end, points.at(-1)!.date), price: Number(listing.price) });
+
+  return points;
+}
+
+export function PriceHistoryChart({ listings }: { listings: ChartListing[] }) {
+  const series: Series[] = listings.map((listing) => ({
+    listing,
+    points: buildPriceSeries(listing),
+  }));
+  const all = series.flatMap((s) => s.points);
+
+  const minDate = Math.min(...all.map((p) => p.date));
+  const maxDate = Math.max(...all.map((p) => p.date));
+  const minPrice = Math.min(...all.map((p) => p.price));
+  const maxPrice = Math.max(...all.map((p) => p.price));
+  // Keep a flat line off the axes
+  const pricePad = Math.max((maxPrice - minPrice) * 0.1, maxPrice * 0.02);
+  const low = minPrice - pricePad;
+  const high = maxPrice + pricePad;
+
+  const x = (date: number) =>
+    PADDING.left +
+    (maxDate === minDate ? 0.5 : (date - minDate) / (maxDate - minDate)) *
+      (WIDTH - PADDING.left - PADDING.right);
+  const y = (price: number) =>
+    PADDING.top + (1 - (price - low) / (high - low)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const priceTicks = [low, (low + high) / 2, high];
+  const dateTicks = maxDate === minDate ? [minDate] : [minDate, (minDate + maxDate) / 2, maxDate];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Price history">
+        {priceTicks.map((price) => (
+          <g key={price}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(price)}
+              y2={y(price)}
+              className="stroke-gray-200"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(price)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[11px]"
+            >
+              {formatPrice(price)}
+            </text>
+          </g>
+        ))}
+        {dateTicks.map((date) => (
+          <text
+            key={date}
+            x={x(date)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-gray-500 text-[11px]"
+          >
+            {formatDate(date)}
+          </text>
+        ))}
+        {series.map(({ listing, points }) => (
+          <g key={listing.id}>
+            <path
+              d={stepPath(points, x, y)}
+              fill="none"
+              stroke={getSourceHex(listing.source)}
+              strokeWidth={2}
+            />
+            {points.slice(1, -1).map((point) => (
+              <circle
+                key={point.date}
+                cx={x(point.date)}
+                cy={y(point.price)}
+                r={3.5}
+                fill={getSourceHex(listing.source)}
+              >
+                <title>{`${formatDate(point.date)}: ${formatPrice(point.price)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex gap-4 text-xs mt-2">
+          {series.map(({ listing }) => (
+            <span key={listing.id} className="flex items-center gap-1 capitalize">
+              <span
+                className="inline-block w-3 h-0.5"
+                style={{ backgroundColor: getSourceHex(listing.source) }}
+              />
+              {listing.source}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function stepPath(
+  points: PricePoint[],
+  x: (date: number) => number,
+  y: (price: number) => number
+): string {
+  return points
+    .map((point, i) => {
+      if (i === 0) return `M ${x(point.date)} ${y(point.price)}`;
+      // Hold the previous price until the change date, then step
+      return `H ${x(point.date)} V ${y(point.price)}`;
+    })
+    .join(" ");
+}
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(price);
+}
+
+function formatDate(date: number) {
+  return new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" });
+}
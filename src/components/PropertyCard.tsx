@@ -1,5 +1,17 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Star } from "lucide-react";
+import { Link } from "react-router";
+import { getSourceColor } from "@/lib/sources";
+
+interface Listing {
+  id: string;
+  source: string;
+  url: string | null;
+  price: string | number;
+  status: string;
+  images: string[];
+}
 
 interface Property {
   id: string;
@@ -10,17 +22,18 @@ interface Property {
   beds?: number | null;
   baths?: string | number | null;
   sqft?: number | null;
-  source: string;
-  url: string;
-  images: string[];
   propertyType: string;
+  daysOnMarket?: number;
+  listings: Listing[];
 }
 
 interface PropertyCardProps {
   property: Property;
+  isFavorite?: boolean;
+  onToggleFavorite?: (property: Property) => void;
 }
 
-export function PropertyCard({ property }: PropertyCardProps) {
+export function PropertyCard({ property, isFavorite = false, onToggleFavorite }: PropertyCardProps) {
   const formatPrice = (price: string | number) => {
     const numPrice = typeof price === "string" ? parseFloat(price) : price;
     return new Intl.NumberFormat("en-US", {
@@ -30,47 +43,57 @@ export function PropertyCard({ property }: PropertyCardProps) {
     }).format(numPrice);
   };
 
-  const getSourceColor = (source: string) => {
-    switch (source.toLowerCase()) {
-      case "zillow":
-        return "bg-blue-500";
-      case "redfin":
-        return "bg-red-500";
-      case "realtor":
-        return "bg-green-500";
-      case "land":
-        return "bg-amber-500";
-      default:
-        return "bg-gray-500";
-    }
-  };
+  const image = property.listings.find((listing) => listing.images.length > 0)?.images[0];
 
   return (
     <Card className="overflow-hidden hover:shadow-lg transition-shadow">
       <div className="relative">
-        {property.images[0] ? (
-          <img
-            src={property.images[0]}
-            alt={`${property.street}, ${property.city}`}
-            className="w-full h-48 object-cover"
-          />
-        ) : (
-          <div className="w-full h-48 bg-gradient-to-br from-gray-200 to-gray-300 flex items-center justify-center">
-            <span className="text-gray-400 text-4xl">🏠</span>
-          </div>
-        )}
-        <div className={`absolute top-2 right-2 ${getSourceColor(property.source)} text-white text-xs px-2 py-1 rounded`}>
-          {property.source}
+        <Link to={`/properties/${property.id}`}>
+          {image ? (
+            <img
+              src={image}
+              alt={`${property.street}, ${property.city}`}
+              className="w-full h-48 object-cover"
+            />
+          ) : (
+            <div className="w-full h-48 bg-gradient-to-br from-gray-200 to-gray-300 flex items-center justify-center">
+              <span className="text-gray-400 text-4xl">🏠</span>
+            </div>
+          )}
+        </Link>
+        <div className="absolute top-2 right-2 flex gap-1">
+          {property.listings.map((listing) => (
+            <div
+              key={listing.id}
+              className={`${getSourceColor(listing.source)} text-white text-xs px-2 py-1 rounded`}
+            >
+              {listing.source}
+            </div>
+          ))}
         </div>
+        {onToggleFavorite && (
+          <Button
+            variant="secondary"
+            size="icon-sm"
+            className="absolute top-2 left-2 rounded-full bg-white/90 hover:bg-white"
+            onClick={() => onToggleFavorite(property)}
+            aria-pressed={isFavorite}
+            aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+          >
+            <Star className={isFavorite ? "fill-amber-400 text-amber-400" : "text-gray-600"} />
+          </Button>
+        )}
       </div>
       <CardHeader className="pb-3">
         <CardTitle className="text-2xl font-bold">
           {formatPrice(property.price)}
         </CardTitle>
         <CardDescription className="text-base">
-          {property.street}
-          <br />
-          {property.city}, {property.state}
+          <Link to={`/properties/${property.id}`} className="hover:underline">
+            {property.street}
+            <br />
+            {property.city}, {property.state}
+          </Link>
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -78,12 +101,31 @@ export function PropertyCard({ property }: PropertyCardProps) {
           {property.beds && <span>{property.beds} bd</span>}
           {property.baths && <span>{property.baths} ba</span>}
           {property.sqft && <span>{property.sqft.toLocaleString()} sqft</span>}
+          {property.daysOnMarket !== undefined && (
+            <span className="ml-auto">{property.daysOnMarket} days on market</span>
+          )}
+        </div>
+        <div className="space-y-2">
+          {property.listings.map((listing) =>
+            // Imported deals often have no listing page to link to
+            listing.url ? (
+              <Button key={listing.id} asChild variant="outline" className="w-full justify-between">
+                <a href={listing.url} target="_blank" rel="noopener noreferrer">
+                  <span className="capitalize">View on {listing.source}</span>
+                  <span>{formatPrice(listing.price)}</span>
+                </a>
+              </Button>
+            ) : (
+              <div
+                key={listing.id}
+                className="flex justify-between rounded-md border px-4 py-2 text-sm font-medium"
+              >
+                <span className="capitalize">{listing.source}</span>
+                <span>{formatPrice(listing.price)}</span>
+              </div>
+            )
+          )}
         </div>
-        <Button asChild className="w-full">
-          <a href={property.url} target="_blank" rel="noopener noreferrer">
-            View Listing
-          </a>
-        </Button>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,426 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { ArrowLeft, ExternalLink, KanbanSquare, Pencil, Star, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { DEAL_STAGES } from "@/components/DealPanel";
+import { FlipAnalyzer } from "@/components/FlipAnalyzer";
+import { getSourceColor } from "@/lib/sources";
+
+interface PriceChange {
+  id: string;
+  oldPrice: string | number;
+  newPrice: string | number;
+  changeDate: string;
+}
+
+interface StatusChange {
+  id: string;
+  source: string;
+  oldStatus: string | null;
+  newStatus: string;
+  event: string | null;
+  changeDate: string;
+}
+
+interface Listing {
+  id: string;
+  source: string;
+  url: string | null;
+  price: string | number;
+  status: string;
+  images: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+  daysOnMarket: number;
+  priceHistory: PriceChange[];
+}
+
+interface PropertyDetails {
+  id: string;
+  street: string;
+  city: string;
+  state: string;
+  zip?: string | null;
+  price: string | number;
+  status: string;
+  propertyType: string;
+  beds?: number | null;
+  baths?: string | number | null;
+  sqft?: number | null;
+  lotSize?: string | number | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  daysOnMarket: number;
+  notes?: string | null;
+  overriddenFields: string[];
+  deal: { id: string; stage: string } | null;
+  listings: Listing[];
+  statusTimeline: StatusChange[];
+}
+
+interface PropertyDetailProps {
+  favoriteIds: Set<string>;
+  onToggleFavorite?: (property: { id: string }) => void;
+  onDeleted?: () => void;
+}
+
+export function PropertyDetail({ favoriteIds, onToggleFavorite, onDeleted }: PropertyDetailProps) {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [property, setProperty] = useState<PropertyDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+    fetchProperty(id);
+  }, [id]);
+
+  const fetchProperty = async (propertyId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/properties/${propertyId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to load property");
+        setProperty(null);
+      } else {
+        setProperty(data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch property:", error);
+      setError("Failed to load property");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addToPipeline = async () => {
+    if (!property) return;
+    try {
+      const response = await fetch("/api/deals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ propertyId: property.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to add to pipeline");
+        return;
+      }
+      setProperty({ ...property, deal: { id: data.id, stage: data.stage } });
+    } catch (error) {
+      console.error("Failed to add to pipeline:", error);
+      setError("Failed to add to pipeline");
+    }
+  };
+
+  const deleteProperty = async () => {
+    if (!property) return;
+    if (!confirm(`Delete ${property.street} and all of its listings?`)) return;
+    try {
+      const response = await fetch(`/api/properties/${property.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "Failed to delete property");
+        return;
+      }
+      onDeleted?.();
+      navigate("/");
+    } catch (error) {
+      console.error("Failed to delete property:", error);
+      setError("Failed to delete property");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">Loading property...</p>
+      </div>
+    );
+  }
+
+  if (!property) {
+    return (
+      <div className="space-y-4">
+        <BackLink />
+        <Card>
+          <CardHeader>
+            <CardTitle>{error ?? "Property not found"}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const images = [...new Set(property.listings.flatMap((listing) => listing.images))];
+  const isFavorite = favoriteIds.has(property.id);
+
+  return (
+    <div className="space-y-6">
+      <BackLink />
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">{formatPrice(property.price)}</h2>
+          <p className="text-lg">
+            {property.street}, {property.city}, {property.state} {property.zip}
+          </p>
+          <div className="flex items-center gap-2 mt-2 text-sm">
+            <StatusBadge status={property.status} />
+            <span className="text-muted-foreground">
+              {property.daysOnMarket} days on market
+            </span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {onToggleFavorite && (
+            <Button
+              variant="outline"
+              onClick={() => onToggleFavorite(property)}
+              aria-pressed={isFavorite}
+            >
+              <Star className={isFavorite ? "fill-amber-400 text-amber-400" : ""} />
+              {isFavorite ? "Favorited" : "Favorite"}
+            </Button>
+          )}
+          {property.deal ? (
+            <Button asChild variant="outline">
+              <Link to="/pipeline">
+                <KanbanSquare />
+                {DEAL_STAGES.find((stage) => stage.value === property.deal?.stage)?.label}
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={addToPipeline}>
+              <KanbanSquare />
+              Add to pipeline
+            </Button>
+          )}
+          <Button asChild variant="outline">
+            <Link to={`/properties/${property.id}/edit`}>
+              <Pencil />
+              Edit
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={deleteProperty}>
+            <Trash2 />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <PhotoGallery images={images} alt={property.street} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Price history</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PriceHistoryChart listings={property.listings} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+              <Spec label="Type" value={formatEnum(property.propertyType)} />
+              <Spec label="Beds" value={property.beds} />
+              <Spec label="Baths" value={property.baths} />
+              <Spec label="Square feet" value={property.sqft?.toLocaleString()} />
+              <Spec
+                label="Price / sqft"
+                value={
+                  property.sqft
+                    ? formatPrice(Number(property.price) / property.sqft)
+                    : null
+                }
+              />
+              <Spec label="Lot size" value={property.lotSize && `${property.lotSize} acres`} />
+              <Spec label="ZIP" value={property.zip} />
+              <Spec label="First seen" value={formatDate(property.firstSeenAt)} />
+              <Spec label="Last seen" value={formatDate(property.lastSeenAt)} />
+            </dl>
+            {property.overriddenFields.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-3">
+                Edited by hand: {property.overriddenFields.map(formatField).join(", ")}
+              </p>
+            )}
+            {property.notes && (
+              <p className="text-sm whitespace-pre-line mt-3 pt-3 border-t">{property.notes}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Listings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {property.listings.map((listing) => (
+              <div key={listing.id} className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span
+                    className={`${getSourceColor(listing.source)} text-white text-xs px-2 py-1 rounded`}
+                  >
+                    {listing.source}
+                  </span>
+                  <StatusBadge status={listing.status} />
+                  <span className="text-muted-foreground">{listing.daysOnMarket} days</span>
+                </div>
+                {listing.url ? (
+                  <Button asChild variant="outline" size="sm">
+                    <a href={listing.url} target="_blank" rel="noopener noreferrer">
+                      {formatPrice(listing.price)}
+                      <ExternalLink />
+                    </a>
+                  </Button>
+                ) : (
+                  <span className="text-sm font-medium">{formatPrice(listing.price)}</span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Status timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-2 text-sm">
+              {property.statusTimeline.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-3">
+                  <span>
+                    <span className="capitalize">{entry.source}</span>:{" "}
+                    {entry.oldStatus
+                      ? `${formatEnum(entry.oldStatus)} → ${formatEnum(entry.newStatus)}`
+                      : `Listed as ${formatEnum(entry.newStatus)}`}
+                    {entry.event && ` (${formatEnum(entry.event)})`}
+                  </span>
+                  <span className="text-muted-foreground">{formatDate(entry.changeDate)}</span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+
+        {property.propertyType !== "LAND" && (
+          <FlipAnalyzer propertyId={property.id} sqft={property.sqft} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BackLink() {
+  return (
+    <Button asChild variant="ghost" size="sm">
+      <Link to="/">
+        <ArrowLeft />
+        Back to listings
+      </Link>
+    </Button>
+  );
+}
+
+function PhotoGallery({ images, alt }: { images: string[]; alt: string }) {
+  const [selected, setSelected] = useState(0);
+
+  if (images.length === 0) {
+    return (
+      <div className="w-full h-72 rounded-lg bg-gradient-to-br from-gray-200 to-gray-300 flex items-center justify-center">
+        <span className="text-gray-400 text-6xl">🏠</span>
+      </div>
+    );
+  }
+
+  const current = images[Math.min(selected, images.length - 1)];
+
+  return (
+    <div className="space-y-2">
+      <img src={current} alt={alt} className="w-full max-h-[480px] object-cover rounded-lg" />
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, i) => (
+            <button
+              key={image}
+              type="button"
+              onClick={() => setSelected(i)}
+              className={`shrink-0 rounded border-2 ${i === selected ? "border-primary" : "border-transparent"}`}
+              aria-label={`Show photo ${i + 1}`}
+            >
+              <img src={image} alt="" className="h-16 w-24 object-cover rounded-sm" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Spec({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="font-medium">{value ?? "—"}</dd>
+    </>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const colors: Record<string, string> = {
+    ACTIVE: "bg-green-100 text-green-800",
+    COMING_SOON: "bg-blue-100 text-blue-800",
+    PENDING: "bg-amber-100 text-amber-800",
+    SOLD: "bg-gray-200 text-gray-800",
+    OFF_MARKET: "bg-gray-100 text-gray-600",
+  };
+
+  return (
+    <span className={`${colors[status] ?? "bg-gray-100"} text-xs font-medium px-2 py-0.5 rounded`}>
+      {formatEnum(status)}
+    </span>
+  );
+}
+
+function formatEnum(value: string) {
+  return value
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function formatField(field: string) {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatPrice(price: string | number) {
+  const numPrice = typeof price === "string" ? parseFloat(price) : price;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(numPrice);
+}
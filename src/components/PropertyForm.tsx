@@ -0,0 +1,324 @@
+import { useEffect, useState, type FormEvent, type ReactNode } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const FIELDS = [
+  "street",
+  "city",
+  "state",
+  "zip",
+  "price",
+  "status",
+  "propertyType",
+  "beds",
+  "baths",
+  "sqft",
+  "lotSize",
+  "notes",
+] as const;
+
+type Field = (typeof FIELDS)[number];
+type Values = Record<Field, string>;
+
+const EMPTY: Values = {
+  street: "",
+  city: "",
+  state: "",
+  zip: "",
+  price: "",
+  status: "ACTIVE",
+  propertyType: "HOME",
+  beds: "",
+  baths: "",
+  sqft: "",
+  lotSize: "",
+  notes: "",
+};
+
+const STATUSES = [
+  { value: "ACTIVE", label: "Active" },
+  { value: "COMING_SOON", label: "Coming soon" },
+  { value: "PENDING", label: "Pending" },
+  { value: "SOLD", label: "Sold" },
+  { value: "OFF_MARKET", label: "Off market" },
+];
+
+const PROPERTY_TYPES = [
+  { value: "HOME", label: "Home" },
+  { value: "CONDO", label: "Condo" },
+  { value: "TOWNHOUSE", label: "Townhouse" },
+  { value: "MULTI_FAMILY", label: "Multi-family" },
+  { value: "LAND", label: "Land" },
+];
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Create a property by hand (/properties/new) or correct one (/properties/:id/edit)
+ * Edits only send the fields that changed; those stop being updated by email
+ * alerts until they're reset
+ */
+export function PropertyForm({ onSaved }: { onSaved?: () => void }) {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [values, setValues] = useState<Values>(EMPTY);
+  const [saved, setSaved] = useState<Values>(EMPTY);
+  const [overridden, setOverridden] = useState<string[]>([]);
+  const [errors, setErrors] = useState<FieldError[]>([]);
+  const [loading, setLoading] = useState(!!id);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    fetchProperty(id);
+  }, [id]);
+
+  const fetchProperty = async (propertyId: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/properties/${propertyId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors([{ field: "body", message: data.error || "Failed to load property" }]);
+        return;
+      }
+      const loaded = Object.fromEntries(
+        FIELDS.map((field) => [field, data[field] == null ? "" : String(data[field])])
+      ) as Values;
+      setValues(loaded);
+      setSaved(loaded);
+      setOverridden(data.overriddenFields ?? []);
+    } catch (error) {
+      console.error("Failed to fetch property:", error);
+      setErrors([{ field: "body", message: "Failed to load property" }]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const save = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(id ? `/api/properties/${id}` : "/api/properties", {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details ?? [{ field: "body", message: data.error || "Failed to save property" }]);
+        return null;
+      }
+      onSaved?.();
+      return data;
+    } catch (error) {
+      console.error("Failed to save property:", error);
+      setErrors([{ field: "body", message: "Failed to save property" }]);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    const changed = FIELDS.filter((field) => !id || values[field] !== saved[field]);
+    if (id && changed.length === 0) {
+      navigate(`/properties/${id}`);
+      return;
+    }
+
+    const body = Object.fromEntries(
+      changed.map((field) => [field, values[field].trim() === "" ? null : values[field]])
+    );
+    const property = await save(body);
+    if (property) navigate(`/properties/${property.id}`);
+  };
+
+  const reset = async (field: Field) => {
+    const property = await save({ resetFields: [field] });
+    if (property && id) fetchProperty(id);
+  };
+
+  const setField = (field: Field, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+  };
+
+  const errorFor = (field: Field) => errors.find((error) => error.field === field)?.message;
+  const formErrors = errors.filter((error) => !FIELDS.includes(error.field as Field));
+
+  const text = (field: Field, label: string, props: Record<string, unknown> = {}) => (
+    <FormField
+      field={field}
+      label={label}
+      error={errorFor(field)}
+      overridden={overridden.includes(field)}
+      onReset={() => reset(field)}
+    >
+      <Input
+        id={field}
+        value={values[field]}
+        onChange={(e) => setField(field, e.target.value)}
+        aria-invalid={!!errorFor(field)}
+        {...props}
+      />
+    </FormField>
+  );
+
+  const select = (field: Field, label: string, options: { value: string; label: string }[]) => (
+    <FormField
+      field={field}
+      label={label}
+      error={errorFor(field)}
+      overridden={overridden.includes(field)}
+      onReset={() => reset(field)}
+    >
+      <Select value={values[field]} onValueChange={(value) => setField(field, value)}>
+        <SelectTrigger id={field} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </FormField>
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">Loading property...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link to={id ? `/properties/${id}` : "/"}>
+          <ArrowLeft />
+          {id ? "Back to property" : "Back to listings"}
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{id ? "Edit property" : "Add property"}</CardTitle>
+          <CardDescription>
+            {id
+              ? "Fields you change here are kept when new email alerts arrive for this property."
+              : "Add a deal that didn't come through an email alert."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-6">
+            {formErrors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {formErrors.map((error) => (
+                  <li key={error.message}>{error.message}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">{text("street", "Street")}</div>
+              {text("city", "City")}
+              <div className="grid grid-cols-2 gap-2">
+                {text("state", "State")}
+                {text("zip", "ZIP", { inputMode: "numeric" })}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {text("price", "Price", { type: "number", min: 0, step: "any" })}
+              {select("status", "Status", STATUSES)}
+              {select("propertyType", "Type", PROPERTY_TYPES)}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {text("beds", "Beds", { type: "number", min: 0, step: 1 })}
+              {text("baths", "Baths", { type: "number", min: 0, step: 0.5 })}
+              {text("sqft", "Square feet", { type: "number", min: 1, step: 1 })}
+              {text("lotSize", "Lot size (acres)", { type: "number", min: 0, step: "any" })}
+            </div>
+
+            <FormField field="notes" label="Notes" error={errorFor("notes")}>
+              <Textarea
+                id="notes"
+                value={values.notes}
+                onChange={(e) => setField("notes", e.target.value)}
+                rows={4}
+              />
+            </FormField>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : id ? "Save changes" : "Add property"}
+              </Button>
+              <Button asChild type="button" variant="outline">
+                <Link to={id ? `/properties/${id}` : "/"}>Cancel</Link>
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function FormField({
+  field,
+  label,
+  error,
+  overridden,
+  onReset,
+  children,
+}: {
+  field: string;
+  label: string;
+  error?: string;
+  overridden?: boolean;
+  onReset?: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={field}>{label}</Label>
+        {overridden && onReset && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="flex items-center gap-1 text-xs text-amber-700 hover:underline"
+            title="Let email alerts update this field again"
+          >
+            <RotateCcw className="size-3" />
+            Edited
+          </button>
+        )}
+      </div>
+      {children}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { MapContainer, TileLayer, CircleMarker, Marker, Popup, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import { Link } from "react-router";
+import "leaflet/dist/leaflet.css";
+import { getSourceHex } from "@/lib/sources";
+import { MAP_TILE_URL, MAP_TILE_ATTRIBUTION } from "@/lib/config";
+
+interface MapListing {
+  id: string;
+  source: string;
+  url: string | null;
+  price: string | number;
+  images: string[];
+}
+
+interface MapProperty {
+  id: string;
+  street: string;
+  city: string;
+  state: string;
+  zip?: string | null;
+  price: string | number;
+  beds?: number | null;
+  baths?: string | number | null;
+  sqft?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  listings: MapListing[];
+}
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+interface PropertyMapProps {
+  properties: MapProperty[];
+  zipCentroids: Record<string, LatLng>;
+  onBoundsChange: (bounds: MapBounds) => void;
+}
+
+// Markers within this many pixels of each other merge into a cluster
+const CLUSTER_CELL_PX = 60;
+// From this zoom on every property gets its own marker
+const CLUSTER_MAX_ZOOM = 14;
+// Roughly the continental US, used until there is something to fit
+const DEFAULT_CENTER: [number, number] = [39.5, -98.35];
+
+/**
+ * Where to plot a property: its own coordinates, else its ZIP centroid
+ */
+export function getPropertyPosition(
+  property: Pick<MapProperty, "latitude" | "longitude" | "zip">,
+  zipCentroids: Record<string, LatLng>
+): LatLng | null {
+  if (property.latitude != null && property.longitude != null) {
+    return { latitude: property.latitude, longitude: property.longitude };
+  }
+  return (property.zip && zipCentroids[property.zip.slice(0, 5)]) || null;
+}
+
+export function isInBounds(position: LatLng, bounds: MapBounds): boolean {
+  return (
+    position.latitude <= bounds.north &&
+    position.latitude >= bounds.south &&
+    position.longitude <= bounds.east &&
+    position.longitude >= bounds.west
+  );
+}
+
+export function PropertyMap({ properties, zipCentroids, onBoundsChange }: PropertyMapProps) {
+  const positioned = useMemo(
+    () =>
+      properties.flatMap((property) => {
+        const position = getPropertyPosition(property, zipCentroids);
+        return position ? [{ property, position }] : [];
+      }),
+    [properties, zipCentroids]
+  );
+
+  return (
+    <div className="relative">
+      <MapContainer
+        center={DEFAULT_CENTER}
+        zoom={4}
+        className="h-[500px] w-full rounded-lg border z-0"
+      >
+        <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+        <FitToProperties points={positioned.map((p) => p.position)} />
+        <BoundsWatcher onBoundsChange={onBoundsChange} />
+        <ClusteredMarkers points={positioned} />
+      </MapContainer>
+      {positioned.length < properties.length && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {properties.length - positioned.length} properties have no location and aren't shown on the map
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface PlottedProperty {
+  property: MapProperty;
+  position: LatLng;
+}
+
+interface Cluster {
+  key: string;
+  center: LatLng;
+  points: PlottedProperty[];
+}
+
+/**
+ * Group points by screen-space grid cell at the current zoom
+ */
+function clusterPoints(map: L.Map, points: PlottedProperty[]): Cluster[] {
+  const zoom = map.getZoom();
+  const cells = new Map<string, PlottedProperty[]>();
+
+  for (const point of points) {
+    const pixel = map.project([point.position.latitude, point.position.longitude], zoom);
+    const key =
+      zoom >= CLUSTER_MAX_ZOOM
+        ? point.property.id
+        : `${Math.floor(pixel.x / CLUSTER_CELL_PX)}:${Math.floor(pixel.y / CLUSTER_CELL_PX)}`;
+    cells.set(key, [...(cells.get(key) ?? []), point]);
+  }
+
+  return [...cells.entries()].map(([key, members]) => ({
+    key,
+    points: members,
+    center: {
+      latitude: members.reduce((sum, m) => sum + m.position.latitude, 0) / members.length,
+      longitude: members.reduce((sum, m) => sum + m.position.longitude, 0) / members.length,
+    },
+  }));
+}
+
+function ClusteredMarkers({ points }: { points: PlottedProperty[] }) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  const clusters = useMemo(() => clusterPoints(map, points), [map, points, zoom]);
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.points.length === 1 ? (
+          <PropertyMarker key={cluster.key} point={cluster.points[0]!} />
+        ) : (
+          <Marker
+            key={cluster.key}
+            position={[cluster.center.latitude, cluster.center.longitude]}
+            icon={clusterIcon(cluster.points.length)}
+            eventHandlers={{
+              click: () =>
+                map.fitBounds(
+                  L.latLngBounds(
+                    cluster.points.map((p) => [p.position.latitude, p.position.longitude])
+                  ),
+                  { padding: [40, 40] }
+                ),
+            }}
+          />
+        )
+      )}
+    </>
+  );
+}
+
+function clusterIcon(count: number) {
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full bg-primary text-primary-foreground text-center text-sm font-semibold shadow ring-4 ring-white/70">${count}</div>`,
+    className: "",
+    iconSize: [size, size],
+  });
+}
+
+function PropertyMarker({ point }: { point: PlottedProperty }) {
+  const { property, position } = point;
+  // Color by the cheapest listing's source, as the card badge order does
+  const source = property.listings[0]?.source ?? "unknown";
+
+  return (
+    <CircleMarker
+      center={[position.latitude, position.longitude]}
+      radius={8}
+      pathOptions={{
+        color: "#ffffff",
+        weight: 2,
+        fillColor: getSourceHex(source),
+        fillOpacity: 0.9,
+      }}
+    >
+      <Popup>
+        <MiniCard property={property} />
+      </Popup>
+    </CircleMarker>
+  );
+}
+
+function MiniCard({ property }: { property: MapProperty }) {
+  const image = property.listings.find((listing) => listing.images.length > 0)?.images[0];
+
+  return (
+    <div className="w-52 space-y-1">
+      {image && (
+        <img src={image} alt={property.street} className="w-full h-24 object-cover rounded" />
+      )}
+      <div className="text-base font-bold">{formatPrice(property.price)}</div>
+      <Link to={`/properties/${property.id}`} className="block text-xs hover:underline">
+        {property.street}
+        <br />
+        {property.city}, {property.state}
+      </Link>
+      <div className="flex gap-2 text-xs text-gray-500">
+        {property.beds && <span>{property.beds} bd</span>}
+        {property.baths && <span>{property.baths} ba</span>}
+        {property.sqft && <span>{property.sqft.toLocaleString()} sqft</span>}
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {property.listings.map((listing) => (
+          <a
+            key={listing.id}
+            href={listing.url || undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="capitalize"
+            style={{ color: getSourceHex(listing.source) }}
+          >
+            {listing.source} {formatPrice(listing.price)}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Zoom to the plotted properties the first time there are any
+ */
+function FitToProperties({ points }: { points: LatLng[] }) {
+  const map = useMap();
+  const fitted = useRef(false);
+
+  useEffect(() => {
+    if (fitted.current || points.length === 0) return;
+    fitted.current = true;
+    map.fitBounds(
+      L.latLngBounds(points.map((p) => [p.latitude, p.longitude])),
+      { padding: [40, 40], maxZoom: 13 }
+    );
+  }, [map, points]);
+
+  return null;
+}
+
+function BoundsWatcher({ onBoundsChange }: { onBoundsChange: (bounds: MapBounds) => void }) {
+  const map = useMap();
+
+  const report = () => {
+    const bounds = map.getBounds();
+    onBoundsChange({
+      north: bounds.getNorth(),
+      south: bounds.getSouth(),
+      east: bounds.getEast(),
+      west: bounds.getWest(),
+    });
+  };
+
+  useMapEvents({ moveend: report });
+  useEffect(report, [map]);
+
+  return null;
+}
+
+function formatPrice(price: string | number) {
+  const numPrice = typeof price === "string" ? parseFloat(price) : price;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(numPrice);
+}
@@ -1,7 +1,85 @@
 import { serve } from "bun";
 import index from "./index.html";
-import { PrismaClient } from "../generated/prisma";
-import { setupEmailCron, getImapConfigFromEnv } from "./services/email";
+import { PrismaClient, EmailParseStatus } from "../generated/prisma";
+import {
+  setupEmailCron,
+  setupStaleListingCron,
+  getImapConfigFromEnv,
+  reprocessEmail,
+  reprocessEmails,
+  runIngestion,
+  withDaysOnMarket,
+} from "./services/email";
+import {
+  analyzeRental,
+  parseAssumptionOverrides,
+  parseDefaultAssumptions,
+  getSavedAssumptions,
+  saveAssumptions,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  parseProjectionParams,
+  projectRental,
+  REHAB_TEMPLATES,
+  parseFlipScenarioInput,
+  listFlipScenarios,
+  createFlipScenario,
+  updateFlipScenario,
+  deleteFlipScenario,
+} from "./services/analysis";
+import {
+  validateSignup,
+  isSignupAllowed,
+  signup,
+  login,
+  listUsers,
+  createSession,
+  deleteSession,
+  getCurrentUser,
+  requireAuth,
+  setSessionCookie,
+  clearSessionCookie,
+  SESSION_COOKIE,
+} from "./services/auth";
+import { lookupZipCentroid } from "./services/geocoding";
+import {
+  parsePropertyQuery,
+  searchProperties,
+  searchMapProperties,
+  exportProperties,
+  parsePropertyInput,
+  createProperty,
+  updateProperty,
+  deleteProperty,
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  type ExportFormat,
+} from "./services/properties";
+import { parseImportInput, previewImport, runImport } from "./services/imports";
+import {
+  listDeals,
+  getDeal,
+  createDeal,
+  updateDeal,
+  deleteDeal,
+  addDealNote,
+  deleteDealNote,
+  addDealTask,
+  updateDealTask,
+  deleteDealTask,
+  validateDealInput,
+  validateDealUpdate,
+  validateNoteInput,
+  validateTaskInput,
+} from "./services/deals";
+import {
+  listLoanProducts,
+  getLoanProduct,
+  createLoanProduct,
+  updateLoanProduct,
+  deleteLoanProduct,
+  compareLoanProducts,
+  parseLoanProductInput,
+} from "./services/financing";
 
 const prisma = new PrismaClient();
 
@@ -23,65 +101,1229 @@ if (process.env.IMAP_USER && process.env.IMAP_PASSWORD) {
   console.log("⚠️  IMAP credentials not configured - email cron job disabled");
 }
 
+// Expire listings that stop showing up in alerts (STALE_LISTING_DAYS, default 45)
+setupStaleListingCron();
+
 const server = serve({
   idleTimeout: 255,
 
-  routes: {
-    // Serve index.html for all unmatched routes.
-    "/*": index,
+  routes: {
+    // Serve index.html for all unmatched routes.
+    "/*": index,
+
+    // Create an account and start a session
+    // Open to SIGNUP_ALLOWLIST emails/domains, or only the first user without one
+    "/api/auth/signup": {
+      async POST(req) {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = validateSignup(body);
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid signup", details: errors },
+              { status: 400 }
+            );
+          }
+
+          if (!(await isSignupAllowed(input.email))) {
+            return Response.json(
+              { error: "Signups aren't open to this email address" },
+              { status: 403 }
+            );
+          }
+
+          const user = await signup(input);
+          if (!user) {
+            return Response.json(
+              { error: "An account with that email already exists" },
+              { status: 409 }
+            );
+          }
+
+          const session = await createSession(user.id);
+          setSessionCookie(req, session.token, session.expiresAt);
+
+          return Response.json(user, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to create account" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Log in with email and password
+    "/api/auth/login": {
+      async POST(req) {
+        try {
+          const body = await req.json().catch(() => null);
+          const email = typeof body?.email === "string" ? body.email : "";
+          const password = typeof body?.password === "string" ? body.password : "";
+
+          if (!email || !password) {
+            return Response.json(
+              { error: "email and password are required" },
+              { status: 400 }
+            );
+          }
+
+          const user = await login(email, password);
+          if (!user) {
+            return Response.json(
+              { error: "Invalid email or password" },
+              { status: 401 }
+            );
+          }
+
+          const session = await createSession(user.id);
+          setSessionCookie(req, session.token, session.expiresAt);
+
+          return Response.json(user);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to log in" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // End the current session
+    "/api/auth/logout": {
+      async POST(req) {
+        try {
+          const token = req.cookies.get(SESSION_COOKIE);
+          if (token) await deleteSession(token);
+          clearSessionCookie(req);
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to log out" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Get the logged-in user
+    "/api/auth/me": {
+      async GET(req) {
+        try {
+          const user = await getCurrentUser(req);
+          if (!user) {
+            return Response.json({ error: "Not logged in" }, { status: 401 });
+          }
+
+          return Response.json(user);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch current user" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Search properties, one page at a time
+    // Filters: city, state, source, type, status (comma-separated), min/max price, beds,
+    // baths, sqft and daysOnMarket, firstSeen/lastSeen After/Before dates, near=lat,lng&radiusMiles=
+    // Sorting: sortBy=createdAt|price|pricePerSqft|priceDrop|beds|sqft|firstSeenAt|distance&order=asc|desc
+    // Paging: limit= (default 50, max 200) and cursor= from the previous page's nextCursor
+    "/api/properties": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const { query, errors } = parsePropertyQuery(url.searchParams);
+
+          if (!query) {
+            return Response.json(
+              { error: "Invalid query parameters", details: errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(await searchProperties(query));
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch properties" },
+            { status: 500 }
+          );
+        }
+      },
+      // Add a property by hand, e.g. a deal that never came through an alert
+      // Body: street, city, state, price (required), zip, status, propertyType,
+      // beds, baths, sqft, lotSize, notes
+      POST: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parsePropertyInput(body, "create");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid property", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await createProperty(input);
+          if ("duplicateId" in result) {
+            return Response.json(
+              { error: "A property with that address already exists", propertyId: result.duplicateId },
+              { status: 409 }
+            );
+          }
+
+          return Response.json(result.property, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to create property" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Download every property matching the /api/properties filters as a spreadsheet
+    // ?format=csv|xlsx (default csv); sortBy/order apply, cursor/limit are ignored
+    "/api/properties/export": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const { query, errors } = parsePropertyQuery(url.searchParams);
+          const format = (url.searchParams.get("format") || "csv").toLowerCase();
+
+          if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+            errors.push({ field: "format", message: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+          }
+
+          if (!query || errors.length > 0) {
+            return Response.json(
+              { error: "Invalid query parameters", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const filename = `properties-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+          return new Response(
+            exportProperties(query, format as ExportFormat, url.origin),
+            {
+              headers: {
+                "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+                "Content-Disposition": `attachment; filename="${filename}"`,
+              },
+            }
+          );
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to export properties" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Every property matching the filters, for the map
+    // Same query parameters as /api/properties; cursor and limit are ignored
+    "/api/properties/map": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const { query, errors } = parsePropertyQuery(url.searchParams);
+
+          if (!query) {
+            return Response.json(
+              { error: "Invalid query parameters", details: errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(await searchMapProperties(query));
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch properties" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Validate a CSV of off-market/wholesaler deals without saving anything
+    // Body: { csv, mapping?: { field: "Column header" }, source?: "label" }
+    // Without a mapping, columns are matched by common header names.
+    // Sheet-level problems (e.g. unmapped required fields) come back in `errors`
+    "/api/properties/import/preview": {
+      POST: requireAuth(async (req) => {
+        try {
+          const { input, errors } = parseImportInput(await req.json().catch(() => null));
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid import", details: errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(await previewImport(input));
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to preview import" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Import a CSV's valid rows as listings under the source label (default "import")
+    // Same body as the preview; rows with validation errors are skipped
+    "/api/properties/import": {
+      POST: requireAuth(async (req) => {
+        try {
+          const { input, errors } = parseImportInput(await req.json().catch(() => null));
+          const { result, errors: sheetErrors } = input
+            ? await runImport(input)
+            : { result: undefined, errors };
+
+          if (!result) {
+            return Response.json(
+              { error: "Invalid import", details: sheetErrors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result);
+        } catch (error) {
+          console.error("❌ Property import failed:", error);
+          return Response.json(
+            { error: "Failed to import properties" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Get single property by ID
+    "/api/properties/:id": {
+      async GET(req) {
+        try {
+          const property = await prisma.property.findUnique({
+            where: { id: req.params.id },
+            include: {
+              listings: {
+                orderBy: { price: "asc" },
+                include: {
+                  // The full history feeds the detail page's price chart
+                  priceHistory: {
+                    orderBy: { changeDate: "desc" },
+                  },
+                  statusHistory: {
+                    orderBy: { changeDate: "asc" },
+                  },
+                },
+              },
+              deal: { select: { id: true, stage: true } },
+            },
+          });
+
+          if (!property) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          // Every listing's status changes in one timeline, oldest first
+          const statusTimeline = property.listings
+            .flatMap((listing) =>
+              listing.statusHistory.map((entry) => ({ ...entry, source: listing.source }))
+            )
+            .sort((a, b) => a.changeDate.getTime() - b.changeDate.getTime());
+
+          return Response.json({ ...withDaysOnMarket(property), statusTimeline });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch property" },
+            { status: 500 }
+          );
+        }
+      },
+      // Correct a property by hand; edited fields stop being updated by email ingest
+      // Body: any POST field (null clears an optional one), resetFields: [...] to undo overrides
+      PATCH: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parsePropertyInput(body, "update");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid property", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await updateProperty(req.params.id, input);
+          if (!result) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+          if ("duplicateId" in result) {
+            return Response.json(
+              { error: "A property with that address already exists", propertyId: result.duplicateId },
+              { status: 409 }
+            );
+          }
+
+          return Response.json(result.property);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to update property" },
+            { status: 500 }
+          );
+        }
+      }),
+      // Delete a property along with its listings, their history and favorites
+      DELETE: requireAuth(async (req) => {
+        try {
+          if (!(await deleteProperty(req.params.id))) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to delete property" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Run a rental analysis for a property
+    // Query params (e.g. ?downPaymentPercent=0.2&monthlyRent=1800) override the saved defaults
+    "/api/properties/:id/analysis": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const { overrides, errors } = parseAssumptionOverrides(url.searchParams);
+
+          if (errors.length > 0) {
+            return Response.json(
+              { error: "Invalid assumptions", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const property = await prisma.property.findUnique({
+            where: { id: req.params.id },
+          });
+
+          if (!property) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          if (property.propertyType === "LAND") {
+            return Response.json(
+              { error: "Rental analysis is not supported for land" },
+              { status: 422 }
+            );
+          }
+
+          if (!property.price.greaterThan(0)) {
+            return Response.json(
+              { error: "Property needs a price above zero to analyze" },
+              { status: 422 }
+            );
+          }
+
+          const assumptions = { ...(await getSavedAssumptions()), ...overrides };
+          const analysis = analyzeRental(
+            {
+              price: property.price.toNumber(),
+              beds: property.beds,
+              baths: property.baths?.toNumber() ?? null,
+              sqft: property.sqft,
+              propertyType: property.propertyType,
+            },
+            assumptions
+          );
+
+          return Response.json({ propertyId: property.id, ...analysis });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to analyze property" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Year-by-year pro forma for holding a property, ending in a hypothetical sale
+    // Takes the rental analysis params plus years (10-30), rentGrowthRate, expenseInflationRate,
+    // appreciationRate and sellingCostPercent. mode=brrrr adds a rehab and cash-out refinance:
+    // arv (required), rehabCost, refinanceMonths, refinanceLtv, refinanceRate,
+    // refinanceTermYears, refinanceClosingCostPercent
+    "/api/properties/:id/projection": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const rental = parseAssumptionOverrides(url.searchParams);
+          const { projection, brrrr, errors } = parseProjectionParams(url.searchParams);
+
+          if (rental.errors.length > 0 || errors.length > 0) {
+            return Response.json(
+              { error: "Invalid assumptions", details: [...rental.errors, ...errors] },
+              { status: 400 }
+            );
+          }
+
+          const property = await prisma.property.findUnique({
+            where: { id: req.params.id },
+          });
+
+          if (!property) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          if (property.propertyType === "LAND") {
+            return Response.json(
+              { error: "Rental projection is not supported for land" },
+              { status: 422 }
+            );
+          }
+
+          if (!property.price.greaterThan(0)) {
+            return Response.json(
+              { error: "Property needs a price above zero to analyze" },
+              { status: 422 }
+            );
+          }
+
+          const result = projectRental(
+            {
+              price: property.price.toNumber(),
+              beds: property.beds,
+              baths: property.baths?.toNumber() ?? null,
+              sqft: property.sqft,
+              propertyType: property.propertyType,
+            },
+            { ...(await getSavedAssumptions()), ...rental.overrides },
+            { ...DEFAULT_PROJECTION_ASSUMPTIONS, ...projection },
+            brrrr
+          );
+
+          return Response.json({ propertyId: property.id, ...result });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to project property" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Compare financing a property with several loan products side by side
+    // ?products=id1,id2 picks the products (default: all of them); downPaymentPercent asks for
+    // more down than a product's max LTV requires. Other rental analysis params set the income
+    "/api/properties/:id/financing": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const { overrides, errors } = parseAssumptionOverrides(url.searchParams);
+
+          if (errors.length > 0) {
+            return Response.json(
+              { error: "Invalid assumptions", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const property = await prisma.property.findUnique({
+            where: { id: req.params.id },
+          });
+
+          if (!property) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          if (property.propertyType === "LAND") {
+            return Response.json(
+              { error: "Rental analysis is not supported for land" },
+              { status: 422 }
+            );
+          }
+
+          if (!property.price.greaterThan(0)) {
+            return Response.json(
+              { error: "Property needs a price above zero to analyze" },
+              { status: 422 }
+            );
+          }
+
+          const productIds = url.searchParams
+            .get("products")
+            ?.split(",")
+            .map((id) => id.trim())
+            .filter(Boolean);
+
+          const result = await compareLoanProducts(
+            {
+              price: property.price.toNumber(),
+              beds: property.beds,
+              baths: property.baths?.toNumber() ?? null,
+              sqft: property.sqft,
+              propertyType: property.propertyType,
+            },
+            productIds?.length ? productIds : undefined,
+            { ...(await getSavedAssumptions()), ...overrides },
+            overrides.downPaymentPercent
+          );
+
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid products", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json({
+            propertyId: property.id,
+            purchasePrice: property.price.toNumber(),
+            results: result.results,
+          });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to compare financing" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Saved default assumptions for rental analysis
+    "/api/analysis/defaults": {
+      async GET(req) {
+        try {
+          return Response.json(await getSavedAssumptions());
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch analysis defaults" },
+            { status: 500 }
+          );
+        }
+      },
+      PUT: requireAuth(async (req, user) => {
+        try {
+          const body = await req.json().catch(() => null);
+          if (!body || typeof body !== "object") {
+            return Response.json(
+              { error: "Request body must be a JSON object" },
+              { status: 400 }
+            );
+          }
+
+          const { overrides, errors } = parseDefaultAssumptions(body);
+          if (errors.length > 0) {
+            return Response.json(
+              { error: "Invalid assumptions", details: errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(await saveAssumptions(overrides));
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to save analysis defaults" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Rehab budget templates for seeding a flip scenario's line items
+    "/api/analysis/rehab-templates": {
+      GET() {
+        return Response.json(REHAB_TEMPLATES);
+      },
+    },
+
+    // Saved fix-and-flip scenarios for a property, each with its analysis
+    "/api/properties/:id/flips": {
+      async GET(req) {
+        try {
+          const scenarios = await listFlipScenarios(req.params.id);
+          if (!scenarios) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(scenarios);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch flip scenarios" },
+            { status: 500 }
+          );
+        }
+      },
+      POST: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parseFlipScenarioInput(body, "create");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid flip scenario", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const scenario = await createFlipScenario(req.params.id, input);
+          if (!scenario) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(scenario, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to save flip scenario" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    "/api/properties/:id/flips/:scenarioId": {
+      PATCH: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parseFlipScenarioInput(body, "update");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid flip scenario", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const scenario = await updateFlipScenario(req.params.id, req.params.scenarioId, input);
+          if (!scenario) {
+            return Response.json(
+              { error: "Flip scenario not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(scenario);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to update flip scenario" },
+            { status: 500 }
+          );
+        }
+      }),
+      DELETE: requireAuth(async (req) => {
+        try {
+          const deleted = await deleteFlipScenario(req.params.id, req.params.scenarioId);
+          if (!deleted) {
+            return Response.json(
+              { error: "Flip scenario not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to delete flip scenario" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Loan products deals can be run through
+    // Body: name, type (CONVENTIONAL, FHA, DSCR, HARD_MONEY, SELLER_FINANCE), interestRate,
+    // termYears, maxLtv (required), points, interestOnlyMonths, balloonMonths, pmiRate,
+    // pmiLtvThreshold, closingCostPercent, minDscr, notes
+    "/api/loan-products": {
+      async GET(req) {
+        try {
+          return Response.json(await listLoanProducts());
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch loan products" },
+            { status: 500 }
+          );
+        }
+      },
+      POST: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parseLoanProductInput(body, "create");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid loan product", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await createLoanProduct(input);
+          if ("duplicateId" in result) {
+            return Response.json(
+              { error: "A loan product with that name already exists", loanProductId: result.duplicateId },
+              { status: 409 }
+            );
+          }
+
+          return Response.json(result.product, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to create loan product" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    "/api/loan-products/:id": {
+      async GET(req) {
+        try {
+          const product = await getLoanProduct(req.params.id);
+          if (!product) {
+            return Response.json(
+              { error: "Loan product not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(product);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch loan product" },
+            { status: 500 }
+          );
+        }
+      },
+      PATCH: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = parseLoanProductInput(body, "update");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid loan product", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await updateLoanProduct(req.params.id, input);
+          if (!result) {
+            return Response.json(
+              { error: "Loan product not found" },
+              { status: 404 }
+            );
+          }
+          if ("duplicateId" in result) {
+            return Response.json(
+              { error: "A loan product with that name already exists", loanProductId: result.duplicateId },
+              { status: 409 }
+            );
+          }
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid loan product", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result.product);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to update loan product" },
+            { status: 500 }
+          );
+        }
+      }),
+      DELETE: requireAuth(async (req) => {
+        try {
+          const deleted = await deleteLoanProduct(req.params.id);
+          if (!deleted) {
+            return Response.json(
+              { error: "Loan product not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to delete loan product" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Everyone who can be assigned deals and tasks
+    "/api/users": {
+      GET: requireAuth(async () => {
+        try {
+          return Response.json(await listUsers());
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch users" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Deal pipeline board: every deal with its property, assignee and next open task
+    // ?assigneeId= narrows to one user's deals
+    "/api/deals": {
+      GET: requireAuth(async (req) => {
+        try {
+          const url = new URL(req.url);
+          const assigneeId = url.searchParams.get("assigneeId") || undefined;
+          return Response.json(await listDeals({ assigneeId }));
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch deals" },
+            { status: 500 }
+          );
+        }
+      }),
+      // Start tracking a property. Body: { propertyId, stage?, assigneeId? }
+      POST: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = validateDealInput(body);
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid deal", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await createDeal(input);
+          if (!result) {
+            return Response.json(
+              { error: "Property not found" },
+              { status: 404 }
+            );
+          }
+          if ("duplicateId" in result) {
+            return Response.json(
+              { error: "This property already has a deal", dealId: result.duplicateId },
+              { status: 409 }
+            );
+          }
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid deal", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result.deal, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to create deal" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // One deal with its notes and tasks
+    "/api/deals/:id": {
+      GET: requireAuth(async (req) => {
+        try {
+          const deal = await getDeal(req.params.id);
+          if (!deal) {
+            return Response.json(
+              { error: "Deal not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(deal);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch deal" },
+            { status: 500 }
+          );
+        }
+      }),
+      // Move between stages or reassign. Body: { stage?, assigneeId? (null unassigns) }
+      PATCH: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = validateDealUpdate(body);
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid deal", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await updateDeal(req.params.id, input);
+          if (!result) {
+            return Response.json(
+              { error: "Deal not found" },
+              { status: 404 }
+            );
+          }
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid deal", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result.deal);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to update deal" },
+            { status: 500 }
+          );
+        }
+      }),
+      DELETE: requireAuth(async (req) => {
+        try {
+          if (!(await deleteDeal(req.params.id))) {
+            return Response.json(
+              { error: "Deal not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to delete deal" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
 
-    // Get all properties with optional filters
-    "/api/properties": {
-      async GET(req) {
+    // Add a note to a deal, by the current user. Body: { body }
+    "/api/deals/:id/notes": {
+      POST: requireAuth(async (req, user) => {
         try {
-          const url = new URL(req.url);
-          const city = url.searchParams.get("city");
-          const state = url.searchParams.get("state");
-          const source = url.searchParams.get("source");
-          const minPrice = url.searchParams.get("minPrice");
-          const maxPrice = url.searchParams.get("maxPrice");
-          const propertyType = url.searchParams.get("type");
+          const body = await req.json().catch(() => null);
+          const { text, errors } = validateNoteInput(body);
 
-          const where: any = {};
+          if (!text) {
+            return Response.json(
+              { error: "Invalid note", details: errors },
+              { status: 400 }
+            );
+          }
 
-          if (city) where.city = { contains: city, mode: "insensitive" };
-          if (state) where.state = state.toUpperCase();
-          if (source) where.source = source;
-          if (propertyType) where.propertyType = propertyType.toUpperCase();
-          if (minPrice || maxPrice) {
-            where.price = {};
-            if (minPrice) where.price.gte = parseFloat(minPrice);
-            if (maxPrice) where.price.lte = parseFloat(maxPrice);
+          const note = await addDealNote(req.params.id, user.id, text);
+          if (!note) {
+            return Response.json(
+              { error: "Deal not found" },
+              { status: 404 }
+            );
           }
 
-          const properties = await prisma.property.findMany({
-            where,
-            orderBy: { createdAt: "desc" },
-            take: 500, // Increased limit
-          });
+          return Response.json(note, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to add note" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    "/api/deals/:id/notes/:noteId": {
+      DELETE: requireAuth(async (req) => {
+        try {
+          if (!(await deleteDealNote(req.params.id, req.params.noteId))) {
+            return Response.json(
+              { error: "Note not found" },
+              { status: 404 }
+            );
+          }
 
-          return Response.json(properties);
+          return Response.json({ success: true });
         } catch (error) {
           return Response.json(
-            { error: "Failed to fetch properties" },
+            { error: "Failed to delete note" },
             { status: 500 }
           );
         }
-      },
+      }),
     },
 
-    // Get single property by ID
-    "/api/properties/:id": {
+    // Add a task to a deal. Body: { title, dueAt, assigneeId? }
+    "/api/deals/:id/tasks": {
+      POST: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = validateTaskInput(body, "create");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid task", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await addDealTask(req.params.id, input);
+          if (!result) {
+            return Response.json(
+              { error: "Deal not found" },
+              { status: 404 }
+            );
+          }
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid task", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result.task, { status: 201 });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to add task" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Edit, complete ({ completed: true }) or delete a task
+    "/api/deals/:id/tasks/:taskId": {
+      PATCH: requireAuth(async (req) => {
+        try {
+          const body = await req.json().catch(() => null);
+          const { input, errors } = validateTaskInput(body, "update");
+
+          if (!input) {
+            return Response.json(
+              { error: "Invalid task", details: errors },
+              { status: 400 }
+            );
+          }
+
+          const result = await updateDealTask(req.params.id, req.params.taskId, input);
+          if (!result) {
+            return Response.json(
+              { error: "Task not found" },
+              { status: 404 }
+            );
+          }
+          if ("errors" in result) {
+            return Response.json(
+              { error: "Invalid task", details: result.errors },
+              { status: 400 }
+            );
+          }
+
+          return Response.json(result.task);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to update task" },
+            { status: 500 }
+          );
+        }
+      }),
+      DELETE: requireAuth(async (req) => {
+        try {
+          if (!(await deleteDealTask(req.params.id, req.params.taskId))) {
+            return Response.json(
+              { error: "Task not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to delete task" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // List, add and remove a user's favorite properties
+    "/api/users/:id/favorites": {
       async GET(req) {
         try {
-          const property = await prisma.property.findUnique({
+          const user = await prisma.user.findUnique({
             where: { id: req.params.id },
-            include: {
-              priceHistory: {
-                orderBy: { changeDate: "desc" },
-                take: 10,
-              },
-            },
+          });
+
+          if (!user) {
+            return Response.json({ error: "User not found" }, { status: 404 });
+          }
+
+          const favorites = await prisma.favorite.findMany({
+            where: { userId: user.id },
+            include: { property: { include: { listings: true } } },
+            orderBy: { createdAt: "desc" },
+          });
+
+          return Response.json(favorites);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch favorites" },
+            { status: 500 }
+          );
+        }
+      },
+      POST: requireAuth(async (req, user) => {
+        try {
+          if (req.params.id !== user.id) {
+            return Response.json(
+              { error: "Cannot modify another user's favorites" },
+              { status: 403 }
+            );
+          }
+
+          const body = await req.json().catch(() => null);
+          const propertyId = body?.propertyId;
+
+          if (typeof propertyId !== "string" || !propertyId) {
+            return Response.json(
+              { error: "propertyId is required" },
+              { status: 400 }
+            );
+          }
+
+          const property = await prisma.property.findUnique({
+            where: { id: propertyId },
           });
 
           if (!property) {
@@ -91,10 +1333,88 @@ const server = serve({
             );
           }
 
-          return Response.json(property);
+          // Favoriting twice is a no-op thanks to the [userId, propertyId] constraint
+          const favorite = await prisma.favorite.upsert({
+            where: {
+              userId_propertyId: { userId: user.id, propertyId: property.id },
+            },
+            create: { userId: user.id, propertyId: property.id },
+            update: {},
+            include: { property: { include: { listings: true } } },
+          });
+
+          return Response.json(favorite, { status: 201 });
         } catch (error) {
           return Response.json(
-            { error: "Failed to fetch property" },
+            { error: "Failed to add favorite" },
+            { status: 500 }
+          );
+        }
+      }),
+      DELETE: requireAuth(async (req, user) => {
+        try {
+          if (req.params.id !== user.id) {
+            return Response.json(
+              { error: "Cannot modify another user's favorites" },
+              { status: 403 }
+            );
+          }
+
+          // Accept propertyId as a query param or in a JSON body
+          const url = new URL(req.url);
+          const body = await req.json().catch(() => null);
+          const propertyId = url.searchParams.get("propertyId") ?? body?.propertyId;
+
+          if (typeof propertyId !== "string" || !propertyId) {
+            return Response.json(
+              { error: "propertyId is required" },
+              { status: 400 }
+            );
+          }
+
+          const { count } = await prisma.favorite.deleteMany({
+            where: { userId: user.id, propertyId },
+          });
+
+          if (count === 0) {
+            return Response.json(
+              { error: "Favorite not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json({ success: true });
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to remove favorite" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // ZIP centroids from the offline dataset, for placing properties without coordinates
+    // Query: ?zips=29650,29651
+    "/api/geocoding/zips": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const zips = (url.searchParams.get("zips") ?? "")
+            .split(",")
+            .map((zip) => zip.trim())
+            .filter(Boolean);
+
+          const centroids = Object.fromEntries(
+            zips.flatMap((zip) => {
+              const centroid = lookupZipCentroid(zip);
+              return centroid ? [[zip, centroid]] : [];
+            })
+          );
+
+          return Response.json(centroids);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to look up ZIP centroids" },
             { status: 500 }
           );
         }
@@ -116,7 +1436,7 @@ const server = serve({
               orderBy: { _count: { city: "desc" } },
               take: 10,
             }),
-            prisma.property.groupBy({
+            prisma.listing.groupBy({
               by: ["source"],
               _count: true,
             }),
@@ -139,7 +1459,7 @@ const server = serve({
 
     // Manually trigger email processing
     "/api/process-emails": {
-      async POST(req) {
+      POST: requireAuth(async (req, user) => {
         try {
           if (!process.env.IMAP_USER || !process.env.IMAP_PASSWORD) {
             return Response.json(
@@ -149,15 +1469,31 @@ const server = serve({
           }
 
           const imapConfig = getImapConfigFromEnv();
-          const { processPropertyEmails } = await import("./services/email");
+          const result = await runIngestion(imapConfig, "MANUAL");
+
+          if ("runningId" in result) {
+            return Response.json(
+              { error: "Email processing is already running", runId: result.runningId },
+              { status: 409 }
+            );
+          }
+
+          const { run } = result;
 
-          const result = await processPropertyEmails(imapConfig);
+          // The mailbox couldn't be read at all
+          if (run.status === "FAILED") {
+            return Response.json(
+              { success: false, error: "Failed to process emails", runId: run.id, errors: run.errors },
+              { status: 502 }
+            );
+          }
 
           return Response.json({
             success: true,
-            created: result.created,
-            updated: result.updated,
-            errors: result.errors,
+            runId: run.id,
+            created: run.propertiesCreated,
+            updated: run.propertiesUpdated,
+            errors: run.errors,
           });
         } catch (error) {
           return Response.json(
@@ -165,9 +1501,155 @@ const server = serve({
             { status: 500 }
           );
         }
+      }),
+    },
+
+    // List recent ingestion runs, newest first
+    "/api/ingestion-runs": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const limit = Math.min(
+            Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1),
+            200
+          );
+
+          const runs = await prisma.ingestionRun.findMany({
+            orderBy: { startedAt: "desc" },
+            take: limit,
+          });
+
+          return Response.json(runs);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch ingestion runs" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Get a single ingestion run with its full error list
+    "/api/ingestion-runs/:id": {
+      async GET(req) {
+        try {
+          const run = await prisma.ingestionRun.findUnique({
+            where: { id: req.params.id },
+          });
+
+          if (!run) {
+            return Response.json(
+              { error: "Ingestion run not found" },
+              { status: 404 }
+            );
+          }
+
+          return Response.json(run);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch ingestion run" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // List stored alert emails (without their raw bodies)
+    "/api/emails": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const source = url.searchParams.get("source");
+          const status = url.searchParams.get("status")?.toUpperCase();
+
+          if (status && !(status in EmailParseStatus)) {
+            return Response.json(
+              { error: `Invalid status: ${status}` },
+              { status: 400 }
+            );
+          }
+
+          const emails = await prisma.emailMessage.findMany({
+            where: {
+              source: source || undefined,
+              parseStatus: status ? (status as EmailParseStatus) : undefined,
+            },
+            select: {
+              id: true,
+              messageId: true,
+              from: true,
+              subject: true,
+              receivedAt: true,
+              source: true,
+              parseStatus: true,
+              parseErrors: true,
+              parsedAt: true,
+              _count: { select: { listings: true } },
+            },
+            orderBy: { receivedAt: "desc" },
+            take: 200,
+          });
+
+          return Response.json(emails);
+        } catch (error) {
+          return Response.json(
+            { error: "Failed to fetch emails" },
+            { status: 500 }
+          );
+        }
       },
     },
 
+    // Re-run parsing for every stored email from a source since a date
+    // Body: { "source": "zillow", "since": "2025-11-01" }
+    "/api/emails/reprocess": {
+      POST: requireAuth(async (req, user) => {
+        try {
+          const body = await req.json().catch(() => ({}));
+          const source = typeof body?.source === "string" ? body.source : undefined;
+          const since = body?.since ? new Date(body.since) : undefined;
+
+          if (since && isNaN(since.getTime())) {
+            return Response.json(
+              { error: "since must be a valid date" },
+              { status: 400 }
+            );
+          }
+
+          const result = await reprocessEmails({ source, since });
+
+          return Response.json({ success: true, ...result });
+        } catch (error) {
+          console.error("❌ Email reprocessing failed:", error);
+          return Response.json(
+            { error: "Failed to reprocess emails" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
+    // Re-run parsing for a single stored email
+    "/api/emails/:id/reprocess": {
+      POST: requireAuth(async (req, user) => {
+        try {
+          const result = await reprocessEmail(req.params.id);
+
+          if (!result) {
+            return Response.json({ error: "Email not found" }, { status: 404 });
+          }
+
+          return Response.json({ success: true, ...result });
+        } catch (error) {
+          console.error("❌ Email reprocessing failed:", error);
+          return Response.json(
+            { error: "Failed to reprocess email" },
+            { status: 500 }
+          );
+        }
+      }),
+    },
+
     "/api/hello": {
       async GET(req) {
         return Response.json({
@@ -175,12 +1657,12 @@ const server = serve({
           method: "GET",
         });
       },
-      async PUT(req) {
+      PUT: requireAuth(async (req, user) => {
         return Response.json({
           message: "Hello, world!",
           method: "PUT",
         });
-      },
+      }),
     },
 
     "/api/hello/:name": async (req) => {
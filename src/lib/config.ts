@@ -0,0 +1,21 @@
+/**
+ * Frontend settings from BUN_PUBLIC_* env vars
+ * Bun inlines set vars at build time; unset ones are left as process.env
+ * lookups, which throw in the browser, so every read falls back to a default
+ */
+function publicEnv(read: () => string | undefined): string | undefined {
+  try {
+    return read() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Slippy-map tile template, e.g. http://localhost:8080/tile/{z}/{x}/{y}.png for a local tile server */
+export const MAP_TILE_URL =
+  publicEnv(() => process.env.BUN_PUBLIC_MAP_TILE_URL) ??
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_ATTRIBUTION =
+  publicEnv(() => process.env.BUN_PUBLIC_MAP_TILE_ATTRIBUTION) ??
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
@@ -0,0 +1,24 @@
+/**
+ * Display colors for listing sources
+ * Tailwind classes for badges, hex values for map markers
+ */
+const SOURCE_COLORS: Record<string, { className: string; hex: string }> = {
+  zillow: { className: "bg-blue-500", hex: "#3b82f6" },
+  redfin: { className: "bg-red-500", hex: "#ef4444" },
+  realtor: { className: "bg-green-500", hex: "#22c55e" },
+  land: { className: "bg-amber-500", hex: "#f59e0b" },
+  import: { className: "bg-purple-500", hex: "#a855f7" },
+};
+
+/** Known listing sources, in display order */
+export const SOURCES = Object.keys(SOURCE_COLORS);
+
+const DEFAULT_COLOR = { className: "bg-gray-500", hex: "#6b7280" };
+
+export function getSourceColor(source: string): string {
+  return (SOURCE_COLORS[source.toLowerCase()] ?? DEFAULT_COLOR).className;
+}
+
+export function getSourceHex(source: string): string {
+  return (SOURCE_COLORS[source.toLowerCase()] ?? DEFAULT_COLOR).hex;
+}
@@ -0,0 +1,32 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { normalizeAddress } from "./normalize";
+
+const prisma = new PrismaClient();
+
+/**
+ * Recompute every property's addressKey
+ * Run after adding the column, and whenever the normalizer changes
+ */
+export async function backfillAddressKeys(): Promise<{ scanned: number; updated: number }> {
+  const properties = await prisma.property.findMany({
+    select: { id: true, street: true, city: true, state: true, addressKey: true },
+  });
+
+  let updated = 0;
+  for (const property of properties) {
+    const addressKey = normalizeAddress(property.street, property.city, property.state);
+    if (addressKey === property.addressKey) continue;
+
+    await prisma.property.update({
+      where: { id: property.id },
+      data: { addressKey },
+    });
+    updated++;
+  }
+
+  return { scanned: properties.length, updated };
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,7 @@
+export {
+  normalizeAddress,
+  normalizeStreet,
+  normalizeCity,
+  normalizeState,
+} from "./normalize";
+export { backfillAddressKeys } from "./backfill";
@@ -0,0 +1,108 @@
+import { describe, test, expect } from "bun:test";
+import { normalizeAddress, normalizeStreet, normalizeCity, normalizeState } from "./normalize";
+
+describe("normalizeStreet", () => {
+  test.each([
+    // Suffixes
+    ["123 Main Street", "123 main st"],
+    ["123 Main St.", "123 main st"],
+    ["45 Oak Avenue", "45 oak ave"],
+    ["45 Oak Av", "45 oak ave"],
+    ["9 Harbor Boulevard", "9 harbor blvd"],
+    ["77 Cedar Crossing", "77 cedar xing"],
+    ["10 Pine Parkway", "10 pine pkwy"],
+    ["8 Elm Terrace", "8 elm ter"],
+    ["300 Old Mill Road", "300 old mill rd"],
+    ["14 Cedar Ct", "14 cedar ct"],
+    // Only the last word is a suffix
+    ["5 Park Avenue", "5 park ave"],
+    ["5 Court Street", "5 court st"],
+    // Directionals
+    ["12 N Main St", "12 n main st"],
+    ["12 North Main Street", "12 n main st"],
+    ["12 S Main St", "12 s main st"],
+    ["400 Main St Northwest", "400 main st nw"],
+    ["400 Main St N.W.", "400 main st nw"],
+    ["100 North St", "100 north st"],
+    ["1 E St", "1 e st"],
+    // Secondary units
+    ["500 Ocean Dr Apt 4B", "500 ocean dr # 4b"],
+    ["500 Ocean Dr, Unit 4B", "500 ocean dr # 4b"],
+    ["500 Ocean Dr #4B", "500 ocean dr # 4b"],
+    ["500 Ocean Dr Unit #4-B", "500 ocean dr # 4b"],
+    ["500 Ocean Dr Suite 200", "500 ocean dr # 200"],
+    ["500 Ocean Dr Bldg 2 Apt 10", "500 ocean dr bldg 2 # 10"],
+    ["500 Ocean Dr Building C", "500 ocean dr bldg c"],
+    ["500 Ocean Dr Penthouse", "500 ocean dr ph"],
+    ["12 Lot Rd", "12 lot rd"],
+    // Ordinals
+    ["200 W 5th St", "200 w 5th st"],
+    ["200 West Fifth Street", "200 w 5th st"],
+    ["88 Twenty-First Ave", "88 21st ave"],
+    ["88 Twenty First Avenue", "88 21st ave"],
+    ["3 One Hundredth St", "3 100th st"],
+    ["3 One Hundred Twenty-Second St", "3 122nd st"],
+    ["40 2d Ave", "40 2nd ave"],
+    ["40 33d St", "40 33rd st"],
+    ["40 111th St", "40 111th st"],
+    // Spelled-out numbers
+    ["One Main St", "1 main st"],
+    ["Twenty Two Oak Ln", "22 oak ln"],
+    ["One Twenty-First St", "1 21st st"],
+    // Whitespace and case
+    ["  123   MAIN   ST  ", "123 main st"],
+  ])("%p -> %p", (input, expected) => {
+    expect(normalizeStreet(input)).toBe(expected);
+  });
+});
+
+describe("normalizeCity", () => {
+  test.each([
+    ["Greer", "greer"],
+    ["St. Louis", "st louis"],
+    ["Saint Louis", "st louis"],
+    ["Mount Pleasant", "mt pleasant"],
+    ["Fort Mill", "ft mill"],
+  ])("%p -> %p", (input, expected) => {
+    expect(normalizeCity(input)).toBe(expected);
+  });
+});
+
+describe("normalizeState", () => {
+  test.each([
+    ["SC", "sc"],
+    ["South Carolina", "sc"],
+    ["north carolina", "nc"],
+    [" ga ", "ga"],
+  ])("%p -> %p", (input, expected) => {
+    expect(normalizeState(input)).toBe(expected);
+  });
+});
+
+describe("normalizeAddress", () => {
+  test.each([
+    ["12 N Main St", "12 North Main Street"],
+    ["500 Ocean Dr Apt 4B", "500 Ocean Drive #4B"],
+    ["200 W 5th St", "200 West Fifth Street"],
+  ])("%p matches %p", (a, b) => {
+    expect(normalizeAddress(a, "Greer", "SC")).toBe(
+      normalizeAddress(b, "greer", "South Carolina")
+    );
+  });
+
+  test.each([
+    ["12 N Main St", "12 S Main St"],
+    ["500 Ocean Dr Apt 4B", "500 Ocean Dr Apt 5B"],
+    ["500 Ocean Dr Apt 4B", "500 Ocean Dr"],
+  ])("%p does not match %p", (a, b) => {
+    expect(normalizeAddress(a, "Greer", "SC")).not.toBe(
+      normalizeAddress(b, "Greer", "SC")
+    );
+  });
+
+  test("joins street, city and state", () => {
+    expect(normalizeAddress("12 North Main Street, Apt 4B", "Greer", "South Carolina")).toBe(
+      "12 n main st # 4b|greer|sc"
+    );
+  });
+});
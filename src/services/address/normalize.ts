@@ -0,0 +1,207 @@
+import {
+  SUFFIX_ABBREVIATIONS,
+  DIRECTIONALS,
+  UNIT_DESIGNATORS,
+  STATE_CODES,
+  NUMBER_WORDS,
+  ORDINAL_WORDS,
+} from "./tables";
+
+/**
+ * Build the lookup key used to match listings of the same physical address
+ * e.g. "12 North Main Street, Apt 4B" / "Greer" / "South Carolina"
+ *   -> "12 n main st # 4b|greer|sc"
+ * Directionals and units are kept so "12 N Main St" and "12 S Main St",
+ * or two units in one building, never collide
+ */
+export function normalizeAddress(
+  street: string,
+  city: string,
+  state: string
+): string {
+  return `${normalizeStreet(street)}|${normalizeCity(city)}|${normalizeState(state)}`;
+}
+
+/**
+ * Normalize a street line to USPS abbreviations
+ * [number] [pre-directional] name... [suffix] [post-directional] [unit designator value]...
+ */
+export function normalizeStreet(street: string): string {
+  const tokens = convertNumberWords(tokenize(street));
+
+  const unitStart = findUnitStart(tokens);
+  const streetTokens = tokens.slice(0, unitStart);
+  const unitTokens = normalizeUnit(tokens.slice(unitStart));
+
+  // The house number is never a directional or suffix, e.g. "1 E St"
+  const first = streetTokens[0] && /^\d/.test(streetTokens[0]) ? 1 : 0;
+  let last = streetTokens.length - 1;
+
+  // Post-directional, e.g. "Main St NW"
+  if (last > first + 1 && DIRECTIONALS.has(streetTokens[last]!)) {
+    streetTokens[last] = DIRECTIONALS.get(streetTokens[last]!)!;
+    last--;
+  }
+
+  // Suffix is the last remaining word, e.g. "Avenue" -> "ave"
+  if (last > first && SUFFIX_ABBREVIATIONS.has(streetTokens[last]!)) {
+    streetTokens[last] = SUFFIX_ABBREVIATIONS.get(streetTokens[last]!)!;
+    last--;
+  }
+
+  // Pre-directional, only when a street name follows it ("North St" keeps "north" as the name)
+  if (last > first && DIRECTIONALS.has(streetTokens[first]!)) {
+    streetTokens[first] = DIRECTIONALS.get(streetTokens[first]!)!;
+  }
+
+  return [...streetTokens, ...unitTokens].join(" ");
+}
+
+/**
+ * Normalize a city name, e.g. "St. Louis" and "Saint Louis" -> "st louis"
+ */
+export function normalizeCity(city: string): string {
+  const abbreviations: Record<string, string> = {
+    saint: "st",
+    sainte: "ste",
+    mount: "mt",
+    fort: "ft",
+  };
+
+  return tokenize(city)
+    .map((word) => abbreviations[word] ?? word)
+    .join(" ");
+}
+
+/**
+ * Normalize a state to its lowercase USPS code, e.g. "South Carolina" -> "sc"
+ */
+export function normalizeState(state: string): string {
+  const normalized = tokenize(state).join(" ");
+  return STATE_CODES.get(normalized) ?? normalized;
+}
+
+/**
+ * Lowercase and split into words
+ * Periods are dropped ("N.E." -> "ne"), "#4B" becomes "# 4b",
+ * and hyphenated words split ("Twenty-First") while "12-14" stays intact
+ */
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/#/g, " # ")
+    .replace(/([a-z])-(?=[a-z])/g, "$1 ")
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Index where secondary unit designators begin, or the token count if there are none
+ * Ambiguous designators ("lot", "trlr") only count when a value follows them
+ */
+function findUnitStart(tokens: string[]): number {
+  for (let i = 2; i < tokens.length; i++) {
+    const designator = UNIT_DESIGNATORS.get(tokens[i]!);
+    if (!designator) continue;
+    if (tokens[i] === "#" || designator === "ph" || i < tokens.length - 1) {
+      return i;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Normalize "Apt 4-B", "Unit #4B" and "# 4b" to "# 4b"
+ */
+function normalizeUnit(tokens: string[]): string[] {
+  const normalized: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const designator = UNIT_DESIGNATORS.get(tokens[i]!);
+    if (designator) {
+      // "Unit #4" - the "#" after a designator is redundant
+      if (normalized.at(-1) !== "#" || designator !== "#") {
+        normalized.push(designator);
+      }
+      continue;
+    }
+    normalized.push(tokens[i]!.replace(/-/g, ""));
+  }
+
+  return normalized;
+}
+
+/**
+ * Convert spelled-out numbers and ordinals to digits
+ * "One Twenty-First Street" -> "1 21st street", and "2d"/"3d" -> "2nd"/"3rd"
+ */
+function convertNumberWords(tokens: string[]): string[] {
+  const converted: string[] = [];
+  let total: number | null = null;
+  // Largest word that may still extend the current number:
+  // "twenty" takes a unit ("twenty one"), "one" ends it ("one twenty" is two numbers)
+  let limit = 0;
+
+  const flush = () => {
+    if (total !== null) converted.push(String(total));
+    total = null;
+    limit = 0;
+  };
+
+  for (const token of tokens) {
+    const numeric = token.match(/^(\d+)(st|nd|rd|th|d)$/);
+    if (numeric) {
+      flush();
+      converted.push(toOrdinal(Number(numeric[1])));
+      continue;
+    }
+
+    if (token in NUMBER_WORDS) {
+      const value = NUMBER_WORDS[token]!;
+      if (total !== null && value >= limit) flush();
+      total = (total ?? 0) + value;
+      limit = value >= 20 ? 10 : 0;
+    } else if (token === "hundred" && total !== null && total < 10) {
+      total *= 100;
+      limit = 100;
+    } else if (token in ORDINAL_WORDS) {
+      const value = ORDINAL_WORDS[token]!;
+      let ordinal: number;
+      if (value === 100 && total !== null && total < 10) {
+        ordinal = total * 100;
+      } else if (value === 100) {
+        flush();
+        ordinal = 100;
+      } else {
+        if (total !== null && value >= limit) flush();
+        ordinal = (total ?? 0) + value;
+      }
+      total = null;
+      limit = 0;
+      converted.push(toOrdinal(ordinal));
+    } else {
+      flush();
+      converted.push(token);
+    }
+  }
+
+  flush();
+  return converted;
+}
+
+function toOrdinal(value: number): string {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Lookup tables for address normalization
+ * Street suffixes and unit designators follow USPS Publication 28 (appendix C)
+ */
+
+/**
+ * Standard suffix abbreviation -> every common spelling (USPS C1)
+ * The abbreviation itself is always accepted
+ */
+const STREET_SUFFIXES: Record<string, string[]> = {
+  aly: ["allee", "alley", "ally"],
+  anx: ["anex", "annex", "annx"],
+  arc: ["arcade"],
+  ave: ["av", "aven", "avenu", "avenue", "avn", "avnue"],
+  byu: ["bayoo", "bayou"],
+  bch: ["beach"],
+  bnd: ["bend"],
+  blf: ["bluf", "bluff"],
+  blfs: ["bluffs"],
+  btm: ["bot", "bottm", "bottom"],
+  blvd: ["boul", "boulevard", "boulv"],
+  br: ["brnch", "branch"],
+  brg: ["brdge", "bridge"],
+  brk: ["brook"],
+  brks: ["brooks"],
+  bg: ["burg"],
+  bgs: ["burgs"],
+  byp: ["bypa", "bypas", "bypass", "byps"],
+  cp: ["camp", "cmp"],
+  cyn: ["canyn", "canyon", "cnyn"],
+  cpe: ["cape"],
+  cswy: ["causeway", "causwa"],
+  ctr: ["cen", "cent", "center", "centr", "centre", "cnter", "cntr"],
+  ctrs: ["centers"],
+  cir: ["circ", "circl", "circle", "crcl", "crcle"],
+  cirs: ["circles"],
+  clf: ["cliff"],
+  clfs: ["cliffs"],
+  clb: ["club"],
+  cmn: ["common"],
+  cmns: ["commons"],
+  cor: ["corner"],
+  cors: ["corners"],
+  crse: ["course"],
+  ct: ["court"],
+  cts: ["courts"],
+  cv: ["cove"],
+  cvs: ["coves"],
+  crk: ["creek"],
+  cres: ["crescent", "crsent", "crsnt"],
+  crst: ["crest"],
+  xing: ["crossing", "crssng"],
+  xrd: ["crossroad"],
+  xrds: ["crossroads"],
+  curv: ["curve"],
+  dl: ["dale"],
+  dm: ["dam"],
+  dv: ["div", "divide", "dvd"],
+  dr: ["driv", "drive", "drv"],
+  drs: ["drives"],
+  est: ["estate"],
+  ests: ["estates"],
+  expy: ["exp", "expr", "express", "expressway", "expw"],
+  ext: ["extension", "extn", "extnsn"],
+  exts: ["extensions"],
+  fall: [],
+  fls: ["falls"],
+  fry: ["ferry", "frry"],
+  fld: ["field"],
+  flds: ["fields"],
+  flt: ["flat"],
+  flts: ["flats"],
+  frd: ["ford"],
+  frds: ["fords"],
+  frst: ["forest", "forests"],
+  frg: ["forg", "forge"],
+  frgs: ["forges"],
+  frk: ["fork"],
+  frks: ["forks"],
+  ft: ["fort", "frt"],
+  fwy: ["freeway", "freewy", "frway", "frwy"],
+  gdn: ["garden", "gardn", "grden", "grdn"],
+  gdns: ["gardens", "grdns"],
+  gtwy: ["gateway", "gatewy", "gatway", "gtway"],
+  gln: ["glen"],
+  glns: ["glens"],
+  grn: ["green"],
+  grns: ["greens"],
+  grv: ["grov", "grove"],
+  grvs: ["groves"],
+  hbr: ["harb", "harbor", "harbr", "hrbor"],
+  hbrs: ["harbors"],
+  hvn: ["haven"],
+  hts: ["ht", "heights"],
+  hwy: ["highway", "highwy", "hiway", "hiwy", "hway"],
+  hl: ["hill"],
+  hls: ["hills"],
+  holw: ["hllw", "hollow", "hollows", "holws"],
+  inlt: ["inlet"],
+  is: ["island", "islnd"],
+  iss: ["islands", "islnds"],
+  isle: ["isles"],
+  jct: ["jction", "jctn", "junction", "junctn", "juncton"],
+  jcts: ["jctns", "junctions"],
+  ky: ["key"],
+  kys: ["keys"],
+  knl: ["knol", "knoll"],
+  knls: ["knolls"],
+  lk: ["lake"],
+  lks: ["lakes"],
+  land: [],
+  lndg: ["landing", "lndng"],
+  ln: ["lane"],
+  lgt: ["light"],
+  lgts: ["lights"],
+  lf: ["loaf"],
+  lck: ["lock"],
+  lcks: ["locks"],
+  ldg: ["ldge", "lodg", "lodge"],
+  loop: ["loops"],
+  mall: [],
+  mnr: ["manor"],
+  mnrs: ["manors"],
+  mdw: ["meadow"],
+  mdws: ["meadows", "medows"],
+  mews: [],
+  ml: ["mill"],
+  mls: ["mills"],
+  msn: ["missn", "mssn"],
+  mtwy: ["motorway"],
+  mt: ["mnt", "mount"],
+  mtn: ["mntain", "mntn", "mountain", "mountin", "mtin"],
+  mtns: ["mntns", "mountains"],
+  nck: ["neck"],
+  orch: ["orchard", "orchrd"],
+  oval: ["ovl"],
+  opas: ["overpass"],
+  park: ["prk", "parks"],
+  pkwy: ["parkway", "parkwy", "pkway", "pky", "parkways", "pkwys"],
+  pass: [],
+  psge: ["passage"],
+  path: ["paths"],
+  pike: ["pikes"],
+  pne: ["pine"],
+  pnes: ["pines"],
+  pl: ["place"],
+  pln: ["plain"],
+  plns: ["plains"],
+  plz: ["plaza", "plza"],
+  pt: ["point"],
+  pts: ["points"],
+  prt: ["port"],
+  prts: ["ports"],
+  pr: ["prairie", "prr"],
+  radl: ["rad", "radial", "radiel"],
+  ramp: [],
+  rnch: ["ranch", "ranches", "rnchs"],
+  rpd: ["rapid"],
+  rpds: ["rapids"],
+  rst: ["rest"],
+  rdg: ["rdge", "ridge"],
+  rdgs: ["ridges"],
+  riv: ["river", "rvr", "rivr"],
+  rd: ["road"],
+  rds: ["roads"],
+  rte: ["route"],
+  row: [],
+  rue: [],
+  run: [],
+  shl: ["shoal"],
+  shls: ["shoals"],
+  shr: ["shoar", "shore"],
+  shrs: ["shoars", "shores"],
+  skwy: ["skyway"],
+  spg: ["spng", "spring", "sprng"],
+  spgs: ["spngs", "springs", "sprngs"],
+  spur: ["spurs"],
+  sq: ["sqr", "sqre", "squ", "square"],
+  sqs: ["sqrs", "squares"],
+  sta: ["station", "statn", "stn"],
+  stra: ["strav", "straven", "stravenue", "stravn", "strvn", "strvnue"],
+  strm: ["stream", "streme"],
+  st: ["street", "strt", "str"],
+  sts: ["streets"],
+  smt: ["sumit", "sumitt", "summit"],
+  ter: ["terr", "terrace"],
+  trwy: ["throughway"],
+  trce: ["trace", "traces"],
+  trak: ["track", "tracks", "trk", "trks"],
+  trfy: ["trafficway"],
+  trl: ["trail", "trails", "trls"],
+  trlr: ["trailer", "trlrs"],
+  tunl: ["tunel", "tunls", "tunnel", "tunnels", "tunnl"],
+  tpke: ["trnpk", "turnpike", "turnpk"],
+  upas: ["underpass"],
+  un: ["union"],
+  uns: ["unions"],
+  vly: ["valley", "vally", "vlly"],
+  vlys: ["valleys"],
+  via: ["vdct", "viadct", "viaduct"],
+  vw: ["view"],
+  vws: ["views"],
+  vlg: ["vill", "villag", "village", "villg", "villiage"],
+  vlgs: ["villages"],
+  vl: ["ville"],
+  vis: ["vist", "vista", "vst", "vsta"],
+  walk: ["walks"],
+  wall: [],
+  way: ["wy"],
+  ways: [],
+  wl: ["well"],
+  wls: ["wells"],
+};
+
+/** Any accepted suffix spelling -> USPS standard abbreviation */
+export const SUFFIX_ABBREVIATIONS = invert(STREET_SUFFIXES);
+
+/** Directional spelling -> abbreviation */
+export const DIRECTIONALS = invert({
+  n: ["north"],
+  s: ["south"],
+  e: ["east"],
+  w: ["west"],
+  ne: ["northeast"],
+  nw: ["northwest"],
+  se: ["southeast"],
+  sw: ["southwest"],
+});
+
+/**
+ * Secondary unit designator spelling -> abbreviation (USPS C2)
+ * Listing sites disagree on apt/unit/ste/# for the same door, so those share one form
+ */
+export const UNIT_DESIGNATORS = invert({
+  "#": ["apt", "apartment", "unit", "ste", "suite", "no", "num", "number"],
+  bldg: ["building"],
+  dept: ["department"],
+  fl: ["floor"],
+  hngr: ["hangar"],
+  lot: [],
+  ph: ["penthouse"],
+  pier: [],
+  rm: ["room"],
+  slip: [],
+  spc: ["space"],
+  stop: [],
+  trlr: ["trailer"],
+});
+
+/** Full state and territory names -> USPS codes */
+export const STATE_CODES = invert({
+  al: ["alabama"],
+  ak: ["alaska"],
+  az: ["arizona"],
+  ar: ["arkansas"],
+  ca: ["california"],
+  co: ["colorado"],
+  ct: ["connecticut"],
+  de: ["delaware"],
+  dc: ["district of columbia"],
+  fl: ["florida"],
+  ga: ["georgia"],
+  hi: ["hawaii"],
+  id: ["idaho"],
+  il: ["illinois"],
+  in: ["indiana"],
+  ia: ["iowa"],
+  ks: ["kansas"],
+  ky: ["kentucky"],
+  la: ["louisiana"],
+  me: ["maine"],
+  md: ["maryland"],
+  ma: ["massachusetts"],
+  mi: ["michigan"],
+  mn: ["minnesota"],
+  ms: ["mississippi"],
+  mo: ["missouri"],
+  mt: ["montana"],
+  ne: ["nebraska"],
+  nv: ["nevada"],
+  nh: ["new hampshire"],
+  nj: ["new jersey"],
+  nm: ["new mexico"],
+  ny: ["new york"],
+  nc: ["north carolina"],
+  nd: ["north dakota"],
+  oh: ["ohio"],
+  ok: ["oklahoma"],
+  or: ["oregon"],
+  pa: ["pennsylvania"],
+  pr: ["puerto rico"],
+  ri: ["rhode island"],
+  sc: ["south carolina"],
+  sd: ["south dakota"],
+  tn: ["tennessee"],
+  tx: ["texas"],
+  ut: ["utah"],
+  vt: ["vermont"],
+  va: ["virginia"],
+  wa: ["washington"],
+  wv: ["west virginia"],
+  wi: ["wisconsin"],
+  wy: ["wyoming"],
+});
+
+/** Spelled-out cardinal numbers */
+export const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+/** Spelled-out ordinals */
+export const ORDINAL_WORDS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+  twentieth: 20,
+  thirtieth: 30,
+  fortieth: 40,
+  fiftieth: 50,
+  sixtieth: 60,
+  seventieth: 70,
+  eightieth: 80,
+  ninetieth: 90,
+  hundredth: 100,
+};
+
+function invert(table: Record<string, string[]>): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const [standard, variants] of Object.entries(table)) {
+    lookup.set(standard, standard);
+    for (const variant of variants) lookup.set(variant, standard);
+  }
+  return lookup;
+}
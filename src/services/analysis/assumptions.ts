@@ -0,0 +1,141 @@
+import { PrismaClient } from "../../../generated/prisma";
+import type { RentalAssumptions } from "./types";
+
+const prisma = new PrismaClient();
+
+const SETTINGS_NAME = "default";
+
+/**
+ * Built-in assumptions used until a team default is saved
+ */
+export const DEFAULT_ASSUMPTIONS: RentalAssumptions = {
+  downPaymentPercent: 0.25,
+  interestRate: 0.07,
+  loanTermYears: 30,
+  closingCostPercent: 0.03,
+  propertyTaxRate: 0.01,
+  insuranceAnnual: 1500,
+  vacancyRate: 0.08,
+  managementRate: 0.1,
+  capexRate: 0.05,
+  rentToPriceRatio: 0.008,
+};
+
+type AssumptionKey = keyof RentalAssumptions;
+
+// Valid range for each assumption - rates are fractions, not percents
+const ASSUMPTION_RANGES: Record<AssumptionKey, { min: number; max: number }> = {
+  downPaymentPercent: { min: 0, max: 1 },
+  interestRate: { min: 0, max: 1 },
+  loanTermYears: { min: 1, max: 50 },
+  closingCostPercent: { min: 0, max: 1 },
+  propertyTaxRate: { min: 0, max: 1 },
+  insuranceAnnual: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  vacancyRate: { min: 0, max: 1 },
+  managementRate: { min: 0, max: 1 },
+  capexRate: { min: 0, max: 1 },
+  monthlyRent: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  rentToPriceRatio: { min: 0, max: 1 },
+};
+
+const ASSUMPTION_KEYS = Object.keys(ASSUMPTION_RANGES) as AssumptionKey[];
+
+// Assumptions about one property, which can't be a team default
+const PROPERTY_ASSUMPTIONS = ["monthlyRent"] as const;
+
+/** Assumptions that can be saved as team defaults */
+export type DefaultAssumptions = Omit<RentalAssumptions, (typeof PROPERTY_ASSUMPTIONS)[number]>;
+
+/**
+ * Validate assumption overrides from query params or a JSON body
+ * Unknown keys are ignored; invalid values are reported per field
+ */
+export function parseAssumptionOverrides(
+  input: URLSearchParams | Record<string, unknown>
+): { overrides: Partial<RentalAssumptions>; errors: string[] } {
+  const overrides: Partial<RentalAssumptions> = {};
+  const errors: string[] = [];
+
+  for (const key of ASSUMPTION_KEYS) {
+    const raw =
+      input instanceof URLSearchParams ? input.get(key) : input[key];
+    if (raw === null || raw === undefined || raw === "") continue;
+
+    const value = typeof raw === "number" ? raw : Number(raw);
+    const range = ASSUMPTION_RANGES[key];
+
+    if (!Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (value < range.min || value > range.max) {
+      errors.push(`${key} must be between ${range.min} and ${range.max}`);
+    } else if (key === "loanTermYears" && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    } else {
+      overrides[key] = value;
+    }
+  }
+
+  return { overrides, errors };
+}
+
+/**
+ * Validate new team defaults
+ * Like parseAssumptionOverrides, but property-specific fields are rejected
+ */
+export function parseDefaultAssumptions(input: Record<string, unknown>): {
+  overrides: Partial<DefaultAssumptions>;
+  errors: string[];
+} {
+  const { overrides, errors } = parseAssumptionOverrides(input);
+
+  for (const key of PROPERTY_ASSUMPTIONS) {
+    if (input[key] !== undefined) {
+      errors.push(`${key} is specific to a property and can't be a team default`);
+    }
+  }
+
+  return { overrides: withoutPropertyAssumptions(overrides), errors };
+}
+
+/**
+ * Get the saved team defaults, falling back to the built-in assumptions
+ */
+export async function getSavedAssumptions(): Promise<RentalAssumptions> {
+  const settings = await prisma.analysisSettings.findUnique({
+    where: { name: SETTINGS_NAME },
+  });
+
+  if (!settings) return { ...DEFAULT_ASSUMPTIONS };
+
+  // Re-validate stored values so a bad row can't break every analysis
+  // and drop property-specific values saved before they were rejected
+  const { overrides } = parseAssumptionOverrides(
+    settings.assumptions as Record<string, unknown>
+  );
+  return { ...DEFAULT_ASSUMPTIONS, ...withoutPropertyAssumptions(overrides) };
+}
+
+/**
+ * Merge overrides into the saved team defaults and persist them
+ */
+export async function saveAssumptions(
+  overrides: Partial<DefaultAssumptions>
+): Promise<RentalAssumptions> {
+  const assumptions = { ...(await getSavedAssumptions()), ...overrides };
+
+  await prisma.analysisSettings.upsert({
+    where: { name: SETTINGS_NAME },
+    create: { name: SETTINGS_NAME, assumptions },
+    update: { assumptions },
+  });
+
+  return assumptions;
+}
+
+function withoutPropertyAssumptions(
+  overrides: Partial<RentalAssumptions>
+): Partial<DefaultAssumptions> {
+  const { monthlyRent: _monthlyRent, ...defaults } = overrides;
+  return defaults;
+}
+
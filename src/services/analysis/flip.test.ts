@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { analyzeFlip, parseFlipScenarioInput } from "./flip";
+import { parseRehabItems, priceRehabItems } from "./rehab";
+
+describe("analyzeFlip", () => {
+  const property = { price: 200000, sqft: 1000 };
+  const scenario = {
+    arv: 300000,
+    rehabItems: [
+      { category: "Kitchen", cost: 20000 },
+      { category: "Flooring", costPerSqft: 5 },
+    ],
+    assumptions: {},
+  };
+
+  test("totals costs, profit and ROI with the default assumptions", () => {
+    const analysis = analyzeFlip(property, scenario);
+
+    expect(analysis.purchasePrice).toBe(200000);
+    expect(analysis.rehab.subtotal).toBe(25000);
+    expect(analysis.rehab.contingency).toBe(2500);
+    expect(analysis.rehab.total).toBe(27500);
+    expect(analysis.loanAmount).toBe(180000);
+    expect(analysis.loanPointsCost).toBe(3600);
+    expect(analysis.purchaseClosingCosts).toBe(4000);
+    expect(analysis.holdingCosts.interest).toBe(10800);
+    expect(analysis.holdingCosts.total).toBe(13900);
+    expect(analysis.sellingCosts).toBe(24000);
+    expect(analysis.totalProjectCost).toBe(273000);
+    expect(analysis.cashInvested).toBe(69000);
+    expect(analysis.projectedProfit).toBe(27000);
+    expect(analysis.roi).toBe(0.3913);
+    expect(analysis.annualizedRoi).toBe(0.7826);
+    expect(analysis.profitMargin).toBe(0.09);
+  });
+
+  test("applies the 70% rule to the ARV less rehab", () => {
+    const analysis = analyzeFlip(property, scenario);
+    expect(analysis.maximumAllowableOffer).toBe(182500);
+    expect(analysis.meetsMaoRule).toBe(false);
+
+    expect(analyzeFlip(property, { ...scenario, purchasePrice: 180000 }).meetsMaoRule).toBe(true);
+  });
+
+  test("uses scenario overrides over the defaults", () => {
+    const analysis = analyzeFlip(property, {
+      ...scenario,
+      assumptions: { financedPercent: 0, holdingMonths: 3, maoPercent: 0.75 },
+    });
+
+    expect(analysis.loanAmount).toBe(0);
+    expect(analysis.holdingCosts.interest).toBe(0);
+    expect(analysis.cashInvested).toBe(analysis.totalProjectCost - analysis.sellingCosts);
+    expect(analysis.maximumAllowableOffer).toBe(197500);
+  });
+
+  test("can't price per-sqft lines without the property's sqft", () => {
+    expect(() => analyzeFlip({ price: 200000, sqft: null }, scenario)).toThrow(
+      "Flooring is priced per sqft"
+    );
+  });
+});
+
+describe("priceRehabItems", () => {
+  test("prices fixed and per-sqft lines", () => {
+    const { items, subtotal } = priceRehabItems(
+      [
+        { category: "Roof", cost: 12000 },
+        { category: "Paint", costPerSqft: 2.5 },
+      ],
+      1200
+    );
+    expect(items.map((item) => item.amount)).toEqual([12000, 3000]);
+    expect(subtotal).toBe(15000);
+  });
+});
+
+describe("parseRehabItems", () => {
+  test("needs exactly one of cost or costPerSqft", () => {
+    expect(
+      parseRehabItems([
+        { category: "Roof" },
+        { category: "Paint", cost: 100, costPerSqft: 2 },
+        { cost: -5 },
+      ]).errors
+    ).toEqual([
+      "rehabItems[0] must have either cost or costPerSqft",
+      "rehabItems[1] must have either cost or costPerSqft",
+      "rehabItems[2].category is required",
+      "rehabItems[2] amounts must be numbers of at least 0",
+    ]);
+  });
+
+  test("accepts numeric strings", () => {
+    expect(parseRehabItems([{ category: " Roof ", cost: "12000" }]).items).toEqual([
+      { category: "Roof", description: undefined, cost: 12000, costPerSqft: undefined },
+    ]);
+  });
+});
+
+describe("parseFlipScenarioInput", () => {
+  test("a new scenario needs a name and ARV", () => {
+    expect(parseFlipScenarioInput({}, "create").errors).toEqual([
+      "name is required",
+      "arv must be a positive amount",
+    ]);
+  });
+
+  test("seeds line items from a template", () => {
+    const { input } = parseFlipScenarioInput(
+      { name: "Cosmetic", arv: "250000", rehabTemplate: "cosmetic" },
+      "create"
+    );
+    expect(input?.arv).toBe(250000);
+    expect(input?.rehabItems?.map((item) => item.category)).toContain("Flooring");
+    expect(input?.assumptions).toEqual({});
+  });
+
+  test("rejects unknown templates and out-of-range assumptions", () => {
+    expect(
+      parseFlipScenarioInput(
+        { rehabTemplate: "mansion", assumptions: { maoPercent: 70, holdingMonths: "soon" } },
+        "update"
+      ).errors
+    ).toEqual([
+      'rehabTemplate "mansion" does not exist',
+      "holdingMonths must be a number",
+      "maoPercent must be between 0 and 1",
+    ]);
+  });
+
+  test("an update only touches what's given; empty purchasePrice clears it", () => {
+    expect(parseFlipScenarioInput({ purchasePrice: "" }, "update").input).toEqual({
+      purchasePrice: null,
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { findRehabTemplate, parseRehabItems, priceRehabItems } from "./rehab";
+import type {
+  AnalysisProperty,
+  FlipAssumptions,
+  FlipAnalysis,
+  FlipScenarioInput,
+} from "./types";
+
+/**
+ * Built-in flip assumptions; a scenario overrides any of them
+ */
+export const DEFAULT_FLIP_ASSUMPTIONS: FlipAssumptions = {
+  financedPercent: 0.9,
+  interestRate: 0.12,
+  loanPoints: 0.02,
+  purchaseClosingCostPercent: 0.02,
+  sellingCostPercent: 0.08,
+  rehabContingencyPercent: 0.1,
+  holdingMonths: 6,
+  propertyTaxRate: 0.01,
+  insuranceMonthly: 150,
+  utilitiesMonthly: 200,
+  maoPercent: 0.7,
+};
+
+type FlipAssumptionKey = keyof FlipAssumptions;
+
+// Valid range for each assumption - rates are fractions, not percents
+const FLIP_ASSUMPTION_RANGES: Record<FlipAssumptionKey, { min: number; max: number }> = {
+  financedPercent: { min: 0, max: 1 },
+  interestRate: { min: 0, max: 1 },
+  loanPoints: { min: 0, max: 0.2 },
+  purchaseClosingCostPercent: { min: 0, max: 1 },
+  sellingCostPercent: { min: 0, max: 1 },
+  rehabContingencyPercent: { min: 0, max: 1 },
+  holdingMonths: { min: 0, max: 60 },
+  propertyTaxRate: { min: 0, max: 1 },
+  insuranceMonthly: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  utilitiesMonthly: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  maoPercent: { min: 0, max: 1 },
+};
+
+const FLIP_ASSUMPTION_KEYS = Object.keys(FLIP_ASSUMPTION_RANGES) as FlipAssumptionKey[];
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Validate flip assumption overrides
+ * Unknown keys are ignored; invalid values are reported per field
+ */
+export function parseFlipAssumptions(input: Record<string, unknown>): {
+  overrides: Partial<FlipAssumptions>;
+  errors: string[];
+} {
+  const overrides: Partial<FlipAssumptions> = {};
+  const errors: string[] = [];
+
+  for (const key of FLIP_ASSUMPTION_KEYS) {
+    const raw = input[key];
+    if (raw === null || raw === undefined || raw === "") continue;
+
+    const value = typeof raw === "number" ? raw : Number(raw);
+    const range = FLIP_ASSUMPTION_RANGES[key];
+
+    if (!Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (value < range.min || value > range.max) {
+      errors.push(`${key} must be between ${range.min} and ${range.max}`);
+    } else {
+      overrides[key] = value;
+    }
+  }
+
+  return { overrides, errors };
+}
+
+/**
+ * Validate a flip scenario body
+ * A new scenario needs a name and ARV. rehabTemplate seeds the line items
+ * from a template when rehabItems isn't given
+ */
+export function parseFlipScenarioInput(
+  body: unknown,
+  mode: "create"
+): { input?: FlipScenarioInput; errors: string[] };
+export function parseFlipScenarioInput(
+  body: unknown,
+  mode: "update"
+): { input?: Partial<FlipScenarioInput>; errors: string[] };
+export function parseFlipScenarioInput(
+  body: unknown,
+  mode: "create" | "update"
+): { input?: Partial<FlipScenarioInput>; errors: string[] } {
+  const data = (body && typeof body === "object" && !Array.isArray(body) ? body : {}) as Record<
+    string,
+    unknown
+  >;
+  const input: Partial<FlipScenarioInput> = {};
+  const errors: string[] = [];
+
+  if (data.name !== undefined || mode === "create") {
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!name) errors.push("name is required");
+    else if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    } else input.name = name;
+  }
+
+  if (data.arv !== undefined || mode === "create") {
+    const arv = Number(data.arv);
+    if (data.arv === null || data.arv === "" || !Number.isFinite(arv) || arv <= 0) {
+      errors.push("arv must be a positive amount");
+    } else input.arv = arv;
+  }
+
+  // Empty clears a saved purchase price back to the property's price
+  if (data.purchasePrice === null || data.purchasePrice === "") {
+    input.purchasePrice = null;
+  } else if (data.purchasePrice !== undefined) {
+    const purchasePrice = Number(data.purchasePrice);
+    if (!Number.isFinite(purchasePrice) || purchasePrice <= 0) {
+      errors.push("purchasePrice must be a positive amount");
+    } else input.purchasePrice = purchasePrice;
+  }
+
+  if (data.rehabItems !== undefined) {
+    const { items, errors: itemErrors } = parseRehabItems(data.rehabItems);
+    errors.push(...itemErrors);
+    input.rehabItems = items;
+  } else if (data.rehabTemplate !== undefined) {
+    const template =
+      typeof data.rehabTemplate === "string" ? findRehabTemplate(data.rehabTemplate) : undefined;
+    if (!template) errors.push(`rehabTemplate "${data.rehabTemplate}" does not exist`);
+    else input.rehabItems = template.items.map((item) => ({ ...item }));
+  } else if (mode === "create") {
+    input.rehabItems = [];
+  }
+
+  if (data.assumptions !== undefined) {
+    if (!data.assumptions || typeof data.assumptions !== "object") {
+      errors.push("assumptions must be an object");
+    } else {
+      const { overrides, errors: assumptionErrors } = parseFlipAssumptions(
+        data.assumptions as Record<string, unknown>
+      );
+      errors.push(...assumptionErrors);
+      input.assumptions = overrides;
+    }
+  } else if (mode === "create") {
+    input.assumptions = {};
+  }
+
+  if (errors.length > 0) return { errors };
+  if (mode === "create") {
+    if (!isCompleteScenario(input)) return { errors: ["name and arv are required"] };
+    return { input, errors };
+  }
+  return { input, errors };
+}
+
+/** A create-mode parse sets every required field */
+function isCompleteScenario(input: Partial<FlipScenarioInput>): input is FlipScenarioInput {
+  return (
+    input.name !== undefined &&
+    input.arv !== undefined &&
+    input.rehabItems !== undefined &&
+    input.assumptions !== undefined
+  );
+}
+
+/**
+ * Run a fix-and-flip analysis: rehab budget, holding, closing and selling
+ * costs, projected profit and ROI, and the 70%-rule maximum allowable offer
+ * Rehab is paid in cash; the loan covers part of the purchase, interest-only
+ */
+export function analyzeFlip(
+  property: Pick<AnalysisProperty, "price" | "sqft">,
+  scenario: Pick<FlipScenarioInput, "arv" | "purchasePrice" | "rehabItems" | "assumptions">
+): FlipAnalysis {
+  const assumptions = { ...DEFAULT_FLIP_ASSUMPTIONS, ...scenario.assumptions };
+  const arv = scenario.arv;
+  const purchasePrice = scenario.purchasePrice ?? property.price;
+  if (!(purchasePrice > 0)) {
+    throw new Error(`Invalid purchase price: ${purchasePrice}`);
+  }
+
+  // Rehab
+  const { items, subtotal } = priceRehabItems(scenario.rehabItems, property.sqft);
+  const contingency = subtotal * assumptions.rehabContingencyPercent;
+  const rehabTotal = subtotal + contingency;
+
+  // Financing
+  const loanAmount = purchasePrice * assumptions.financedPercent;
+  const loanPointsCost = loanAmount * assumptions.loanPoints;
+
+  // Holding (monthly)
+  const interest = (loanAmount * assumptions.interestRate) / 12;
+  const taxes = (purchasePrice * assumptions.propertyTaxRate) / 12;
+  const monthlyHolding =
+    interest + taxes + assumptions.insuranceMonthly + assumptions.utilitiesMonthly;
+  const months = assumptions.holdingMonths;
+
+  // Closing and selling
+  const purchaseClosingCosts = purchasePrice * assumptions.purchaseClosingCostPercent;
+  const sellingCosts = arv * assumptions.sellingCostPercent;
+
+  // Everything but the selling costs is paid before the sale
+  const upfrontCosts = purchaseClosingCosts + loanPointsCost + rehabTotal + monthlyHolding * months;
+  const totalProjectCost = purchasePrice + upfrontCosts + sellingCosts;
+  const cashInvested = purchasePrice - loanAmount + upfrontCosts;
+
+  // Returns
+  const projectedProfit = arv - totalProjectCost;
+  const roi = cashInvested > 0 ? projectedProfit / cashInvested : 0;
+  const maximumAllowableOffer = Math.max(0, arv * assumptions.maoPercent - rehabTotal);
+
+  return {
+    assumptions,
+    arv: roundCurrency(arv),
+    purchasePrice: roundCurrency(purchasePrice),
+    rehab: {
+      items: items.map((item) => ({ ...item, amount: roundCurrency(item.amount) })),
+      subtotal: roundCurrency(subtotal),
+      contingency: roundCurrency(contingency),
+      total: roundCurrency(rehabTotal),
+    },
+    loanAmount: roundCurrency(loanAmount),
+    loanPointsCost: roundCurrency(loanPointsCost),
+    purchaseClosingCosts: roundCurrency(purchaseClosingCosts),
+    holdingCosts: {
+      interest: roundCurrency(interest * months),
+      taxes: roundCurrency(taxes * months),
+      insurance: roundCurrency(assumptions.insuranceMonthly * months),
+      utilities: roundCurrency(assumptions.utilitiesMonthly * months),
+      monthly: roundCurrency(monthlyHolding),
+      total: roundCurrency(monthlyHolding * months),
+    },
+    sellingCosts: roundCurrency(sellingCosts),
+    totalProjectCost: roundCurrency(totalProjectCost),
+    cashInvested: roundCurrency(cashInvested),
+    projectedProfit: roundCurrency(projectedProfit),
+    roi: roundRatio(roi),
+    // Simple annualization over the holding period
+    annualizedRoi: months > 0 ? roundRatio((roi * 12) / months) : roundRatio(roi),
+    profitMargin: roundRatio(projectedProfit / arv),
+    maximumAllowableOffer: roundCurrency(maximumAllowableOffer),
+    meetsMaoRule: purchasePrice <= maximumAllowableOffer,
+  };
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,139 @@
+import { PrismaClient, type FlipScenario } from "../../../generated/prisma";
+import { analyzeFlip, parseFlipAssumptions } from "./flip";
+import { parseRehabItems } from "./rehab";
+import type { FlipScenarioInput } from "./types";
+
+const prisma = new PrismaClient();
+
+const propertySelect = { id: true, price: true, sqft: true } as const;
+
+type ScenarioProperty = { price: { toNumber(): number }; sqft: number | null };
+
+/**
+ * A property's saved flip scenarios with their analyses, oldest first
+ * Returns null if the property doesn't exist
+ */
+export async function listFlipScenarios(propertyId: string) {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      ...propertySelect,
+      flipScenarios: { orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!property) return null;
+
+  return property.flipScenarios.map((scenario) => withAnalysis(scenario, property));
+}
+
+/**
+ * Save a new flip scenario for a property
+ * Returns null if the property doesn't exist
+ */
+export async function createFlipScenario(propertyId: string, input: FlipScenarioInput) {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: propertySelect,
+  });
+  if (!property) return null;
+
+  const scenario = await prisma.flipScenario.create({
+    data: {
+      propertyId,
+      name: input.name,
+      arv: input.arv,
+      purchasePrice: input.purchasePrice ?? null,
+      rehabItems: input.rehabItems as object[],
+      assumptions: input.assumptions,
+    },
+  });
+
+  console.log(`🔨 Saved flip scenario "${scenario.name}" for property ${propertyId}`);
+  return withAnalysis(scenario, property);
+}
+
+/**
+ * Edit a flip scenario; assumptions replace the saved overrides as a whole
+ * Returns null if there's no such scenario on the property
+ */
+export async function updateFlipScenario(
+  propertyId: string,
+  scenarioId: string,
+  input: Partial<FlipScenarioInput>
+) {
+  const existing = await prisma.flipScenario.findFirst({
+    where: { id: scenarioId, propertyId },
+    include: { property: { select: propertySelect } },
+  });
+  if (!existing) return null;
+
+  const scenario = await prisma.flipScenario.update({
+    where: { id: scenarioId },
+    data: {
+      name: input.name,
+      arv: input.arv,
+      purchasePrice: input.purchasePrice,
+      rehabItems: input.rehabItems as object[] | undefined,
+      assumptions: input.assumptions,
+    },
+  });
+
+  return withAnalysis(scenario, existing.property);
+}
+
+/**
+ * Delete a flip scenario from a property
+ * Returns false if there's no such scenario on the property
+ */
+export async function deleteFlipScenario(propertyId: string, scenarioId: string): Promise<boolean> {
+  const { count } = await prisma.flipScenario.deleteMany({ where: { id: scenarioId, propertyId } });
+  return count > 0;
+}
+
+/**
+ * Serialize a scenario with its analysis
+ * A scenario that can't be analyzed (per-sqft rehab lines without the
+ * property's sqft) comes back with an error instead
+ */
+function withAnalysis(scenario: FlipScenario, property: ScenarioProperty) {
+  // Re-validate stored JSON so a bad row can't break the whole list
+  const rehabItems = parseRehabItems(scenario.rehabItems).items;
+  const assumptions = parseFlipAssumptions(
+    (scenario.assumptions ?? {}) as Record<string, unknown>
+  ).overrides;
+
+  const saved = {
+    id: scenario.id,
+    propertyId: scenario.propertyId,
+    name: scenario.name,
+    arv: scenario.arv.toNumber(),
+    purchasePrice: scenario.purchasePrice?.toNumber() ?? null,
+    rehabItems,
+    assumptions,
+    createdAt: scenario.createdAt,
+    updatedAt: scenario.updatedAt,
+  };
+
+  try {
+    const analysis = analyzeFlip(
+      { price: property.price.toNumber(), sqft: property.sqft },
+      {
+        arv: saved.arv,
+        purchasePrice: saved.purchasePrice ?? undefined,
+        rehabItems,
+        assumptions,
+      }
+    );
+    return { ...saved, analysis, error: null };
+  } catch (error) {
+    return {
+      ...saved,
+      analysis: null,
+      error: error instanceof Error ? error.message : "Failed to analyze scenario",
+    };
+  }
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,44 @@
+export { analyzeRental, calculateMortgagePayment } from "./rental";
+export {
+  DEFAULT_ASSUMPTIONS,
+  parseAssumptionOverrides,
+  parseDefaultAssumptions,
+  getSavedAssumptions,
+  saveAssumptions,
+} from "./assumptions";
+export {
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  DEFAULT_BRRRR_ASSUMPTIONS,
+  parseProjectionParams,
+  projectRental,
+  calculateIrr,
+} from "./projection";
+export {
+  DEFAULT_FLIP_ASSUMPTIONS,
+  parseFlipAssumptions,
+  parseFlipScenarioInput,
+  analyzeFlip,
+} from "./flip";
+export { REHAB_TEMPLATES, findRehabTemplate, priceRehabItems, parseRehabItems } from "./rehab";
+export {
+  listFlipScenarios,
+  createFlipScenario,
+  updateFlipScenario,
+  deleteFlipScenario,
+  cleanup,
+} from "./flips";
+export type {
+  AnalysisProperty,
+  RentalAssumptions,
+  RentalAnalysis,
+  RehabLineItem,
+  RehabTemplate,
+  FlipAssumptions,
+  FlipScenarioInput,
+  FlipAnalysis,
+  ProjectionAssumptions,
+  BrrrrAssumptions,
+  ProjectionYear,
+  BrrrrResult,
+  ProjectionResult,
+} from "./types";
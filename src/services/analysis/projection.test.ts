@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calculateIrr,
+  parseProjectionParams,
+  projectRental,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  DEFAULT_BRRRR_ASSUMPTIONS,
+} from "./projection";
+import type { RentalAssumptions } from "./types";
+
+const property = { price: 100000, propertyType: "HOME" };
+
+// Rent minus flat taxes and insurance keeps the arithmetic readable
+const rental: RentalAssumptions = {
+  downPaymentPercent: 1,
+  interestRate: 0,
+  loanTermYears: 30,
+  closingCostPercent: 0,
+  propertyTaxRate: 0.01,
+  insuranceAnnual: 1200,
+  vacancyRate: 0,
+  managementRate: 0,
+  capexRate: 0,
+  monthlyRent: 1000,
+  rentToPriceRatio: 0.008,
+};
+
+const flat = {
+  years: 10,
+  rentGrowthRate: 0,
+  expenseInflationRate: 0,
+  appreciationRate: 0,
+  sellingCostPercent: 0,
+};
+
+describe("calculateIrr", () => {
+  test("finds the rate where NPV is zero", () => {
+    expect(calculateIrr([-100, 110])).toBeCloseTo(0.1, 6);
+    expect(calculateIrr([-1000, 0, 0, 1331])).toBeCloseTo(0.1, 6);
+  });
+
+  test("is null without a sign change", () => {
+    expect(calculateIrr([100, 10])).toBeNull();
+  });
+});
+
+describe("projectRental", () => {
+  test("an all-cash hold earns its NOI plus the sale", () => {
+    const result = projectRental(property, rental, flat);
+
+    expect(result.years).toHaveLength(10);
+    expect(result.years[0]).toMatchObject({
+      grossRent: 12000,
+      operatingExpenses: 2200,
+      netOperatingIncome: 9800,
+      debtService: 0,
+      cashFlow: 9800,
+      equity: 100000,
+    });
+    expect(result.sale.netProceeds).toBe(100000);
+    expect(result.cashFlows[10]).toBe(109800);
+    expect(result.totalProfit).toBe(98000);
+    expect(result.irr).toBe(0.098);
+    expect(result.equityMultiple).toBe(1.98);
+  });
+
+  test("grows rent, expenses and value each year", () => {
+    const result = projectRental(property, rental, {
+      ...flat,
+      rentGrowthRate: 0.1,
+      expenseInflationRate: 0.1,
+      appreciationRate: 0.1,
+    });
+
+    expect(result.years[1]!.grossRent).toBe(13200);
+    expect(result.years[1]!.operatingExpenses).toBe(2420);
+    expect(result.years[1]!.propertyValue).toBe(121000);
+  });
+
+  test("amortizes the loan and builds equity", () => {
+    const result = projectRental(
+      property,
+      { ...rental, downPaymentPercent: 0.25, interestRate: 0.06 },
+      { ...flat, years: 30 }
+    );
+
+    expect(result.initialCashInvested).toBe(25000);
+    expect(result.years[0]!.loanBalance).toBeLessThan(75000);
+    expect(result.years[0]!.equity).toBeGreaterThan(25000);
+    expect(result.years[29]!.loanBalance).toBe(0);
+    expect(result.sale.loanPayoff).toBe(0);
+  });
+
+  test("BRRRR refinances out most of the cash", () => {
+    const result = projectRental(
+      property,
+      { ...rental, downPaymentPercent: 0.2 },
+      flat,
+      { ...DEFAULT_BRRRR_ASSUMPTIONS, arv: 160000, rehabCost: 30000, refinanceRate: 0 }
+    );
+
+    expect(result.mode).toBe("brrrr");
+    expect(result.initialCashInvested).toBe(50000);
+    expect(result.years[0]!.grossRent).toBe(6000);
+    expect(result.brrrr).toMatchObject({
+      holdingCosts: 2433.33,
+      payoff: 78666.67,
+      newLoanAmount: 120000,
+      refinanceClosingCosts: 2400,
+      cashOut: 38933.33,
+      cashLeftInDeal: 13500,
+    });
+    expect(result.years[1]!.propertyValue).toBe(160000);
+  });
+
+  test("doesn't project land", () => {
+    expect(() =>
+      projectRental({ ...property, propertyType: "LAND" }, rental, DEFAULT_PROJECTION_ASSUMPTIONS)
+    ).toThrow("not supported for land");
+  });
+});
+
+describe("parseProjectionParams", () => {
+  test("validates ranges and whole years", () => {
+    expect(parseProjectionParams(new URLSearchParams("years=40&appreciationRate=x")).errors).toEqual([
+      "years must be between 10 and 30",
+      "appreciationRate must be a number",
+    ]);
+    expect(parseProjectionParams(new URLSearchParams("years=12.5")).errors).toEqual([
+      "years must be a whole number",
+    ]);
+  });
+
+  test("BRRRR needs an ARV and fills in refinance defaults", () => {
+    expect(parseProjectionParams(new URLSearchParams("mode=brrrr")).errors).toEqual([
+      "arv is required for a BRRRR projection",
+    ]);
+
+    const { brrrr, errors } = parseProjectionParams(
+      new URLSearchParams("mode=brrrr&arv=200000&refinanceLtv=0.7")
+    );
+    expect(errors).toEqual([]);
+    expect(brrrr).toEqual({ ...DEFAULT_BRRRR_ASSUMPTIONS, arv: 200000, refinanceLtv: 0.7 });
+  });
+
+  test("rejects unknown modes", () => {
+    expect(parseProjectionParams(new URLSearchParams("mode=flip")).errors).toEqual([
+      "mode must be hold or brrrr",
+    ]);
+  });
+});
@@ -0,0 +1,317 @@
+import { calculateMortgagePayment } from "./rental";
+import type {
+  AnalysisProperty,
+  BrrrrAssumptions,
+  BrrrrResult,
+  ProjectionAssumptions,
+  ProjectionResult,
+  ProjectionYear,
+  RentalAssumptions,
+} from "./types";
+
+/**
+ * Built-in growth assumptions for a pro forma
+ */
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+  years: 10,
+  rentGrowthRate: 0.03,
+  expenseInflationRate: 0.025,
+  appreciationRate: 0.03,
+  sellingCostPercent: 0.06,
+};
+
+/**
+ * Built-in refinance terms for BRRRR; arv has no default
+ */
+export const DEFAULT_BRRRR_ASSUMPTIONS: Omit<BrrrrAssumptions, "arv"> = {
+  rehabCost: 0,
+  refinanceMonths: 6,
+  refinanceLtv: 0.75,
+  refinanceRate: 0.075,
+  refinanceTermYears: 30,
+  refinanceClosingCostPercent: 0.02,
+};
+
+type Range = { min: number; max: number; integer?: boolean };
+
+// Valid range for each option - rates are fractions, not percents
+const PROJECTION_RANGES: Record<keyof ProjectionAssumptions, Range> = {
+  years: { min: 10, max: 30, integer: true },
+  rentGrowthRate: { min: -0.5, max: 1 },
+  expenseInflationRate: { min: -0.5, max: 1 },
+  appreciationRate: { min: -0.5, max: 1 },
+  sellingCostPercent: { min: 0, max: 1 },
+};
+
+const BRRRR_RANGES: Record<keyof BrrrrAssumptions, Range> = {
+  arv: { min: 1, max: Number.MAX_SAFE_INTEGER },
+  rehabCost: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  refinanceMonths: { min: 1, max: 60, integer: true },
+  refinanceLtv: { min: 0, max: 1 },
+  refinanceRate: { min: 0, max: 1 },
+  refinanceTermYears: { min: 1, max: 50, integer: true },
+  refinanceClosingCostPercent: { min: 0, max: 1 },
+};
+
+/**
+ * Validate pro forma options from query params
+ * mode=brrrr switches to a BRRRR projection, which needs an arv
+ * Rental assumptions are parsed separately with parseAssumptionOverrides
+ */
+export function parseProjectionParams(params: URLSearchParams): {
+  projection: Partial<ProjectionAssumptions>;
+  brrrr: BrrrrAssumptions | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const projection = parseRanges(params, PROJECTION_RANGES, errors);
+
+  const mode = params.get("mode") ?? "hold";
+  if (mode !== "hold" && mode !== "brrrr") {
+    errors.push("mode must be hold or brrrr");
+    return { projection, brrrr: null, errors };
+  }
+  if (mode === "hold") return { projection, brrrr: null, errors };
+
+  const brrrr = parseRanges(params, BRRRR_RANGES, errors);
+  if (!params.get("arv")) {
+    errors.push("arv is required for a BRRRR projection");
+  }
+
+  return {
+    projection,
+    brrrr: { ...DEFAULT_BRRRR_ASSUMPTIONS, ...brrrr } as BrrrrAssumptions,
+    errors,
+  };
+}
+
+/**
+ * Project a rental year by year, ending in a hypothetical sale
+ * With BRRRR assumptions, rehab is paid in cash, the property sits empty
+ * until the refinance, and the new loan pays off the purchase loan
+ */
+export function projectRental(
+  property: AnalysisProperty,
+  rental: RentalAssumptions,
+  projection: ProjectionAssumptions,
+  brrrr: BrrrrAssumptions | null = null
+): ProjectionResult {
+  if (property.propertyType === "LAND") {
+    throw new Error("Rental projection is not supported for land");
+  }
+
+  const purchasePrice = property.price;
+  if (!(purchasePrice > 0)) {
+    throw new Error(`Invalid purchase price: ${property.price}`);
+  }
+  if (brrrr && brrrr.refinanceMonths >= projection.years * 12) {
+    throw new Error("The refinance must happen before the end of the projection");
+  }
+
+  // Acquisition
+  const downPayment = purchasePrice * rental.downPaymentPercent;
+  const closingCosts = purchasePrice * rental.closingCostPercent;
+  const initialCashInvested = downPayment + closingCosts + (brrrr?.rehabCost ?? 0);
+
+  let loanBalance = purchasePrice - downPayment;
+  let monthlyPayment = calculateMortgagePayment(
+    loanBalance,
+    rental.interestRate,
+    rental.loanTermYears
+  );
+  let monthlyRate = rental.interestRate / 12;
+
+  // A rehabbed property rents (and is valued) at its ARV
+  const baseValue = brrrr?.arv ?? purchasePrice;
+  const rentEstimated = rental.monthlyRent === undefined;
+  const baseRent = rental.monthlyRent ?? baseValue * rental.rentToPriceRatio;
+
+  const years: ProjectionYear[] = [];
+  const cashFlows = [-initialCashInvested];
+  let cumulativeCashFlow = 0;
+  let brrrrResult: BrrrrResult | null = null;
+  let holdingCosts = 0;
+
+  for (let year = 1; year <= projection.years; year++) {
+    const rent = baseRent * Math.pow(1 + projection.rentGrowthRate, year - 1);
+    const inflation = Math.pow(1 + projection.expenseInflationRate, year - 1);
+    const fixedExpenses =
+      ((purchasePrice * rental.propertyTaxRate + rental.insuranceAnnual) / 12) * inflation;
+
+    let grossRent = 0;
+    let operatingExpenses = 0;
+    let debtService = 0;
+    let refinanceCashOut = 0;
+
+    for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+      // No rent while the property is being rehabbed
+      const rehabbing = brrrr !== null && month <= brrrr.refinanceMonths;
+      const monthRent = rehabbing ? 0 : rent;
+      const vacancy = monthRent * rental.vacancyRate;
+      const management = (monthRent - vacancy) * rental.managementRate;
+      const capex = monthRent * rental.capexRate;
+      const expenses = vacancy + management + capex + fixedExpenses;
+
+      const payment = Math.min(monthlyPayment, loanBalance * (1 + monthlyRate));
+      loanBalance = Math.max(0, loanBalance * (1 + monthlyRate) - payment);
+
+      grossRent += monthRent;
+      operatingExpenses += expenses;
+      debtService += payment;
+      if (rehabbing) holdingCosts += expenses + payment;
+
+      if (brrrr && month === brrrr.refinanceMonths) {
+        brrrrResult = refinance(brrrr, loanBalance, initialCashInvested, holdingCosts);
+        refinanceCashOut = brrrrResult.cashOut;
+        loanBalance = brrrr.arv * brrrr.refinanceLtv;
+        monthlyPayment = calculateMortgagePayment(
+          loanBalance,
+          brrrr.refinanceRate,
+          brrrr.refinanceTermYears
+        );
+        monthlyRate = brrrr.refinanceRate / 12;
+      }
+    }
+
+    const netOperatingIncome = grossRent - operatingExpenses;
+    const cashFlow = netOperatingIncome - debtService;
+    const propertyValue = baseValue * Math.pow(1 + projection.appreciationRate, year);
+    cumulativeCashFlow += cashFlow;
+    cashFlows.push(cashFlow + refinanceCashOut);
+
+    years.push({
+      year,
+      grossRent: roundCurrency(grossRent),
+      operatingExpenses: roundCurrency(operatingExpenses),
+      netOperatingIncome: roundCurrency(netOperatingIncome),
+      debtService: roundCurrency(debtService),
+      cashFlow: roundCurrency(cashFlow),
+      propertyValue: roundCurrency(propertyValue),
+      loanBalance: roundCurrency(loanBalance),
+      equity: roundCurrency(propertyValue - loanBalance),
+      cumulativeCashFlow: roundCurrency(cumulativeCashFlow),
+    });
+  }
+
+  // Hypothetical sale at the end of the last year
+  const salePrice = baseValue * Math.pow(1 + projection.appreciationRate, projection.years);
+  const sellingCosts = salePrice * projection.sellingCostPercent;
+  const netProceeds = salePrice - sellingCosts - loanBalance;
+  cashFlows.push(cashFlows.pop()! + netProceeds);
+
+  const returned = cashFlows.slice(1).reduce((sum, flow) => sum + flow, 0);
+
+  return {
+    mode: brrrr ? "brrrr" : "hold",
+    assumptions: { ...rental, ...projection },
+    rentEstimated,
+    initialCashInvested: roundCurrency(initialCashInvested),
+    brrrr: brrrrResult,
+    years,
+    sale: {
+      salePrice: roundCurrency(salePrice),
+      sellingCosts: roundCurrency(sellingCosts),
+      loanPayoff: roundCurrency(loanBalance),
+      netProceeds: roundCurrency(netProceeds),
+    },
+    cashFlows: cashFlows.map(roundCurrency),
+    totalProfit: roundCurrency(returned - initialCashInvested),
+    irr: nullableRatio(calculateIrr(cashFlows)),
+    equityMultiple: initialCashInvested > 0 ? roundRatio(returned / initialCashInvested) : null,
+  };
+}
+
+/**
+ * Annual internal rate of return for cash flows starting at year 0
+ * Returns null unless there's a rate between -99% and 1000% where NPV crosses zero
+ */
+export function calculateIrr(cashFlows: number[]): number | null {
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, flow, year) => sum + flow / Math.pow(1 + rate, year), 0);
+
+  let low = -0.99;
+  let high = 10;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+
+  // NPV falls as the rate rises for an investment's cash flows, so bisect
+  for (let i = 0; i < 200 && high - low > 1e-9; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (npvMid * npvLow > 0) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Replace the purchase loan with a cash-out refinance at the target LTV
+ */
+function refinance(
+  brrrr: BrrrrAssumptions,
+  payoff: number,
+  initialCashInvested: number,
+  holdingCosts: number
+): BrrrrResult {
+  const newLoanAmount = brrrr.arv * brrrr.refinanceLtv;
+  const refinanceClosingCosts = newLoanAmount * brrrr.refinanceClosingCostPercent;
+  const cashOut = newLoanAmount - payoff - refinanceClosingCosts;
+
+  return {
+    assumptions: brrrr,
+    holdingCosts: roundCurrency(holdingCosts),
+    payoff: roundCurrency(payoff),
+    newLoanAmount: roundCurrency(newLoanAmount),
+    refinanceClosingCosts: roundCurrency(refinanceClosingCosts),
+    cashOut: roundCurrency(cashOut),
+    cashLeftInDeal: roundCurrency(initialCashInvested + holdingCosts - cashOut),
+    newMonthlyPayment: roundCurrency(
+      calculateMortgagePayment(newLoanAmount, brrrr.refinanceRate, brrrr.refinanceTermYears)
+    ),
+  };
+}
+
+function parseRanges<K extends string>(
+  params: URLSearchParams,
+  ranges: Record<K, Range>,
+  errors: string[]
+): Partial<Record<K, number>> {
+  const values: Partial<Record<K, number>> = {};
+
+  for (const key of Object.keys(ranges) as K[]) {
+    const raw = params.get(key);
+    if (raw === null || raw === "") continue;
+
+    const value = Number(raw);
+    const range = ranges[key];
+
+    if (!Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (value < range.min || value > range.max) {
+      errors.push(`${key} must be between ${range.min} and ${range.max}`);
+    } else if (range.integer && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    } else {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+function nullableRatio(value: number | null): number | null {
+  return value === null ? null : roundRatio(value);
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
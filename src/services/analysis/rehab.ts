@@ -0,0 +1,120 @@
+import type { RehabLineItem, RehabTemplate } from "./types";
+
+const MAX_LINE_ITEMS = 100;
+
+/**
+ * Starting points for a rehab budget
+ * Per-sqft lines scale with the property's size; fixed lines are typical
+ * costs for one kitchen, bath or roof
+ */
+export const REHAB_TEMPLATES: RehabTemplate[] = [
+  {
+    name: "cosmetic",
+    label: "Cosmetic",
+    description: "Paint, flooring, fixtures and curb appeal",
+    items: [
+      { category: "Interior paint", costPerSqft: 2.5 },
+      { category: "Flooring", costPerSqft: 4 },
+      { category: "Fixtures & lighting", costPerSqft: 1 },
+      { category: "Cleanup & landscaping", cost: 1500 },
+    ],
+  },
+  {
+    name: "kitchen-bath",
+    label: "Kitchen & bath",
+    description: "Cosmetic plus a kitchen and bathroom remodel",
+    items: [
+      { category: "Interior paint", costPerSqft: 2.5 },
+      { category: "Flooring", costPerSqft: 4 },
+      { category: "Fixtures & lighting", costPerSqft: 1.5 },
+      { category: "Kitchen", cost: 15000 },
+      { category: "Bathrooms", cost: 8000 },
+      { category: "Cleanup & landscaping", cost: 2500 },
+    ],
+  },
+  {
+    name: "full-gut",
+    label: "Full gut",
+    description: "Down to the studs: systems, roof, kitchen, baths and finishes",
+    items: [
+      { category: "Demolition & dumpsters", costPerSqft: 3 },
+      { category: "Framing & drywall", costPerSqft: 10 },
+      { category: "Electrical", costPerSqft: 6 },
+      { category: "Plumbing", costPerSqft: 6 },
+      { category: "HVAC", cost: 9000 },
+      { category: "Roof", cost: 12000 },
+      { category: "Kitchen", cost: 25000 },
+      { category: "Bathrooms", cost: 15000 },
+      { category: "Flooring", costPerSqft: 5 },
+      { category: "Interior paint", costPerSqft: 3 },
+      { category: "Permits", cost: 3000 },
+    ],
+  },
+];
+
+export function findRehabTemplate(name: string): RehabTemplate | undefined {
+  return REHAB_TEMPLATES.find((template) => template.name === name);
+}
+
+/**
+ * Price each line item for a property
+ * Per-sqft lines need the property's square footage
+ */
+export function priceRehabItems(
+  items: RehabLineItem[],
+  sqft?: number | null
+): { items: (RehabLineItem & { amount: number })[]; subtotal: number } {
+  const priced = items.map((item) => {
+    if (item.costPerSqft === undefined) return { ...item, amount: item.cost ?? 0 };
+    if (!sqft) {
+      throw new Error(`${item.category} is priced per sqft, but the property's sqft is unknown`);
+    }
+    return { ...item, amount: item.costPerSqft * sqft };
+  });
+
+  return { items: priced, subtotal: priced.reduce((sum, item) => sum + item.amount, 0) };
+}
+
+/**
+ * Validate rehab line items from a JSON body
+ * Each needs a category and exactly one of cost or costPerSqft
+ */
+export function parseRehabItems(raw: unknown): { items: RehabLineItem[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { items: [], errors: ["rehabItems must be a list"] };
+  if (raw.length > MAX_LINE_ITEMS) {
+    return { items: [], errors: [`rehabItems must have at most ${MAX_LINE_ITEMS} lines`] };
+  }
+
+  const items: RehabLineItem[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((entry, i) => {
+    const line = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const field = `rehabItems[${i}]`;
+    const category = typeof line.category === "string" ? line.category.trim() : "";
+    const description =
+      typeof line.description === "string" && line.description.trim()
+        ? line.description.trim()
+        : undefined;
+    const cost = amount(line.cost);
+    const costPerSqft = amount(line.costPerSqft);
+
+    if (!category) errors.push(`${field}.category is required`);
+    if (cost === null || costPerSqft === null) {
+      errors.push(`${field} amounts must be numbers of at least 0`);
+    } else if ((cost === undefined) === (costPerSqft === undefined)) {
+      errors.push(`${field} must have either cost or costPerSqft`);
+    } else if (category) {
+      items.push({ category, description, cost, costPerSqft });
+    }
+  });
+
+  return { items: errors.length > 0 ? [] : items, errors };
+}
+
+/** undefined when absent, null when not a non-negative number */
+function amount(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
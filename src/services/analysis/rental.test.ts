@@ -0,0 +1,128 @@
+import { describe, expect, mock, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+import { analyzeRental, calculateMortgagePayment } from "./rental";
+import type { RentalAssumptions } from "./types";
+
+// assumptions.ts opens a database client on import; only its parser is tested here
+class FakePrismaClient {
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+
+const { DEFAULT_ASSUMPTIONS, parseAssumptionOverrides, parseDefaultAssumptions } = await import(
+  "./assumptions"
+);
+
+const property = { price: 200000, propertyType: "HOME" };
+
+describe("calculateMortgagePayment", () => {
+  test("amortizes a fixed-rate loan", () => {
+    expect(calculateMortgagePayment(150000, 0.07, 30)).toBeCloseTo(997.95, 2);
+    expect(calculateMortgagePayment(100000, 0.06, 15)).toBeCloseTo(843.86, 2);
+  });
+
+  test("spreads a 0% loan evenly over the term", () => {
+    expect(calculateMortgagePayment(120000, 0, 10)).toBe(1000);
+  });
+
+  test("nothing is owed without a loan", () => {
+    expect(calculateMortgagePayment(0, 0.07, 30)).toBe(0);
+  });
+});
+
+describe("analyzeRental", () => {
+  test("runs the numbers for a financed rental", () => {
+    const analysis = analyzeRental(property, { ...DEFAULT_ASSUMPTIONS, monthlyRent: 1800 });
+
+    expect(analysis).toMatchObject({
+      rentEstimated: false,
+      downPayment: 50000,
+      closingCosts: 6000,
+      totalCashInvested: 56000,
+      loanAmount: 150000,
+      monthlyMortgagePayment: 997.95,
+      grossMonthlyRent: 1800,
+      monthlyExpenses: {
+        vacancy: 144,
+        management: 165.6,
+        capex: 90,
+        taxes: 166.67,
+        insurance: 125,
+        total: 691.27,
+      },
+      netOperatingIncome: 13304.8,
+      capRate: 0.0665,
+      cashOnCashReturn: 0.0237,
+      debtServiceCoverageRatio: 1.111,
+      monthlyCashFlow: 110.78,
+      annualCashFlow: 1329.36,
+    });
+  });
+
+  test("estimates rent from the rent-to-price ratio when none is given", () => {
+    const analysis = analyzeRental(property, DEFAULT_ASSUMPTIONS);
+
+    expect(analysis.rentEstimated).toBe(true);
+    expect(analysis.grossMonthlyRent).toBe(1600);
+  });
+
+  test("an all-cash purchase has no debt service", () => {
+    const cash: RentalAssumptions = { ...DEFAULT_ASSUMPTIONS, downPaymentPercent: 1 };
+    const analysis = analyzeRental(property, cash);
+
+    expect(analysis.loanAmount).toBe(0);
+    expect(analysis.debtServiceCoverageRatio).toBeNull();
+    expect(analysis.annualCashFlow).toBe(analysis.netOperatingIncome);
+  });
+
+  test("rejects land and properties without a price", () => {
+    expect(() => analyzeRental({ price: 50000, propertyType: "LAND" }, DEFAULT_ASSUMPTIONS)).toThrow(
+      "Rental analysis is not supported for land"
+    );
+    expect(() => analyzeRental({ price: 0, propertyType: "HOME" }, DEFAULT_ASSUMPTIONS)).toThrow(
+      "Invalid purchase price: 0"
+    );
+  });
+});
+
+describe("parseAssumptionOverrides", () => {
+  test("reads numbers from query params", () => {
+    const params = new URLSearchParams({ interestRate: "0.065", monthlyRent: "1750", foo: "1" });
+
+    expect(parseAssumptionOverrides(params)).toEqual({
+      overrides: { interestRate: 0.065, monthlyRent: 1750 },
+      errors: [],
+    });
+  });
+
+  test("rejects out-of-range and malformed values", () => {
+    const { overrides, errors } = parseAssumptionOverrides({
+      downPaymentPercent: 25,
+      interestRate: -0.01,
+      loanTermYears: 30.5,
+      vacancyRate: "lots",
+      capexRate: 0.05,
+    });
+
+    expect(overrides).toEqual({ capexRate: 0.05 });
+    expect(errors).toEqual([
+      "downPaymentPercent must be between 0 and 1",
+      "interestRate must be between 0 and 1",
+      "loanTermYears must be a whole number",
+      "vacancyRate must be a number",
+    ]);
+  });
+});
+
+describe("parseDefaultAssumptions", () => {
+  test("keeps rent out of the team defaults", () => {
+    expect(parseDefaultAssumptions({ vacancyRate: 0.05, monthlyRent: 1800 })).toEqual({
+      overrides: { vacancyRate: 0.05 },
+      errors: ["monthlyRent is specific to a property and can't be a team default"],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import type {
+  AnalysisProperty,
+  RentalAssumptions,
+  RentalAnalysis,
+} from "./types";
+
+/**
+ * Calculate the monthly principal & interest payment for a fixed-rate loan
+ */
+export function calculateMortgagePayment(
+  loanAmount: number,
+  annualRate: number,
+  termYears: number
+): number {
+  if (loanAmount <= 0) return 0;
+
+  const payments = termYears * 12;
+  const monthlyRate = annualRate / 12;
+
+  // Zero-interest loans are just the principal spread evenly
+  if (monthlyRate === 0) return loanAmount / payments;
+
+  const factor = Math.pow(1 + monthlyRate, payments);
+  return (loanAmount * monthlyRate * factor) / (factor - 1);
+}
+
+/**
+ * Run a buy-and-hold rental analysis for a property
+ * Returns mortgage payment, NOI, cap rate, cash-on-cash return, DSCR and cash flow
+ */
+export function analyzeRental(
+  property: AnalysisProperty,
+  assumptions: RentalAssumptions
+): RentalAnalysis {
+  if (property.propertyType === "LAND") {
+    throw new Error("Rental analysis is not supported for land");
+  }
+
+  const purchasePrice = property.price;
+  if (!(purchasePrice > 0)) {
+    throw new Error(`Invalid purchase price: ${property.price}`);
+  }
+
+  // Financing
+  const downPayment = purchasePrice * assumptions.downPaymentPercent;
+  const closingCosts = purchasePrice * assumptions.closingCostPercent;
+  const totalCashInvested = downPayment + closingCosts;
+  const loanAmount = purchasePrice - downPayment;
+  const monthlyMortgagePayment = calculateMortgagePayment(
+    loanAmount,
+    assumptions.interestRate,
+    assumptions.loanTermYears
+  );
+
+  // Income - fall back to the rent-to-price rule when no rent is given
+  const rentEstimated = assumptions.monthlyRent === undefined;
+  const grossMonthlyRent =
+    assumptions.monthlyRent ?? purchasePrice * assumptions.rentToPriceRatio;
+
+  // Operating expenses (monthly)
+  const vacancy = grossMonthlyRent * assumptions.vacancyRate;
+  const management = (grossMonthlyRent - vacancy) * assumptions.managementRate;
+  const capex = grossMonthlyRent * assumptions.capexRate;
+  const taxes = (purchasePrice * assumptions.propertyTaxRate) / 12;
+  const insurance = assumptions.insuranceAnnual / 12;
+  const totalExpenses = vacancy + management + capex + taxes + insurance;
+
+  // Returns
+  const netOperatingIncome = (grossMonthlyRent - totalExpenses) * 12;
+  const annualDebtService = monthlyMortgagePayment * 12;
+  const annualCashFlow = netOperatingIncome - annualDebtService;
+
+  return {
+    assumptions,
+    rentEstimated,
+    purchasePrice: roundCurrency(purchasePrice),
+    downPayment: roundCurrency(downPayment),
+    closingCosts: roundCurrency(closingCosts),
+    totalCashInvested: roundCurrency(totalCashInvested),
+    loanAmount: roundCurrency(loanAmount),
+    monthlyMortgagePayment: roundCurrency(monthlyMortgagePayment),
+    grossMonthlyRent: roundCurrency(grossMonthlyRent),
+    monthlyExpenses: {
+      vacancy: roundCurrency(vacancy),
+      management: roundCurrency(management),
+      capex: roundCurrency(capex),
+      taxes: roundCurrency(taxes),
+      insurance: roundCurrency(insurance),
+      total: roundCurrency(totalExpenses),
+    },
+    netOperatingIncome: roundCurrency(netOperatingIncome),
+    capRate: roundRatio(netOperatingIncome / purchasePrice),
+    cashOnCashReturn:
+      totalCashInvested > 0 ? roundRatio(annualCashFlow / totalCashInvested) : 0,
+    // DSCR is undefined for all-cash purchases
+    debtServiceCoverageRatio:
+      annualDebtService > 0
+        ? roundRatio(netOperatingIncome / annualDebtService)
+        : null,
+    monthlyCashFlow: roundCurrency(annualCashFlow / 12),
+    annualCashFlow: roundCurrency(annualCashFlow),
+  };
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,208 @@
+export interface AnalysisProperty {
+  price: number;
+  beds?: number | null;
+  baths?: number | null;
+  sqft?: number | null;
+  propertyType: string;
+}
+
+export interface RentalAssumptions {
+  // Financing
+  downPaymentPercent: number; // 0.25 = 25% down
+  interestRate: number; // Annual rate, 0.07 = 7%
+  loanTermYears: number;
+  closingCostPercent: number; // Of purchase price, paid in cash
+
+  // Operating Expenses
+  propertyTaxRate: number; // Annual, of purchase price
+  insuranceAnnual: number;
+  vacancyRate: number; // Of gross rent
+  managementRate: number; // Of collected rent
+  capexRate: number; // Of gross rent
+
+  // Income
+  monthlyRent?: number; // Estimated from rentToPriceRatio when omitted
+  rentToPriceRatio: number; // 0.008 = 0.8% of price per month
+}
+
+export interface RentalAnalysis {
+  assumptions: RentalAssumptions;
+  rentEstimated: boolean;
+
+  // Financing
+  purchasePrice: number;
+  downPayment: number;
+  closingCosts: number;
+  totalCashInvested: number;
+  loanAmount: number;
+  monthlyMortgagePayment: number;
+
+  // Income & Expenses (monthly)
+  grossMonthlyRent: number;
+  monthlyExpenses: {
+    vacancy: number;
+    management: number;
+    capex: number;
+    taxes: number;
+    insurance: number;
+    total: number;
+  };
+
+  // Returns
+  netOperatingIncome: number; // Annual
+  capRate: number;
+  cashOnCashReturn: number;
+  debtServiceCoverageRatio: number | null;
+  monthlyCashFlow: number;
+  annualCashFlow: number;
+}
+
+/**
+ * One line of a rehab budget, priced either as a fixed cost or per square foot
+ */
+export interface RehabLineItem {
+  category: string;
+  description?: string;
+  cost?: number;
+  costPerSqft?: number;
+}
+
+export interface RehabTemplate {
+  name: string;
+  label: string;
+  description: string;
+  items: RehabLineItem[]; // Per-sqft items scale with Property.sqft
+}
+
+export interface FlipAssumptions {
+  // Financing (interest-only hard money loan on the purchase)
+  financedPercent: number; // Of purchase price, 0.9 = 90% financed
+  interestRate: number; // Annual rate
+  loanPoints: number; // Of loan amount, paid at closing
+
+  // Costs
+  purchaseClosingCostPercent: number; // Of purchase price
+  sellingCostPercent: number; // Of ARV: commissions, seller closing costs
+  rehabContingencyPercent: number; // Added to the rehab budget
+
+  // Holding
+  holdingMonths: number;
+  propertyTaxRate: number; // Annual, of purchase price
+  insuranceMonthly: number;
+  utilitiesMonthly: number;
+
+  // The 70% rule: offer at most ARV * maoPercent - rehab
+  maoPercent: number;
+}
+
+/** What a saved flip scenario holds; the analysis is recomputed on every read */
+export interface FlipScenarioInput {
+  name: string;
+  arv: number;
+  purchasePrice?: number | null; // Defaults to the property's price
+  rehabItems: RehabLineItem[];
+  assumptions: Partial<FlipAssumptions>;
+}
+
+export interface FlipAnalysis {
+  assumptions: FlipAssumptions;
+  arv: number;
+  purchasePrice: number;
+
+  rehab: {
+    items: (RehabLineItem & { amount: number })[];
+    subtotal: number;
+    contingency: number;
+    total: number;
+  };
+
+  // Financing
+  loanAmount: number;
+  loanPointsCost: number;
+
+  // Costs
+  purchaseClosingCosts: number;
+  holdingCosts: {
+    interest: number;
+    taxes: number;
+    insurance: number;
+    utilities: number;
+    monthly: number;
+    total: number;
+  };
+  sellingCosts: number;
+  totalProjectCost: number;
+  cashInvested: number;
+
+  // Returns
+  projectedProfit: number;
+  roi: number; // Profit / cash invested
+  annualizedRoi: number;
+  profitMargin: number; // Profit / ARV
+  maximumAllowableOffer: number;
+  meetsMaoRule: boolean; // Purchase price at or under the MAO
+}
+
+export interface ProjectionAssumptions {
+  years: number; // Length of the pro forma, 10-30
+  rentGrowthRate: number; // Annual
+  expenseInflationRate: number; // Annual, for taxes and insurance
+  appreciationRate: number; // Annual, of property value
+  sellingCostPercent: number; // Of sale price on the hypothetical sale in the last year
+}
+
+export interface BrrrrAssumptions {
+  arv: number; // After-repair value, used as the refinance appraisal
+  rehabCost: number; // Paid in cash; no rent comes in until the refinance
+  refinanceMonths: number; // Months after purchase
+  refinanceLtv: number; // Of ARV
+  refinanceRate: number; // Annual rate
+  refinanceTermYears: number;
+  refinanceClosingCostPercent: number; // Of the new loan
+}
+
+export interface ProjectionYear {
+  year: number;
+  grossRent: number;
+  operatingExpenses: number; // Vacancy, management, capex, taxes, insurance
+  netOperatingIncome: number;
+  debtService: number;
+  cashFlow: number; // From operations, before any refinance or sale
+  propertyValue: number; // End of year
+  loanBalance: number; // End of year
+  equity: number;
+  cumulativeCashFlow: number;
+}
+
+export interface BrrrrResult {
+  assumptions: BrrrrAssumptions;
+  holdingCosts: number; // Carrying costs until the refinance, with no rent
+  payoff: number; // Original loan balance at the refinance
+  newLoanAmount: number;
+  refinanceClosingCosts: number;
+  cashOut: number;
+  cashLeftInDeal: number; // Zero or less means all cash came back out
+  newMonthlyPayment: number;
+}
+
+export interface ProjectionResult {
+  mode: "hold" | "brrrr";
+  assumptions: RentalAssumptions & ProjectionAssumptions;
+  rentEstimated: boolean;
+  initialCashInvested: number;
+  brrrr: BrrrrResult | null;
+  years: ProjectionYear[];
+
+  // Hypothetical sale at the end of the last year
+  sale: {
+    salePrice: number;
+    sellingCosts: number;
+    loanPayoff: number;
+    netProceeds: number;
+  };
+
+  cashFlows: number[]; // Year 0 (cash invested) through the sale year, for IRR
+  totalProfit: number;
+  irr: number | null; // Null when the cash flows have no IRR
+  equityMultiple: number | null; // Everything returned / cash invested; null for no cash in
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+
+// Two signups for one email: both pass the existence check, only one insert wins
+let createUser: () => Promise<unknown>;
+let userCount = 0;
+
+class FakePrismaClient {
+  user = {
+    findUnique: async () => null,
+    count: async () => userCount,
+    create: () => createUser(),
+  };
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+
+const { isSignupAllowed, signup } = await import("./accounts");
+
+const input = {
+  firstName: "Sam",
+  lastName: "Rivera",
+  email: "sam@example.com",
+  password: "correct horse battery",
+};
+
+describe("signup", () => {
+  test("losing a race for the same email counts as already registered", async () => {
+    createUser = async () => {
+      throw new prismaModule.Prisma.PrismaClientKnownRequestError(
+        "Unique constraint failed on the fields: (`email`)",
+        { code: "P2002", clientVersion: "test" }
+      );
+    };
+
+    expect(await signup(input)).toBeNull();
+  });
+
+  test("other database errors still surface", async () => {
+    createUser = async () => {
+      throw new Error("connection lost");
+    };
+
+    await expect(signup(input)).rejects.toThrow("connection lost");
+  });
+});
+
+describe("isSignupAllowed", () => {
+  afterEach(() => {
+    delete process.env.SIGNUP_ALLOWLIST;
+    userCount = 0;
+  });
+
+  test("without an allowlist only the first account can be created", async () => {
+    expect(await isSignupAllowed("first@example.com")).toBe(true);
+
+    userCount = 1;
+    expect(await isSignupAllowed("second@example.com")).toBe(false);
+  });
+
+  test("an allowlist admits listed emails and domains", async () => {
+    process.env.SIGNUP_ALLOWLIST = "pat@partner.com, @example.com";
+    userCount = 3;
+
+    expect(await isSignupAllowed("Sam@Example.com")).toBe(true);
+    expect(await isSignupAllowed("pat@partner.com")).toBe(true);
+    expect(await isSignupAllowed("lee@partner.com")).toBe(false);
+    expect(await isSignupAllowed("sam@example.com.evil.io")).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { PrismaClient, Prisma } from "../../../generated/prisma";
+import { hashPassword, verifyPassword } from "./password";
+import { toPublicUser } from "./session";
+import type { PublicUser, SignupInput } from "./types";
+
+const prisma = new PrismaClient();
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Validate a signup request body
+ */
+export function validateSignup(body: unknown): {
+  input?: SignupInput;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const data = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+
+  const firstName = typeof data.firstName === "string" ? data.firstName.trim() : "";
+  const lastName = typeof data.lastName === "string" ? data.lastName.trim() : "";
+  const email = typeof data.email === "string" ? normalizeEmail(data.email) : "";
+  const password = typeof data.password === "string" ? data.password : "";
+
+  if (!firstName) errors.push("firstName is required");
+  if (!lastName) errors.push("lastName is required");
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push("email must be a valid email address");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input: { firstName, lastName, email, password }, errors };
+}
+
+/**
+ * Whether an email may create an account
+ * SIGNUP_ALLOWLIST takes emails and domains, e.g. "pat@example.com,example.org";
+ * without one, only the first account can be created
+ */
+export async function isSignupAllowed(email: string): Promise<boolean> {
+  const allowlist = (process.env.SIGNUP_ALLOWLIST || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean);
+
+  if (allowlist.length === 0) return (await prisma.user.count()) === 0;
+
+  const address = normalizeEmail(email);
+  const domain = address.slice(address.lastIndexOf("@") + 1);
+  return allowlist.includes(address) || allowlist.includes(domain);
+}
+
+/**
+ * Create a new user account
+ * Returns null if the email is already registered
+ */
+export async function signup(input: SignupInput): Promise<PublicUser | null> {
+  const existing = await prisma.user.findUnique({
+    where: { email: input.email },
+  });
+
+  if (existing) return null;
+
+  let user;
+  try {
+    user = await prisma.user.create({
+      data: {
+        firstName: input.firstName,
+        lastName: input.lastName,
+        email: input.email,
+        password: await hashPassword(input.password),
+      },
+    });
+  } catch (error) {
+    // A concurrent signup can take the email between the check and the insert
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+
+  console.log(`👤 Created user account: ${user.email}`);
+  return toPublicUser(user);
+}
+
+/**
+ * Check credentials and return the user on success
+ */
+export async function login(
+  email: string,
+  password: string
+): Promise<PublicUser | null> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+
+  // Users created before accounts existed have no password and can't log in
+  if (!user?.password) return null;
+
+  const valid = await verifyPassword(password, user.password);
+  return valid ? toPublicUser(user) : null;
+}
+
+/**
+ * Every user, by name, e.g. for assigning deals
+ */
+export async function listUsers(): Promise<PublicUser[]> {
+  const users = await prisma.user.findMany({
+    orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+  });
+  return users.map(toPublicUser);
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
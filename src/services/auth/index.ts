@@ -0,0 +1,16 @@
+export { hashPassword, verifyPassword } from "./password";
+export {
+  createSession,
+  getSessionUser,
+  deleteSession,
+  toPublicUser,
+  SESSION_COOKIE,
+} from "./session";
+export { validateSignup, isSignupAllowed, signup, login, listUsers } from "./accounts";
+export {
+  getCurrentUser,
+  requireAuth,
+  setSessionCookie,
+  clearSessionCookie,
+} from "./middleware";
+export type { PublicUser, SignupInput } from "./types";
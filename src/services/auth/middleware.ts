@@ -0,0 +1,66 @@
+import type { BunRequest } from "bun";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_DAYS,
+  getSessionUser,
+} from "./session";
+import type { PublicUser } from "./types";
+
+/**
+ * Get the logged-in user for a request, or null
+ */
+export async function getCurrentUser(req: BunRequest): Promise<PublicUser | null> {
+  const token = req.cookies.get(SESSION_COOKIE);
+  if (!token) return null;
+  return getSessionUser(token);
+}
+
+/**
+ * Wrap a route handler so it only runs for logged-in users
+ * Responds 401 when there is no valid session
+ */
+export function requireAuth<T extends string>(
+  handler: (req: BunRequest<T>, user: PublicUser) => Response | Promise<Response>
+): (req: BunRequest<T>) => Promise<Response> {
+  return async (req) => {
+    let user: PublicUser | null;
+    try {
+      user = await getCurrentUser(req);
+    } catch (error) {
+      return Response.json(
+        { error: "Failed to verify session" },
+        { status: 500 }
+      );
+    }
+
+    if (!user) {
+      return Response.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return handler(req, user);
+  };
+}
+
+/**
+ * Attach the session cookie to the response for this request
+ */
+export function setSessionCookie(req: BunRequest, token: string, expiresAt: Date) {
+  req.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+    maxAge: SESSION_TTL_DAYS * 24 * 60 * 60,
+  });
+}
+
+/**
+ * Expire the session cookie
+ */
+export function clearSessionCookie(req: BunRequest) {
+  req.cookies.delete({ name: SESSION_COOKIE, path: "/" });
+}
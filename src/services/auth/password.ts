@@ -0,0 +1,21 @@
+/**
+ * Hash a plain-text password (argon2id via Bun's built-in hasher)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return Bun.password.hash(password);
+}
+
+/**
+ * Check a plain-text password against a stored hash
+ */
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  try {
+    return await Bun.password.verify(password, hash);
+  } catch {
+    // Malformed hashes (e.g. legacy plain values) never match
+    return false;
+  }
+}
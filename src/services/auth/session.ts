@@ -0,0 +1,74 @@
+import { PrismaClient } from "../../../generated/prisma";
+import type { PublicUser } from "./types";
+
+const prisma = new PrismaClient();
+
+export const SESSION_COOKIE = "session";
+export const SESSION_TTL_DAYS = 30;
+
+/**
+ * Create a session for a user
+ * Returns the raw token to put in the cookie; only its hash is stored
+ */
+export async function createSession(
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = Buffer.from(
+    crypto.getRandomValues(new Uint8Array(32))
+  ).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.session.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Look up the user for a session token
+ * Expired sessions are deleted and treated as missing
+ */
+export async function getSessionUser(token: string): Promise<PublicUser | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  if (session.expiresAt <= new Date()) {
+    await prisma.session.delete({ where: { id: session.id } });
+    return null;
+  }
+
+  return toPublicUser(session.user);
+}
+
+/**
+ * Delete the session for a token (logout)
+ */
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * Strip the password hash from a user record before it leaves the server
+ */
+export function toPublicUser(user: {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}): PublicUser {
+  return {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+  };
+}
+
+function hashToken(token: string): string {
+  return new Bun.CryptoHasher("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,46 @@
+import { describe, expect, mock, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+
+// Two requests to track one property: both pass the existence check, only one insert wins
+let insertDeal: () => Promise<unknown>;
+
+class FakePrismaClient {
+  property = {
+    findUnique: async () => ({ id: "property-1", deal: null }),
+  };
+  deal = {
+    create: () => insertDeal(),
+    findUnique: async () => ({ id: "deal-1" }),
+  };
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+
+const { createDeal } = await import("./deals");
+
+const input = { propertyId: "property-1", stage: "LEAD" as const };
+
+describe("createDeal", () => {
+  test("losing a race for the same property returns the existing deal", async () => {
+    insertDeal = async () => {
+      throw new prismaModule.Prisma.PrismaClientKnownRequestError(
+        "Unique constraint failed on the fields: (`propertyId`)",
+        { code: "P2002", clientVersion: "test" }
+      );
+    };
+
+    expect(await createDeal(input)).toEqual({ duplicateId: "deal-1" });
+  });
+
+  test("other database errors still surface", async () => {
+    insertDeal = async () => {
+      throw new Error("connection lost");
+    };
+
+    await expect(createDeal(input)).rejects.toThrow("connection lost");
+  });
+});
@@ -0,0 +1,249 @@
+import { PrismaClient, Prisma } from "../../../generated/prisma";
+import type { DealInput, DealUpdate, TaskInput, InvalidInput } from "./types";
+
+const prisma = new PrismaClient();
+
+const userSelect = { id: true, firstName: true, lastName: true, email: true } as const;
+
+const propertySelect = {
+  id: true,
+  street: true,
+  city: true,
+  state: true,
+  price: true,
+  status: true,
+  propertyType: true,
+  beds: true,
+  baths: true,
+  sqft: true,
+} as const;
+
+// What a board card needs: the property, assignee, and the next open task
+const boardInclude = {
+  property: { select: propertySelect },
+  assignee: { select: userSelect },
+  tasks: {
+    where: { completedAt: null },
+    orderBy: { dueAt: "asc" as const },
+    take: 1,
+  },
+  _count: { select: { tasks: { where: { completedAt: null } } } },
+};
+
+const detailInclude = {
+  property: { select: propertySelect },
+  assignee: { select: userSelect },
+  notes: {
+    orderBy: { createdAt: "desc" as const },
+    include: { author: { select: userSelect } },
+  },
+  tasks: {
+    orderBy: [{ completedAt: { sort: "desc" as const, nulls: "first" as const } }, { dueAt: "asc" as const }],
+    include: { assignee: { select: userSelect } },
+  },
+};
+
+/**
+ * Every deal for the board, most recently moved first within a stage
+ */
+export async function listDeals(filters: { assigneeId?: string } = {}) {
+  return prisma.deal.findMany({
+    where: { assigneeId: filters.assigneeId },
+    include: boardInclude,
+    orderBy: { stageChangedAt: "desc" },
+  });
+}
+
+/**
+ * A deal with its notes (newest first) and tasks (open ones first, by due date)
+ */
+export async function getDeal(id: string) {
+  return prisma.deal.findUnique({ where: { id }, include: detailInclude });
+}
+
+/**
+ * The deal tracking a property, if any
+ */
+export async function getDealForProperty(propertyId: string) {
+  return prisma.deal.findUnique({ where: { propertyId }, include: detailInclude });
+}
+
+/**
+ * Start tracking a property in the pipeline
+ * Returns null if the property doesn't exist, or the existing deal's ID
+ * since a property has at most one deal
+ */
+export async function createDeal(input: DealInput) {
+  const property = await prisma.property.findUnique({
+    where: { id: input.propertyId },
+    select: { id: true, deal: { select: { id: true } } },
+  });
+  if (!property) return null;
+  if (property.deal) return { duplicateId: property.deal.id };
+
+  const invalid = await checkAssignee(input.assigneeId);
+  if (invalid) return invalid;
+
+  let deal;
+  try {
+    deal = await prisma.deal.create({
+      data: {
+        propertyId: input.propertyId,
+        stage: input.stage,
+        assigneeId: input.assigneeId,
+      },
+      include: detailInclude,
+    });
+  } catch (error) {
+    // A concurrent request can start the deal between the check and the insert
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const existing = await prisma.deal.findUnique({
+        where: { propertyId: input.propertyId },
+        select: { id: true },
+      });
+      if (existing) return { duplicateId: existing.id };
+    }
+    throw error;
+  }
+
+  console.log(`📋 Added deal for property ${deal.propertyId} at ${deal.stage}`);
+  return { deal };
+}
+
+/**
+ * Move a deal to another stage and/or reassign it
+ * Returns null if the deal doesn't exist
+ */
+export async function updateDeal(id: string, input: DealUpdate) {
+  const existing = await prisma.deal.findUnique({ where: { id }, select: { stage: true } });
+  if (!existing) return null;
+
+  const invalid = await checkAssignee(input.assigneeId);
+  if (invalid) return invalid;
+
+  const moved = input.stage !== undefined && input.stage !== existing.stage;
+  const deal = await prisma.deal.update({
+    where: { id },
+    data: {
+      stage: input.stage,
+      stageChangedAt: moved ? new Date() : undefined,
+      assigneeId: input.assigneeId,
+    },
+    include: detailInclude,
+  });
+
+  return { deal };
+}
+
+/**
+ * Stop tracking a deal, with its notes and tasks
+ * Returns false if it doesn't exist
+ */
+export async function deleteDeal(id: string): Promise<boolean> {
+  const { count } = await prisma.deal.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Add a timestamped note to a deal
+ * Returns null if the deal doesn't exist
+ */
+export async function addDealNote(dealId: string, authorId: string, body: string) {
+  const deal = await prisma.deal.findUnique({ where: { id: dealId }, select: { id: true } });
+  if (!deal) return null;
+
+  return prisma.dealNote.create({
+    data: { dealId, authorId, body },
+    include: { author: { select: userSelect } },
+  });
+}
+
+/**
+ * Delete a note from a deal
+ * Returns false if there's no such note on the deal
+ */
+export async function deleteDealNote(dealId: string, noteId: string): Promise<boolean> {
+  const { count } = await prisma.dealNote.deleteMany({ where: { id: noteId, dealId } });
+  return count > 0;
+}
+
+/**
+ * Add a due-dated task to a deal
+ * Returns null if the deal doesn't exist
+ */
+export async function addDealTask(dealId: string, input: TaskInput) {
+  const deal = await prisma.deal.findUnique({ where: { id: dealId }, select: { id: true } });
+  if (!deal) return null;
+
+  const invalid = await checkAssignee(input.assigneeId);
+  if (invalid) return invalid;
+
+  const task = await prisma.dealTask.create({
+    data: {
+      dealId,
+      title: input.title!,
+      dueAt: input.dueAt!,
+      assigneeId: input.assigneeId,
+      completedAt: input.completed ? new Date() : null,
+    },
+    include: { assignee: { select: userSelect } },
+  });
+
+  return { task };
+}
+
+/**
+ * Edit, complete or reopen a task
+ * Returns null if there's no such task on the deal
+ */
+export async function updateDealTask(dealId: string, taskId: string, input: TaskInput) {
+  const existing = await prisma.dealTask.findFirst({
+    where: { id: taskId, dealId },
+    select: { completedAt: true },
+  });
+  if (!existing) return null;
+
+  const invalid = await checkAssignee(input.assigneeId);
+  if (invalid) return invalid;
+
+  const task = await prisma.dealTask.update({
+    where: { id: taskId },
+    data: {
+      title: input.title,
+      dueAt: input.dueAt,
+      assigneeId: input.assigneeId,
+      // Keep the original completion time if it's completed again
+      completedAt:
+        input.completed === undefined
+          ? undefined
+          : input.completed
+            ? (existing.completedAt ?? new Date())
+            : null,
+    },
+    include: { assignee: { select: userSelect } },
+  });
+
+  return { task };
+}
+
+/**
+ * Delete a task from a deal
+ * Returns false if there's no such task on the deal
+ */
+export async function deleteDealTask(dealId: string, taskId: string): Promise<boolean> {
+  const { count } = await prisma.dealTask.deleteMany({ where: { id: taskId, dealId } });
+  return count > 0;
+}
+
+/**
+ * An assignee must be an existing user; null (unassign) and undefined always pass
+ */
+async function checkAssignee(assigneeId: string | null | undefined): Promise<InvalidInput | null> {
+  if (!assigneeId) return null;
+  const user = await prisma.user.findUnique({ where: { id: assigneeId }, select: { id: true } });
+  return user ? null : { errors: ["assigneeId must be an existing user"] };
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
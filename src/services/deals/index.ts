@@ -0,0 +1,22 @@
+export {
+  listDeals,
+  getDeal,
+  getDealForProperty,
+  createDeal,
+  updateDeal,
+  deleteDeal,
+  addDealNote,
+  deleteDealNote,
+  addDealTask,
+  updateDealTask,
+  deleteDealTask,
+  cleanup,
+} from "./deals";
+export {
+  validateDealInput,
+  validateDealUpdate,
+  validateNoteInput,
+  validateTaskInput,
+} from "./input";
+export { DEAL_STAGES } from "./types";
+export type { DealInput, DealUpdate, TaskInput, InvalidInput } from "./types";
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import {
+  validateDealInput,
+  validateDealUpdate,
+  validateNoteInput,
+  validateTaskInput,
+} from "./input";
+
+describe("validateDealInput", () => {
+  test("needs a property", () => {
+    expect(validateDealInput({}).errors).toEqual(["propertyId is required"]);
+  });
+
+  test("accepts a stage in any case and an assignee", () => {
+    expect(
+      validateDealInput({ propertyId: "clxprop1", stage: "offer_sent", assigneeId: "clxuser1" }).input
+    ).toEqual({ propertyId: "clxprop1", stage: "OFFER_SENT", assigneeId: "clxuser1" });
+  });
+
+  test("rejects unknown stages", () => {
+    expect(validateDealInput({ propertyId: "clxprop1", stage: "WON" }).errors).toEqual([
+      "stage must be one of LEAD, ANALYZING, OFFER_SENT, UNDER_CONTRACT, CLOSED, DEAD",
+    ]);
+  });
+});
+
+describe("validateDealUpdate", () => {
+  test("null unassigns", () => {
+    expect(validateDealUpdate({ assigneeId: null }).input).toEqual({
+      stage: undefined,
+      assigneeId: null,
+    });
+  });
+
+  test("must change something", () => {
+    expect(validateDealUpdate({}).errors).toEqual(["stage or assigneeId is required"]);
+  });
+});
+
+describe("validateNoteInput", () => {
+  test("trims the note", () => {
+    expect(validateNoteInput({ body: "  Seller wants a 30 day close " }).text).toBe(
+      "Seller wants a 30 day close"
+    );
+  });
+
+  test("needs text", () => {
+    expect(validateNoteInput({ body: "  " }).errors).toEqual(["body is required"]);
+  });
+});
+
+describe("validateTaskInput", () => {
+  test("a date is due at the end of that day", () => {
+    expect(validateTaskInput({ title: "Order inspection", dueAt: "2026-11-01" }, "create").input).toEqual({
+      title: "Order inspection",
+      dueAt: new Date("2026-11-01T23:59:59.999Z"),
+      assigneeId: undefined,
+    });
+  });
+
+  test("a new task needs a title and due date", () => {
+    expect(validateTaskInput({ dueAt: "soon" }, "create").errors).toEqual([
+      "title is required",
+      "dueAt must be a date, e.g. 2026-11-01",
+    ]);
+  });
+
+  test("an edit only touches what it sends", () => {
+    expect(validateTaskInput({ completed: true }, "update").input).toEqual({
+      assigneeId: undefined,
+      completed: true,
+    });
+    expect(validateTaskInput({ completed: "yes" }, "update").errors).toEqual([
+      "completed must be true or false",
+    ]);
+    expect(validateTaskInput({}, "update").errors).toHaveLength(1);
+  });
+});
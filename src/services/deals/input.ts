@@ -0,0 +1,128 @@
+import { DEAL_STAGES, type DealInput, type DealUpdate, type TaskInput } from "./types";
+
+export const MAX_NOTE_LENGTH = 5000;
+const MAX_TITLE_LENGTH = 200;
+
+type Body = Record<string, unknown>;
+
+/**
+ * Validate a POST /api/deals body
+ */
+export function validateDealInput(body: unknown): { input?: DealInput; errors: string[] } {
+  const data = asObject(body);
+  const errors: string[] = [];
+
+  const propertyId = typeof data.propertyId === "string" ? data.propertyId.trim() : "";
+  if (!propertyId) errors.push("propertyId is required");
+
+  const { stage, assigneeId } = parseDealFields(data, errors);
+
+  if (errors.length > 0) return { errors };
+  return { input: { propertyId, stage, assigneeId }, errors };
+}
+
+/**
+ * Validate a PATCH /api/deals/:id body
+ */
+export function validateDealUpdate(body: unknown): { input?: DealUpdate; errors: string[] } {
+  const data = asObject(body);
+  const errors: string[] = [];
+
+  const input = parseDealFields(data, errors);
+  if (errors.length === 0 && input.stage === undefined && input.assigneeId === undefined) {
+    errors.push("stage or assigneeId is required");
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input, errors };
+}
+
+/**
+ * Validate a POST /api/deals/:id/notes body
+ */
+export function validateNoteInput(body: unknown): { text?: string; errors: string[] } {
+  const data = asObject(body);
+  const text = typeof data.body === "string" ? data.body.trim() : "";
+
+  if (!text) return { errors: ["body is required"] };
+  if (text.length > MAX_NOTE_LENGTH) {
+    return { errors: [`body must be at most ${MAX_NOTE_LENGTH} characters`] };
+  }
+  return { text, errors: [] };
+}
+
+/**
+ * Validate a task body
+ * A new task needs a title and due date; an edit only touches what it sends
+ */
+export function validateTaskInput(
+  body: unknown,
+  mode: "create" | "update"
+): { input?: TaskInput; errors: string[] } {
+  const data = asObject(body);
+  const errors: string[] = [];
+  const input: TaskInput = {};
+
+  if (data.title !== undefined || mode === "create") {
+    const title = typeof data.title === "string" ? data.title.trim() : "";
+    if (!title) errors.push("title is required");
+    else if (title.length > MAX_TITLE_LENGTH) {
+      errors.push(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    } else input.title = title;
+  }
+
+  if (data.dueAt !== undefined || mode === "create") {
+    const dueAt = parseDate(data.dueAt);
+    if (!dueAt) errors.push("dueAt must be a date, e.g. 2026-11-01");
+    else input.dueAt = dueAt;
+  }
+
+  input.assigneeId = parseAssignee(data, errors);
+
+  if (data.completed !== undefined) {
+    if (typeof data.completed !== "boolean") errors.push("completed must be true or false");
+    else input.completed = data.completed;
+  }
+
+  if (mode === "update" && errors.length === 0 && Object.values(input).every((v) => v === undefined)) {
+    errors.push("title, dueAt, assigneeId or completed is required");
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input, errors };
+}
+
+function parseDealFields(data: Body, errors: string[]): DealUpdate {
+  let stage: DealUpdate["stage"];
+  if (data.stage !== undefined) {
+    const value = typeof data.stage === "string" ? data.stage.toUpperCase() : "";
+    if (DEAL_STAGES.includes(value as (typeof DEAL_STAGES)[number])) {
+      stage = value as DealUpdate["stage"];
+    } else {
+      errors.push(`stage must be one of ${DEAL_STAGES.join(", ")}`);
+    }
+  }
+
+  return { stage, assigneeId: parseAssignee(data, errors) };
+}
+
+/** undefined leaves the assignee alone, null unassigns */
+function parseAssignee(data: Body, errors: string[]): string | null | undefined {
+  if (data.assigneeId === undefined) return undefined;
+  if (data.assigneeId === null || data.assigneeId === "") return null;
+  if (typeof data.assigneeId === "string") return data.assigneeId;
+  errors.push("assigneeId must be a user ID or null");
+  return undefined;
+}
+
+/** "2026-11-01" is due at the end of that day (UTC) */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const text = value.trim();
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T23:59:59.999Z` : text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function asObject(body: unknown): Body {
+  return (body && typeof body === "object" && !Array.isArray(body) ? body : {}) as Body;
+}
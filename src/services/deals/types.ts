@@ -0,0 +1,37 @@
+import type { DealStage } from "../../../generated/prisma";
+
+/** Pipeline stages, in board order */
+export const DEAL_STAGES = [
+  "LEAD",
+  "ANALYZING",
+  "OFFER_SENT",
+  "UNDER_CONTRACT",
+  "CLOSED",
+  "DEAD",
+] as const satisfies readonly DealStage[];
+
+/** Validated body for creating a deal */
+export interface DealInput {
+  propertyId: string;
+  stage?: DealStage;
+  assigneeId?: string | null;
+}
+
+/** Validated body for moving or reassigning a deal; absent fields are left alone */
+export interface DealUpdate {
+  stage?: DealStage;
+  assigneeId?: string | null;
+}
+
+/** Validated body for adding or editing a task; absent fields are left alone */
+export interface TaskInput {
+  title?: string;
+  dueAt?: Date;
+  assigneeId?: string | null;
+  completed?: boolean;
+}
+
+/** Service result when a referenced user doesn't exist, or similar bad input */
+export interface InvalidInput {
+  errors: string[];
+}
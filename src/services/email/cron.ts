@@ -1,5 +1,7 @@
 import cron from "node-cron";
-import { processPropertyEmails, cleanup } from "./processor";
+import { cleanup } from "./processor";
+import { runIngestion } from "./runs";
+import { sweepStaleListings, getStaleListingDays } from "./stale";
 import type { ImapConfig } from "./fetcher";
 
 /**
@@ -50,20 +52,58 @@ async function runEmailJob(config: ImapConfig) {
   console.log(`[${new Date().toISOString()}] Running email processing job...`);
 
   try {
-    const result = await processPropertyEmails(config);
+    const result = await runIngestion(config, "CRON");
+
+    if ("runningId" in result) {
+      console.log(
+        `[${new Date().toISOString()}] Skipping email job, run ${result.runningId} is still going`
+      );
+      return;
+    }
+
+    const { run } = result;
 
     console.log(
-      `[${new Date().toISOString()}] Email job completed: ${result.created} created, ${result.updated} updated`
+      `[${new Date().toISOString()}] Email job ${run.id} ${run.status.toLowerCase()}: ${run.propertiesCreated} created, ${run.propertiesUpdated} updated`
     );
 
-    if (result.errors.length > 0) {
-      console.error(`Errors during processing:`, result.errors);
+    if (run.errors.length > 0) {
+      console.error(`Errors during processing:`, run.errors);
     }
   } catch (error) {
     console.error(`[${new Date().toISOString()}] Email job failed:`, error);
   }
 }
 
+/**
+ * Set up cron job to expire listings that stopped appearing in alerts
+ * @param schedule - Cron schedule (default: daily at 3am)
+ * @param staleDays - Days without an alert before a listing goes OFF_MARKET
+ */
+export function setupStaleListingCron(
+  schedule: string = "0 3 * * *",
+  staleDays: number = getStaleListingDays()
+) {
+  console.log(`Setting up stale listing cron job with schedule: ${schedule}`);
+
+  return cron.schedule(schedule, async () => {
+    console.log(`[${new Date().toISOString()}] Expiring listings unseen for ${staleDays} days...`);
+
+    try {
+      const result = await sweepStaleListings(staleDays);
+      console.log(
+        `[${new Date().toISOString()}] Stale listing sweep: ${result.expired} expired, ${result.propertiesUpdated} properties updated`
+      );
+
+      if (result.errors.length > 0) {
+        console.error(`Errors during stale listing sweep:`, result.errors);
+      }
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] Stale listing sweep failed:`, error);
+    }
+  });
+}
+
 /**
  * Get IMAP config from environment variables
  */
@@ -1,7 +1,8 @@
 import Imap from "imap";
+import type { Readable } from "node:stream";
 import { simpleParser } from "mailparser";
-import { parsePropertyEmail } from "./parser";
-import type { ParsedProperty } from "./types";
+import { buildSenderSearchCriteria } from "./sources";
+import type { FetchedEmail } from "./types";
 
 export interface ImapConfig {
   user: string;
@@ -11,41 +12,62 @@ export interface ImapConfig {
   tls: boolean;
 }
 
+export const MAILBOX = "INBOX";
+
+/**
+ * Where the last run left off in a mailbox
+ * UIDs are only comparable while UIDVALIDITY stays the same
+ */
+export interface MailboxCursor {
+  uidValidity: number;
+  lastUid: number;
+}
+
+export interface FetchResult {
+  emails: FetchedEmail[];
+  uidValidity: number;
+}
+
 /**
- * Fetch and parse property alert emails from inbox
+ * Fetch raw property alert emails newer than the cursor, oldest first
+ * Parsing happens later from the stored copy, so it can be re-run
+ * Read/unread state is ignored so opening an alert in the mail client doesn't hide it
  */
 export async function fetchPropertyEmails(
-  config: ImapConfig
-): Promise<ParsedProperty[]> {
+  config: ImapConfig,
+  cursor?: MailboxCursor | null
+): Promise<FetchResult> {
   return new Promise((resolve, reject) => {
     const imap = new Imap(config);
-    const allProperties: ParsedProperty[] = [];
+    const emails: FetchedEmail[] = [];
+    const pending: Promise<void>[] = [];
+    let uidValidity = 0;
 
     imap.once("ready", () => {
-      imap.openBox("INBOX", false, (err, box) => {
+      // Open read-only so fetching never sets \Seen - that happens after commit
+      imap.openBox(MAILBOX, true, (err, box) => {
         if (err) {
           reject(err);
           return;
         }
 
-        // Search for unread emails from real estate sources
-        // OR must have exactly 2 arguments, so we nest them
+        uidValidity = box.uidvalidity;
+
+        // Start over if the server renumbered the mailbox
+        let startUid = 1;
+        if (cursor && cursor.uidValidity === uidValidity) {
+          startUid = cursor.lastUid + 1;
+        } else if (cursor) {
+          console.log(
+            `UIDVALIDITY changed for ${MAILBOX} (${cursor.uidValidity} -> ${uidValidity}), rescanning`
+          );
+        }
+
+        // Search by UID range for emails from every registered alert provider
         // Using just brand names to match subdomains (e.g., "zillow" matches "mail.zillow.com")
         const searchCriteria = [
-          "UNSEEN",
-          [
-            "OR",
-            ["FROM", "zillow"],
-            [
-              "OR",
-              ["FROM", "redfin"],
-              [
-                "OR",
-                ["FROM", "realtor"],
-                ["FROM", "land"]
-              ]
-            ]
-          ]
+          ["UID", `${startUid}:*`],
+          buildSenderSearchCriteria(),
         ];
 
         imap.search(searchCriteria, (searchErr, results) => {
@@ -55,45 +77,68 @@ export async function fetchPropertyEmails(
             return;
           }
 
-          if (!results || results.length === 0) {
-            console.log("No unread property emails found");
-            resolve([]);
+          // "n:*" always matches the newest message, even when its UID is below n
+          const uids = (results || []).filter((uid) => uid >= startUid);
+
+          if (uids.length === 0) {
+            console.log(`No new property emails since UID ${startUid - 1}`);
+            resolve({ emails: [], uidValidity });
             imap.end();
             return;
           }
 
-          console.log(`Found ${results.length} unread property emails`);
+          console.log(`Found ${uids.length} new property emails`);
 
-          const fetch = imap.fetch(results, { bodies: "" });
+          const fetch = imap.fetch(uids, { bodies: "" });
 
           fetch.on("message", (msg, seqno) => {
+            const attributes = new Promise<Imap.ImapMessageAttributes>((done) =>
+              msg.once("attributes", done)
+            );
+
             msg.on("body", (stream) => {
-              simpleParser(stream, async (parseErr, parsed) => {
-                if (parseErr) {
-                  console.error("Error parsing email:", parseErr);
-                  return;
-                }
+              // Track each parse so we don't resolve before it finishes
+              // (imap types the body as NodeJS.ReadableStream, but it's a node Readable)
+              pending.push(
+                Promise.all([
+                  simpleParser(stream as Readable).then(
+                    (parsed) => ({ parsed }),
+                    (error: unknown) => ({ error })
+                  ),
+                  attributes,
+                ]).then(([decoded, attrs]) => {
+                  if ("error" in decoded) {
+                    // Keep a FAILED record so the message isn't skipped without a trace
+                    console.error(`Error parsing email UID ${attrs.uid}:`, decoded.error);
+                    emails.push({
+                      uid: attrs.uid,
+                      messageId: `<uid-${uidValidity}-${attrs.uid}@unparsed.invalid>`,
+                      from: "",
+                      receivedAt: attrs.date,
+                      parseError: `Error parsing email: ${decoded.error}`,
+                    });
+                    return;
+                  }
 
-                try {
+                  const { parsed } = decoded;
                   const from = parsed.from?.text || "";
-                  const html = parsed.html || "";
-
-                  if (html) {
-                    const result = parsePropertyEmail(html, from);
-
-                    if (result.errors.length > 0) {
-                      console.error("Parser errors:", result.errors);
-                    }
-
-                    allProperties.push(...result.properties);
-                    console.log(
-                      `Parsed ${result.properties.length} properties from email ${seqno}`
-                    );
-                  }
-                } catch (error) {
-                  console.error("Error processing email:", error);
-                }
-              });
+                  // Without a Date header, fall back to when the server received it
+                  const receivedAt = parsed.date || attrs.date;
+
+                  emails.push({
+                    uid: attrs.uid,
+                    messageId:
+                      parsed.messageId ||
+                      syntheticMessageId(from, receivedAt, parsed.subject),
+                    from,
+                    subject: parsed.subject,
+                    receivedAt,
+                    html: parsed.html || undefined,
+                    text: parsed.text || undefined,
+                  });
+                  console.log(`Fetched email ${seqno} (UID ${attrs.uid}): ${parsed.subject || "(no subject)"}`);
+                })
+              );
             });
           });
 
@@ -110,14 +155,16 @@ export async function fetchPropertyEmails(
       });
     });
 
-    imap.once("error", (err) => {
+    imap.once("error", (err: Error) => {
       console.error("IMAP error:", err);
       reject(err);
     });
 
-    imap.once("end", () => {
+    imap.once("end", async () => {
       console.log("IMAP connection ended");
-      resolve(allProperties);
+      await Promise.all(pending);
+      emails.sort((a, b) => a.uid - b.uid);
+      resolve({ emails, uidValidity });
     });
 
     imap.connect();
@@ -125,17 +172,30 @@ export async function fetchPropertyEmails(
 }
 
 /**
- * Mark emails as read
+ * Build a stable ID for messages that arrive without a Message-ID header
+ */
+function syntheticMessageId(from: string, date: Date, subject?: string): string {
+  const hash = new Bun.CryptoHasher("sha256")
+    .update(`${from}|${date.toISOString()}|${subject ?? ""}`)
+    .digest("hex");
+  return `<generated-${hash}@feliciano-investing>`;
+}
+
+/**
+ * Mark emails as read by UID
+ * Called only after their properties are committed to the database
  */
 export async function markEmailsAsRead(
   config: ImapConfig,
   uids: number[]
 ): Promise<void> {
+  if (uids.length === 0) return;
+
   return new Promise((resolve, reject) => {
     const imap = new Imap(config);
 
     imap.once("ready", () => {
-      imap.openBox("INBOX", false, (err) => {
+      imap.openBox(MAILBOX, false, (err) => {
         if (err) {
           reject(err);
           return;
@@ -152,7 +212,7 @@ export async function markEmailsAsRead(
       });
     });
 
-    imap.once("error", (err) => {
+    imap.once("error", (err: Error) => {
       reject(err);
     });
 
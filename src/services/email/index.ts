@@ -1,6 +1,37 @@
 export { parsePropertyEmail } from "./parser";
-export { fetchPropertyEmails, markEmailsAsRead } from "./fetcher";
-export { processPropertyEmails, cleanup } from "./processor";
-export { setupEmailCron, getImapConfigFromEnv } from "./cron";
-export type { ParsedProperty, EmailParserResult } from "./types";
-export type { ImapConfig } from "./fetcher";
+export {
+  sourceAdapters,
+  findSourceAdapter,
+  determineSource,
+  buildSenderSearchCriteria,
+} from "./sources";
+export { fetchPropertyEmails, markEmailsAsRead, MAILBOX } from "./fetcher";
+export { getMailboxCursor, saveMailboxCursor } from "./mailbox";
+export {
+  processPropertyEmails,
+  processEmailMessage,
+  reprocessEmail,
+  reprocessEmails,
+  upsertProperty,
+  cleanup,
+} from "./processor";
+export { storeEmailMessage, findEmailMessages } from "./messages";
+export { runIngestion } from "./runs";
+export { unwrapTrackingUrl, resolveListingUrl, canonicalizeUrl } from "./urls";
+export { rekeyListingUrls } from "./rekey";
+export { syncPropertySummary } from "./listings";
+export { sweepStaleListings, getStaleListingDays } from "./stale";
+export {
+  summarizeListings,
+  daysOnMarket,
+  withDaysOnMarket,
+  isOffMarket,
+  withoutOverrides,
+} from "./utils";
+export { setupEmailCron, setupStaleListingCron, getImapConfigFromEnv } from "./cron";
+export type { ParsedProperty, EmailParserResult, FetchedEmail } from "./types";
+export type { ProcessResult, SourceStats } from "./processor";
+export type { RekeyResult } from "./rekey";
+export type { StaleSweepResult } from "./stale";
+export type { ImapConfig, MailboxCursor, FetchResult } from "./fetcher";
+export type { SourceAdapter, ListingCard, ExtractedListing } from "./sources";
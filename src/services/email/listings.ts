@@ -0,0 +1,54 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { summarizeListings } from "./utils";
+
+const prisma = new PrismaClient();
+
+/**
+ * Recompute the denormalized summary fields on a property from its listings
+ * A hand-edited price or status is kept, and feeds the derived fields
+ */
+export async function syncPropertySummary(propertyId: string) {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      sqft: true,
+      price: true,
+      status: true,
+      overriddenFields: true,
+      listings: {
+        select: {
+          price: true,
+          status: true,
+          updatedAt: true,
+          firstSeenAt: true,
+          lastSeenAt: true,
+          // The first change's old price is what the listing originally asked
+          priceHistory: {
+            select: { oldPrice: true },
+            orderBy: { changeDate: "asc" },
+            take: 1,
+          },
+        },
+      },
+    },
+  });
+  if (!property) return;
+
+  const summary = summarizeListings(
+    property.listings.map(({ priceHistory, ...listing }) => ({
+      ...listing,
+      originalPrice: priceHistory[0]?.oldPrice,
+    })),
+    property.sqft,
+    {
+      price: property.overriddenFields.includes("price") ? property.price : undefined,
+      status: property.overriddenFields.includes("status") ? property.status : undefined,
+    }
+  );
+  if (!summary) return;
+
+  await prisma.property.update({
+    where: { id: propertyId },
+    data: summary,
+  });
+}
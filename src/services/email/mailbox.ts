@@ -0,0 +1,38 @@
+import { PrismaClient } from "../../../generated/prisma";
+import type { MailboxCursor } from "./fetcher";
+
+const prisma = new PrismaClient();
+
+/**
+ * Get where the last run left off in a mailbox, or null on first run
+ */
+export async function getMailboxCursor(
+  mailbox: string
+): Promise<MailboxCursor | null> {
+  const state = await prisma.mailboxState.findUnique({ where: { mailbox } });
+  if (!state) return null;
+
+  return {
+    uidValidity: Number(state.uidValidity),
+    lastUid: Number(state.lastUid),
+  };
+}
+
+/**
+ * Record the highest UID stored for a mailbox
+ */
+export async function saveMailboxCursor(
+  mailbox: string,
+  cursor: MailboxCursor
+): Promise<void> {
+  const data = {
+    uidValidity: BigInt(cursor.uidValidity),
+    lastUid: BigInt(cursor.lastUid),
+  };
+
+  await prisma.mailboxState.upsert({
+    where: { mailbox },
+    create: { mailbox, ...data },
+    update: data,
+  });
+}
@@ -0,0 +1,45 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { determineSource } from "./sources";
+import type { FetchedEmail } from "./types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Persist a raw alert email
+ * Emails already stored (same Message-ID) are returned untouched;
+ * one that couldn't be decoded is stored as FAILED with the reason
+ */
+export async function storeEmailMessage(email: FetchedEmail) {
+  return prisma.emailMessage.upsert({
+    where: { messageId: email.messageId },
+    create: {
+      messageId: email.messageId,
+      from: email.from,
+      subject: email.subject,
+      receivedAt: email.receivedAt,
+      source: determineSource(email.from),
+      html: email.html,
+      text: email.text,
+      ...(email.parseError
+        ? { parseStatus: "FAILED", parseErrors: [email.parseError], parsedAt: new Date() }
+        : {}),
+    },
+    update: {},
+  });
+}
+
+/**
+ * Find stored emails from a source received on or after a date
+ */
+export async function findEmailMessages(filters: {
+  source?: string;
+  since?: Date;
+}) {
+  return prisma.emailMessage.findMany({
+    where: {
+      source: filters.source,
+      receivedAt: filters.since ? { gte: filters.since } : undefined,
+    },
+    orderBy: { receivedAt: "asc" },
+  });
+}
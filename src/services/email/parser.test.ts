@@ -0,0 +1,115 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  setSystemTime,
+  spyOn,
+} from "bun:test";
+import { readdirSync, existsSync } from "fs";
+import path from "path";
+import { simpleParser } from "mailparser";
+import { parsePropertyEmail } from "./parser";
+import { sourceAdapters } from "./sources";
+
+/**
+ * Golden-file regression tests for alert email parsers
+ *
+ * Each fixture in __fixtures__/<source>/ is a sanitized .eml or .html sample
+ * with a sibling <name>.expected.json holding the parser output.
+ * When a template change is accepted, re-record with:
+ *   bun run test:record-goldens
+ */
+
+const FIXTURES_DIR = path.join(import.meta.dir, "__fixtures__");
+const RECORD = process.env.UPDATE_GOLDENS === "1";
+
+// parsePriceChange assumes the current year, so pin the clock
+const FIXED_NOW = new Date("2025-11-15T12:00:00Z");
+
+interface Fixture {
+  source: string;
+  name: string;
+  emailPath: string;
+  goldenPath: string;
+}
+
+function listFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR).flatMap((source) =>
+    readdirSync(path.join(FIXTURES_DIR, source))
+      .filter((file) => file.endsWith(".eml") || file.endsWith(".html"))
+      .map((file) => {
+        const name = file.replace(/\.(eml|html)$/, "");
+        return {
+          source,
+          name,
+          emailPath: path.join(FIXTURES_DIR, source, file),
+          goldenPath: path.join(FIXTURES_DIR, source, `${name}.expected.json`),
+        };
+      })
+  );
+}
+
+/**
+ * Load a fixture as the fetcher would see it
+ * Bare .html samples are attributed to the source named by their directory
+ */
+async function loadEmail(fixture: Fixture): Promise<{ html: string; from: string }> {
+  const raw = await Bun.file(fixture.emailPath).text();
+
+  if (fixture.emailPath.endsWith(".eml")) {
+    const parsed = await simpleParser(raw);
+    return { html: parsed.html || "", from: parsed.from?.text || "" };
+  }
+
+  return { html: raw, from: `alerts@${fixture.source}.com` };
+}
+
+const fixtures = listFixtures();
+
+describe("alert email parser goldens", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeAll(() => {
+    setSystemTime(FIXED_NOW);
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    logSpy.mockRestore();
+  });
+
+  test("every registered source has at least one fixture", () => {
+    const covered = new Set(fixtures.map((f) => f.source));
+    const missing = sourceAdapters
+      .map((adapter) => adapter.source)
+      .filter((source) => !covered.has(source));
+
+    expect(missing).toEqual([]);
+  });
+
+  for (const fixture of fixtures) {
+    test(`${fixture.source}/${fixture.name}`, async () => {
+      const { html, from } = await loadEmail(fixture);
+
+      // Round-trip through JSON so Dates compare the way they are stored
+      const actual = JSON.parse(JSON.stringify(parsePropertyEmail(html, from)));
+
+      if (RECORD) {
+        await Bun.write(fixture.goldenPath, JSON.stringify(actual, null, 2) + "\n");
+        return;
+      }
+
+      if (!existsSync(fixture.goldenPath)) {
+        throw new Error(
+          `Missing golden ${path.relative(FIXTURES_DIR, fixture.goldenPath)} - run bun run test:record-goldens`
+        );
+      }
+
+      const expected = await Bun.file(fixture.goldenPath).json();
+      expect(actual).toEqual(expected);
+    });
+  }
+});
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+import type { FetchedEmail } from "./types";
+
+// Stored emails by Message-ID, plus what the run did to the mailbox
+type StoredMessage = FetchedEmail & {
+  id: string;
+  source: string;
+  parseStatus: string;
+  parseAttempts: number;
+};
+const stored = new Map<string, StoredMessage>();
+let fetched: FetchedEmail[] = [];
+let savedCursor: { uidValidity: number; lastUid: number } | null = null;
+let markedRead: number[] = [];
+
+class FakePrismaClient {
+  emailMessage = {
+    update: async ({ where, data }: { where: { id: string }; data: { parseStatus: string } }) => {
+      const message = stored.get(where.id)!;
+      message.parseStatus = data.parseStatus;
+      message.parseAttempts++;
+      return message;
+    },
+  };
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+mock.module("./messages", () => ({
+  storeEmailMessage: async (email: FetchedEmail) => {
+    const existing = stored.get(email.messageId);
+    // Copies, like rows read from the database
+    if (existing) return { ...existing };
+    const message = {
+      ...email,
+      id: email.messageId,
+      source: "zillow",
+      parseStatus: email.parseError ? "FAILED" : "PENDING",
+      parseAttempts: 0,
+    };
+    stored.set(email.messageId, message);
+    return { ...message };
+  },
+  findEmailMessages: async () => [...stored.values()],
+}));
+mock.module("./mailbox", () => ({
+  getMailboxCursor: async () => savedCursor,
+  saveMailboxCursor: async (_mailbox: string, cursor: typeof savedCursor) => {
+    savedCursor = cursor;
+  },
+}));
+mock.module("./fetcher", () => ({
+  MAILBOX: "INBOX",
+  fetchPropertyEmails: async () => ({ emails: fetched, uidValidity: 1 }),
+  markEmailsAsRead: async (_config: unknown, uids: number[]) => {
+    markedRead = uids;
+  },
+}));
+
+const { processPropertyEmails } = await import("./processor");
+
+const config = {
+  user: "alerts@example.com",
+  password: "secret",
+  host: "imap.example.com",
+  port: 993,
+  tls: true,
+};
+
+// An alert with no listings parses as EMPTY; one without HTML fails
+function alert(uid: number, html?: string, from = "alerts@zillow.com"): FetchedEmail {
+  return {
+    uid,
+    messageId: `<${uid}@zillow.com>`,
+    from,
+    subject: "New listings",
+    receivedAt: new Date("2026-10-01T12:00:00Z"),
+    html,
+  };
+}
+
+describe("processPropertyEmails", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeAll(() => {
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    logSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    stored.clear();
+    savedCursor = null;
+    markedRead = [];
+  });
+
+  test("an email without HTML can't change, so the cursor moves past it", async () => {
+    fetched = [alert(11, "<p>No homes</p>"), alert(12), alert(13, "<p>No homes</p>")];
+
+    const result = await processPropertyEmails(config);
+
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 13 });
+    expect(markedRead).toEqual([11, 13]);
+    expect(result.errors).toEqual(["Email has no HTML body"]);
+  });
+
+  test("an email that couldn't be decoded is kept as FAILED", async () => {
+    fetched = [{ ...alert(11), parseError: "Error parsing email: bad MIME" }];
+
+    const result = await processPropertyEmails(config);
+
+    expect(stored.get("<11@zillow.com>")!.parseStatus).toBe("FAILED");
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 11 });
+    expect(result.errors).toEqual(["Error parsing email: bad MIME"]);
+  });
+
+  test("a failing email holds the cursor until its retries run out", async () => {
+    fetched = [alert(11, "<p>No homes</p>"), alert(12, "<p>Hi</p>", "someone@example.com")];
+
+    await processPropertyEmails(config);
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 11 });
+    await processPropertyEmails(config);
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 11 });
+
+    await processPropertyEmails(config);
+    expect(stored.get("<12@zillow.com>")!.parseAttempts).toBe(3);
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 12 });
+  });
+
+  test("a stored email that failed earlier is retried", async () => {
+    fetched = [alert(12, "<p>Hi</p>", "someone@example.com")];
+    await processPropertyEmails(config);
+    stored.get("<12@zillow.com>")!.from = "alerts@zillow.com";
+
+    fetched = [alert(12, "<p>No homes</p>"), alert(13, "<p>No homes</p>")];
+    await processPropertyEmails(config);
+
+    expect(stored.get("<12@zillow.com>")!.parseStatus).toBe("EMPTY");
+    expect(savedCursor).toEqual({ uidValidity: 1, lastUid: 13 });
+  });
+});
@@ -1,59 +1,297 @@
-import { PrismaClient, Prisma } from "../../../generated/prisma";
-import { fetchPropertyEmails, type ImapConfig } from "./fetcher";
+import {
+  PrismaClient,
+  Prisma,
+  type EmailMessage,
+  type EmailParseStatus,
+  type PropertyStatus,
+  type ListingEvent,
+} from "../../../generated/prisma";
+import {
+  fetchPropertyEmails,
+  markEmailsAsRead,
+  MAILBOX,
+  type ImapConfig,
+} from "./fetcher";
+import { getMailboxCursor, saveMailboxCursor } from "./mailbox";
+import { storeEmailMessage, findEmailMessages } from "./messages";
+import { parsePropertyEmail } from "./parser";
 import type { ParsedProperty } from "./types";
-import { normalizeAddress } from "./utils";
+import { normalizeAddress } from "../address";
+import { geocodeAddress } from "../geocoding";
+import { syncPropertySummary } from "./listings";
+import { withoutOverrides } from "./utils";
 
 const prisma = new PrismaClient();
 
+// A type rather than an interface so it can be stored as JSON
+export type SourceStats = {
+  emails: number;
+  parsed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+export interface ProcessResult {
+  emailsScanned: number;
+  parsed: number;
+  created: number;
+  updated: number;
+  skipped: number; // Parsed but not saved
+  errors: string[];
+  bySource: Record<string, SourceStats>;
+}
+
+// Emails in these states had every parsed property committed
+const COMMITTED_STATUSES: EmailParseStatus[] = ["PARSED", "EMPTY"];
+
+// Runs that retry a FAILED or PARTIAL email before the cursor moves past it
+const MAX_PARSE_ATTEMPTS = 3;
+
+/**
+ * Whether another run could change an email's outcome
+ * Committed emails are done; so are emails with no HTML (nothing to parse)
+ * and ones that have failed MAX_PARSE_ATTEMPTS times - reprocess those by hand
+ */
+function isSettled(message: Pick<EmailMessage, "parseStatus" | "html" | "parseAttempts">) {
+  if (COMMITTED_STATUSES.includes(message.parseStatus)) return true;
+  if (message.parseStatus === "PENDING") return false;
+  return !message.html || message.parseAttempts >= MAX_PARSE_ATTEMPTS;
+}
+
 /**
- * Process emails and save properties to database
+ * Fetch new emails, store them and save their properties to database
+ * Runs are idempotent: the mailbox cursor only advances past settled emails,
+ * so anything after one that may still succeed is fetched and retried on the
+ * next run, and emails are marked \Seen only once their properties are committed
+ * Throws if the mailbox can't be read, so the run is recorded as failed
  */
 export async function processPropertyEmails(
   config: ImapConfig
-): Promise<{ created: number; updated: number; errors: string[] }> {
-  const errors: string[] = [];
-  let created = 0;
-  let updated = 0;
+): Promise<ProcessResult> {
+  const result = emptyResult();
+
+  // Fetch emails from inbox newer than the last stored UID
+  const cursor = await getMailboxCursor(MAILBOX);
+  const { emails, uidValidity } = await fetchPropertyEmails(config, cursor);
+
+  let lastUid =
+    cursor && cursor.uidValidity === uidValidity ? cursor.lastUid : 0;
+  // Set once an email isn't settled; the cursor stops just before it
+  let blocked = false;
+  const committedUids: number[] = [];
+
+  result.emailsScanned = emails.length;
+  console.log(`Processing ${emails.length} emails...`);
+
+  // Emails arrive sorted by UID
+  for (const email of emails) {
+    let message: EmailMessage;
+    try {
+      // Store the raw email before parsing so it can be reprocessed later
+      message = await storeEmailMessage(email);
+    } catch (error) {
+      blocked = true;
+      result.errors.push(`Error storing email ${email.messageId}: ${error}`);
+      continue;
+    }
+
+    try {
+      if (email.parseError) {
+        result.errors.push(email.parseError);
+      } else if (!isSettled(message)) {
+        // Pending emails, and failures from an earlier run, are (re)tried
+        const processed = await processEmailMessage(message);
+        addResult(result, processed);
+        message = {
+          ...message,
+          parseStatus: processed.parseStatus,
+          parseAttempts: message.parseAttempts + 1,
+        };
+      } else {
+        console.log(`Skipping already processed email: ${email.messageId}`);
+      }
+
+      if (COMMITTED_STATUSES.includes(message.parseStatus)) {
+        committedUids.push(email.uid);
+      }
+      if (!isSettled(message)) blocked = true;
+      if (!blocked) lastUid = email.uid;
+    } catch (error) {
+      blocked = true;
+      result.errors.push(`Error processing email ${email.messageId}: ${error}`);
+    }
+  }
+
+  await saveMailboxCursor(MAILBOX, { uidValidity, lastUid });
 
   try {
-    // Fetch emails from inbox
-    const properties = await fetchPropertyEmails(config);
+    await markEmailsAsRead(config, committedUids);
+  } catch (error) {
+    result.errors.push(`Error marking emails as read: ${error}`);
+  }
+
+  console.log(
+    `Processed ${emails.length} emails: ${result.created} created, ${result.updated} updated`
+  );
+
+  return result;
+}
+
+/**
+ * Parse a stored email and upsert its properties
+ * Shared by fresh ingestion and reprocessing
+ */
+export async function processEmailMessage(
+  message: EmailMessage
+): Promise<ProcessResult & { parseStatus: EmailParseStatus }> {
+  const result = emptyResult();
+  const listingIds: string[] = [];
+  let parsedCount = 0;
 
-    console.log(`Processing ${properties.length} properties...`);
+  if (message.html) {
+    const parsed = parsePropertyEmail(message.html, message.from);
+    result.errors.push(...parsed.errors);
+    parsedCount = parsed.properties.length;
 
-    // Process each property
-    for (const property of properties) {
+    for (const property of parsed.properties) {
       try {
-        const result = await upsertProperty(property);
-        if (result === "created") {
-          created++;
-        } else if (result === "updated") {
-          updated++;
+        const { status, listingId } = await upsertProperty(property, message.receivedAt);
+        listingIds.push(listingId);
+        if (status === "created") {
+          result.created++;
+        } else {
+          result.updated++;
         }
       } catch (error) {
-        errors.push(`Error processing property ${property.url}: ${error}`);
+        result.errors.push(`Error processing property ${property.url}: ${error}`);
       }
     }
+  } else {
+    result.errors.push("Email has no HTML body");
+  }
 
-    console.log(
-      `Processed ${properties.length} properties: ${created} created, ${updated} updated`
-    );
-  } catch (error) {
-    errors.push(`Error fetching emails: ${error}`);
+  const parseStatus = getParseStatus(parsedCount, listingIds.length, result.errors);
+
+  result.emailsScanned = 1;
+  result.parsed = parsedCount;
+  result.skipped = parsedCount - listingIds.length;
+  result.bySource[message.source] = {
+    emails: 1,
+    parsed: result.parsed,
+    created: result.created,
+    updated: result.updated,
+    skipped: result.skipped,
+  };
+
+  await prisma.emailMessage.update({
+    where: { id: message.id },
+    data: {
+      parseStatus,
+      parseErrors: result.errors,
+      parsedAt: new Date(),
+      parseAttempts: { increment: 1 },
+      listings: { set: listingIds.map((id) => ({ id })) },
+    },
+  });
+
+  return { ...result, parseStatus };
+}
+
+/**
+ * Re-run parsing and upserts for a single stored email
+ * Returns null if the email doesn't exist
+ */
+export async function reprocessEmail(
+  id: string
+): Promise<(ProcessResult & { parseStatus: EmailParseStatus }) | null> {
+  const message = await prisma.emailMessage.findUnique({ where: { id } });
+  if (!message) return null;
+
+  console.log(`Reprocessing email ${message.messageId}`);
+  return processEmailMessage(message);
+}
+
+/**
+ * Re-run parsing for every stored email from a source since a date
+ */
+export async function reprocessEmails(filters: {
+  source?: string;
+  since?: Date;
+}): Promise<ProcessResult> {
+  const messages = await findEmailMessages(filters);
+  const result = emptyResult();
+
+  console.log(`Reprocessing ${messages.length} emails...`);
+
+  for (const message of messages) {
+    try {
+      addResult(result, await processEmailMessage(message));
+    } catch (error) {
+      result.errors.push(`Error reprocessing email ${message.messageId}: ${error}`);
+    }
+  }
+
+  // Count every email, including ones that failed before processing
+  result.emailsScanned = messages.length;
+  return result;
+}
+
+function emptyResult(): ProcessResult {
+  return {
+    emailsScanned: 0,
+    parsed: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: [],
+    bySource: {},
+  };
+}
+
+function addResult(total: ProcessResult, result: ProcessResult) {
+  total.parsed += result.parsed;
+  total.created += result.created;
+  total.updated += result.updated;
+  total.skipped += result.skipped;
+  total.errors.push(...result.errors);
+
+  for (const [source, stats] of Object.entries(result.bySource)) {
+    const totals = (total.bySource[source] ??= {
+      emails: 0,
+      parsed: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+    });
+    totals.emails += stats.emails;
+    totals.parsed += stats.parsed;
+    totals.created += stats.created;
+    totals.updated += stats.updated;
+    totals.skipped += stats.skipped;
   }
+}
 
-  return { created, updated, errors };
+function getParseStatus(
+  parsedCount: number,
+  savedCount: number,
+  errors: string[]
+): EmailParseStatus {
+  if (parsedCount === 0) return errors.length > 0 ? "FAILED" : "EMPTY";
+  if (savedCount === 0) return "FAILED";
+  return errors.length > 0 ? "PARTIAL" : "PARSED";
 }
 
 /**
- * Upsert a property - create if new, update if exists
- * Checks both by source+sourceId AND by normalized address to prevent duplicates
+ * Upsert a parsed listing and the physical property it advertises
+ * Listings are matched by source+sourceId; a new listing joins an existing
+ * property with the same normalized address, otherwise a property is created
  */
-async function upsertProperty(
-  property: ParsedProperty
-): Promise<"created" | "updated"> {
-  // Try to find existing property by source + sourceId
-  let existing = await prisma.property.findUnique({
+export async function upsertProperty(
+  property: ParsedProperty,
+  seenAt: Date
+): Promise<{ status: "created" | "updated"; propertyId: string; listingId: string }> {
+  const existingListing = await prisma.listing.findUnique({
     where: {
       source_sourceId: {
         source: property.source,
@@ -62,115 +300,224 @@ async function upsertProperty(
     },
   });
 
-  // If not found by source+ID, check by normalized address
-  if (!existing) {
-    const normalized = normalizeAddress(
-      property.street,
-      property.city,
-      property.state
-    );
-
-    const allProperties = await prisma.property.findMany({
-      where: {
-        city: { equals: property.city, mode: "insensitive" },
-        state: { equals: property.state, mode: "insensitive" },
-      },
-    });
-
-    // Check if any match the normalized address
-    existing = allProperties.find((p) => {
-      const existingNormalized = normalizeAddress(p.street, p.city, p.state);
-      return existingNormalized === normalized;
-    }) || null;
-  }
-
-  const data = {
-    street: property.street,
-    city: property.city,
-    state: property.state,
-    zip: property.zip,
+  const price = new Prisma.Decimal(property.price);
+  const listingData = {
     source: property.source,
     sourceId: property.sourceId,
     url: property.url,
-    status: property.status ? mapStatus(property.status) : "ACTIVE",
-    price: new Prisma.Decimal(property.price),
-    propertyType: property.propertyType || "HOME",
-    beds: property.beds,
-    baths: property.baths ? new Prisma.Decimal(property.baths) : undefined,
-    sqft: property.sqft,
-    lotSize: property.lotSize
-      ? new Prisma.Decimal(property.lotSize)
-      : undefined,
-    images: property.images,
+    price,
   };
 
-  if (existing) {
-    // Update existing property
-    const oldPrice = existing.price;
-    const newPrice = new Prisma.Decimal(property.price);
-    const priceChanged = !oldPrice.equals(newPrice);
+  if (existingListing) {
+    const oldPrice = existingListing.price;
+    // An older email (backfill, retry, reprocess) must not roll back price,
+    // status or lastSeenAt; reprocessing the latest email still applies
+    const isLatest = seenAt >= existingListing.lastSeenAt;
+    const priceChanged = isLatest && !oldPrice.equals(price);
+    const status = isLatest ? nextStatus(existingListing.status, property) : existingListing.status;
 
-    await prisma.property.update({
-      where: { id: existing.id },
+    await prisma.listing.update({
+      where: { id: existingListing.id },
       data: {
-        ...data,
-        // Keep existing values if new data is missing
-        beds: property.beds ?? existing.beds,
-        baths: property.baths
-          ? new Prisma.Decimal(property.baths)
-          : existing.baths,
-        sqft: property.sqft ?? existing.sqft,
+        source: property.source,
+        sourceId: property.sourceId,
+        url: isLatest ? property.url : undefined,
+        price: isLatest ? price : undefined,
+        status,
+        firstSeenAt: seenAt < existingListing.firstSeenAt ? seenAt : undefined,
+        lastSeenAt: isLatest ? seenAt : undefined,
+        // Keep existing images if the email had none
         images:
-          property.images.length > 0 ? property.images : existing.images,
+          property.images.length > 0 ? property.images : existingListing.images,
       },
     });
 
     // Record price change if detected
-    if (priceChanged) {
+    if (priceChanged && !(await hasPriceHistory(existingListing.id, seenAt))) {
       await prisma.priceHistory.create({
         data: {
-          propertyId: existing.id,
+          listingId: existingListing.id,
           oldPrice,
-          newPrice,
-          changeDate: new Date(),
+          newPrice: price,
+          changeDate: seenAt,
         },
       });
     }
 
-    console.log(`Updated property: ${property.street}, ${property.city}`);
-    return "updated";
-  } else {
-    // Create new property
-    const savedProperty = await prisma.property.create({ data });
-
-    // If there's a price change from the email, record it
-    if (property.priceChange) {
-      await prisma.priceHistory.create({
+    // Record status changes, and open houses even though the status stays ACTIVE
+    if (
+      isLatest &&
+      (status !== existingListing.status || property.statusEvent === "OPEN_HOUSE") &&
+      !(await hasStatusHistory(existingListing.id, property.statusEvent, seenAt))
+    ) {
+      await prisma.statusHistory.create({
         data: {
-          propertyId: savedProperty.id,
-          oldPrice: new Prisma.Decimal(
-            property.price + property.priceChange.amount
-          ),
-          newPrice: new Prisma.Decimal(property.price),
-          changeDate: property.priceChange.date,
+          listingId: existingListing.id,
+          oldStatus: existingListing.status,
+          newStatus: status,
+          event: property.statusEvent,
+          changeDate: seenAt,
         },
       });
     }
 
-    console.log(`Created property: ${property.street}, ${property.city}`);
-    return "created";
+    await updatePropertyDetails(existingListing.propertyId, property);
+    await syncPropertySummary(existingListing.propertyId);
+
+    console.log(`Updated ${property.source} listing: ${property.street}, ${property.city}`);
+    return {
+      status: "updated",
+      propertyId: existingListing.propertyId,
+      listingId: existingListing.id,
+    };
+  }
+
+  // New listing - another source may already list this address
+  const existingProperty = await findPropertyByAddress(property);
+  const location = existingProperty ? null : await geocodeAddress(property);
+
+  const propertyId =
+    existingProperty?.id ??
+    (
+      await prisma.property.create({
+        data: {
+          street: property.street,
+          city: property.city,
+          state: property.state,
+          zip: property.zip,
+          status: property.status ?? "ACTIVE",
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+          addressKey: normalizeAddress(property.street, property.city, property.state),
+          latitude: location?.latitude,
+          longitude: location?.longitude,
+          geocodePrecision: location?.precision,
+          price,
+          propertyType: property.propertyType || "HOME",
+          beds: property.beds,
+          baths: property.baths ? new Prisma.Decimal(property.baths) : undefined,
+          sqft: property.sqft,
+          lotSize: property.lotSize
+            ? new Prisma.Decimal(property.lotSize)
+            : undefined,
+        },
+      })
+    ).id;
+
+  const listing = await prisma.listing.create({
+    data: {
+      ...listingData,
+      status: property.status ?? "ACTIVE",
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+      propertyId,
+      images: property.images,
+      // Start the status timeline
+      statusHistory: {
+        create: {
+          newStatus: property.status ?? "ACTIVE",
+          event: property.statusEvent,
+          changeDate: seenAt,
+        },
+      },
+    },
+  });
+
+  // If there's a price change from the email, record it
+  if (property.priceChange) {
+    await prisma.priceHistory.create({
+      data: {
+        listingId: listing.id,
+        oldPrice: new Prisma.Decimal(property.price + property.priceChange.amount),
+        newPrice: price,
+        changeDate: property.priceChange.date,
+      },
+    });
+  }
+
+  if (existingProperty) {
+    await updatePropertyDetails(existingProperty.id, property);
   }
+  await syncPropertySummary(propertyId);
+
+  if (existingProperty) {
+    console.log(`Added ${property.source} listing to property: ${property.street}, ${property.city}`);
+    return { status: "updated", propertyId, listingId: listing.id };
+  }
+
+  console.log(`Created property: ${property.street}, ${property.city}`);
+  return { status: "created", propertyId, listingId: listing.id };
+}
+
+/**
+ * Find a property with the same normalized address
+ */
+async function findPropertyByAddress(property: ParsedProperty) {
+  return prisma.property.findFirst({
+    where: {
+      addressKey: normalizeAddress(property.street, property.city, property.state),
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Refresh physical details from a listing, keeping existing values if new data is missing
+ * Fields edited by hand are never overwritten
+ */
+async function updatePropertyDetails(propertyId: string, property: ParsedProperty) {
+  const { overriddenFields } = await prisma.property.findUniqueOrThrow({
+    where: { id: propertyId },
+    select: { overriddenFields: true },
+  });
+
+  await prisma.property.update({
+    where: { id: propertyId },
+    data: withoutOverrides(
+      {
+        zip: property.zip ?? undefined,
+        beds: property.beds ?? undefined,
+        baths: property.baths ? new Prisma.Decimal(property.baths) : undefined,
+        sqft: property.sqft ?? undefined,
+        lotSize: property.lotSize
+          ? new Prisma.Decimal(property.lotSize)
+          : undefined,
+      },
+      overriddenFields
+    ),
+  });
 }
 
 /**
- * Map status string to enum value
+ * Status after the latest alert for an existing listing
+ * Alerts without a status label (new listing, price cut) keep the current
+ * status, except that they mean a "coming soon" listing has gone live,
+ * and a fresh alert for an expired listing means it's back on the market
  */
-function mapStatus(status: string): "ACTIVE" | "PENDING" | "SOLD" | "OFF_MARKET" {
-  const lower = status.toLowerCase();
-  if (lower.includes("pending")) return "PENDING";
-  if (lower.includes("sold")) return "SOLD";
-  if (lower.includes("off")) return "OFF_MARKET";
-  return "ACTIVE";
+function nextStatus(current: PropertyStatus, property: ParsedProperty): PropertyStatus {
+  if (property.status) return property.status;
+  if (current === "COMING_SOON" || current === "OFF_MARKET") return "ACTIVE";
+  return current;
+}
+
+/**
+ * Whether a listing already has a price change from this email's date,
+ * so processing the same email twice doesn't record it twice
+ */
+async function hasPriceHistory(listingId: string, changeDate: Date): Promise<boolean> {
+  const count = await prisma.priceHistory.count({ where: { listingId, changeDate } });
+  return count > 0;
+}
+
+async function hasStatusHistory(
+  listingId: string,
+  event: ListingEvent | undefined,
+  changeDate: Date
+): Promise<boolean> {
+  const count = await prisma.statusHistory.count({
+    where: { listingId, event: event ?? null, changeDate },
+  });
+  return count > 0;
 }
 
 /**
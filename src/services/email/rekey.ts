@@ -0,0 +1,188 @@
+import { PrismaClient, Prisma } from "../../../generated/prisma";
+import { sourceAdapters } from "./sources";
+import { resolveListingUrl } from "./urls";
+import { syncPropertySummary } from "./listings";
+import type { EditablePropertyField } from "../properties/types";
+
+const prisma = new PrismaClient();
+
+export interface RekeyResult {
+  scanned: number;
+  rekeyed: number;
+  merged: number;
+  errors: string[];
+}
+
+/**
+ * Re-key stored listings whose url/sourceId still hold click-tracking URLs
+ * Listings that resolve to one we already have are merged into it:
+ * price/status history and source emails move over, then the duplicate is deleted.
+ * A property left without listings is folded into the kept listing's property,
+ * unless both properties have a deal - that merge is left to be done by hand
+ */
+export async function rekeyListingUrls(): Promise<RekeyResult> {
+  const result: RekeyResult = { scanned: 0, rekeyed: 0, merged: 0, errors: [] };
+
+  for (const adapter of sourceAdapters) {
+    const listings = await prisma.listing.findMany({
+      where: { source: adapter.source },
+      select: { id: true, url: true, sourceId: true },
+      orderBy: { firstSeenAt: "asc" },
+    });
+
+    for (const listing of listings) {
+      result.scanned++;
+      if (!listing.url) continue;
+
+      const url = resolveListingUrl(listing.url, adapter);
+      const sourceId = adapter.extractSourceId(url);
+      if (url === listing.url && sourceId === listing.sourceId) continue;
+
+      try {
+        const existing = await prisma.listing.findUnique({
+          where: { source_sourceId: { source: adapter.source, sourceId } },
+          select: { id: true },
+        });
+
+        if (!existing || existing.id === listing.id) {
+          await prisma.listing.update({
+            where: { id: listing.id },
+            data: { url, sourceId },
+          });
+          result.rekeyed++;
+          continue;
+        }
+
+        const propertyId = await mergeListing(listing.id, existing.id, url);
+        await syncPropertySummary(propertyId);
+        result.merged++;
+      } catch (error) {
+        result.errors.push(`Failed to re-key listing ${listing.id}: ${error}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Move everything attached to a duplicate listing onto the kept one, then delete it
+ * Returns the kept listing's property ID
+ */
+async function mergeListing(duplicateId: string, keepId: string, url: string) {
+  return prisma.$transaction(async (tx) => {
+    const duplicate = await tx.listing.findUniqueOrThrow({
+      where: { id: duplicateId },
+      include: { emailMessages: { select: { id: true } } },
+    });
+
+    const kept = await tx.listing.findUniqueOrThrow({ where: { id: keepId } });
+
+    await tx.priceHistory.updateMany({
+      where: { listingId: duplicateId },
+      data: { listingId: keepId },
+    });
+    await tx.statusHistory.updateMany({
+      where: { listingId: duplicateId },
+      data: { listingId: keepId },
+    });
+
+    await tx.listing.update({
+      where: { id: keepId },
+      data: {
+        url,
+        firstSeenAt:
+          duplicate.firstSeenAt < kept.firstSeenAt
+            ? duplicate.firstSeenAt
+            : kept.firstSeenAt,
+        lastSeenAt:
+          duplicate.lastSeenAt > kept.lastSeenAt
+            ? duplicate.lastSeenAt
+            : kept.lastSeenAt,
+        emailMessages: { connect: duplicate.emailMessages },
+      },
+    });
+
+    await tx.listing.delete({ where: { id: duplicateId } });
+
+    if (duplicate.propertyId !== kept.propertyId) {
+      await foldOrphanProperty(tx, duplicate.propertyId, kept.propertyId);
+    }
+
+    return kept.propertyId;
+  });
+}
+
+// The kept property's address wins; its addressKey is built from it
+const ADDRESS_FIELDS: EditablePropertyField[] = ["street", "city", "state", "zip"];
+
+/**
+ * Delete a property that no longer has listings, moving its favorites,
+ * deal, flip scenarios, notes and hand edits onto the kept property first
+ * Throws if both properties have a deal, rolling the whole merge back
+ */
+async function foldOrphanProperty(
+  tx: Prisma.TransactionClient,
+  orphanId: string,
+  keepId: string
+) {
+  const remaining = await tx.listing.count({ where: { propertyId: orphanId } });
+  if (remaining > 0) return;
+
+  const orphan = await tx.property.findUniqueOrThrow({
+    where: { id: orphanId },
+    include: { deal: { select: { id: true } } },
+  });
+  const kept = await tx.property.findUniqueOrThrow({
+    where: { id: keepId },
+    include: { deal: { select: { id: true } } },
+  });
+
+  if (orphan.deal && kept.deal) {
+    throw new Error(`Properties ${orphanId} and ${keepId} both have a deal`);
+  }
+  if (orphan.deal) {
+    await tx.deal.update({ where: { id: orphan.deal.id }, data: { propertyId: keepId } });
+  }
+
+  await tx.flipScenario.updateMany({
+    where: { propertyId: orphanId },
+    data: { propertyId: keepId },
+  });
+
+  // A user may already have favorited both rows
+  const keptFavorites = await tx.favorite.findMany({
+    where: { propertyId: keepId },
+    select: { userId: true },
+  });
+  await tx.favorite.updateMany({
+    where: {
+      propertyId: orphanId,
+      userId: { notIn: keptFavorites.map((f) => f.userId) },
+    },
+    data: { propertyId: keepId },
+  });
+
+  // Hand edits only on the orphan carry over; the kept property's own edits stay
+  const adopted = (orphan.overriddenFields as EditablePropertyField[]).filter(
+    (field) => !kept.overriddenFields.includes(field) && !ADDRESS_FIELDS.includes(field)
+  );
+  const notes = [kept.notes, orphan.notes].filter(
+    (note, index, all): note is string => !!note && all.indexOf(note) === index
+  );
+
+  await tx.property.update({
+    where: { id: keepId },
+    data: {
+      ...Object.fromEntries(adopted.map((field) => [field, orphan[field]])),
+      overriddenFields: [...kept.overriddenFields, ...adopted],
+      notes: notes.length > 0 ? notes.join("\n\n") : null,
+    },
+  });
+
+  await tx.property.delete({ where: { id: orphanId } });
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
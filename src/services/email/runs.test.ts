@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+
+// Stand-ins for the database and mailbox so a run can be driven end to end
+const runUpdates: Record<string, unknown>[] = [];
+let fetchEmails: () => Promise<unknown> = async () => ({ emails: [], uidValidity: 1 });
+
+class FakePrismaClient {
+  ingestionRun = {
+    create: async ({ data }: { data: Record<string, unknown> }) => ({ id: "run-1", ...data }),
+    update: async ({ data }: { data: Record<string, unknown> }) => {
+      runUpdates.push(data);
+      return { id: "run-1", ...data };
+    },
+  };
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+mock.module("./mailbox", () => ({
+  getMailboxCursor: async () => null,
+  saveMailboxCursor: async () => {},
+}));
+mock.module("./fetcher", () => ({
+  MAILBOX: "INBOX",
+  fetchPropertyEmails: () => fetchEmails(),
+  markEmailsAsRead: async () => {},
+}));
+
+const { runIngestion } = await import("./runs");
+
+const config = {
+  user: "alerts@example.com",
+  password: "secret",
+  host: "imap.example.com",
+  port: 993,
+  tls: true,
+};
+
+describe("runIngestion", () => {
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeAll(() => {
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    logSpy.mockRestore();
+  });
+
+  test("a run that can't reach the mailbox fails", async () => {
+    fetchEmails = async () => {
+      throw new Error("connect ECONNREFUSED");
+    };
+
+    const result = await runIngestion(config, "MANUAL");
+
+    expect(result).toMatchObject({
+      run: { status: "FAILED", errors: ["Error: connect ECONNREFUSED"] },
+    });
+  });
+
+  test("a run with nothing new succeeds", async () => {
+    fetchEmails = async () => ({ emails: [], uidValidity: 1 });
+
+    const result = await runIngestion(config, "CRON");
+
+    expect(result).toMatchObject({ run: { status: "SUCCEEDED" } });
+    expect(runUpdates.at(-1)).toMatchObject({ emailsScanned: 0, errors: [] });
+  });
+
+  test("a second trigger while a run is going is turned away", async () => {
+    const { promise: mailbox, resolve: finishFetch } = Promise.withResolvers<unknown>();
+    fetchEmails = () => mailbox;
+
+    const first = runIngestion(config, "CRON");
+    expect(await runIngestion(config, "MANUAL")).toEqual({ runningId: "run-1" });
+
+    finishFetch({ emails: [], uidValidity: 1 });
+    expect(await first).toMatchObject({ run: { status: "SUCCEEDED" } });
+    expect(await runIngestion(config, "MANUAL")).toMatchObject({ run: { status: "SUCCEEDED" } });
+  });
+});
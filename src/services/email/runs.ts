@@ -0,0 +1,62 @@
+import {
+  PrismaClient,
+  type IngestionRun,
+  type IngestionTrigger,
+} from "../../../generated/prisma";
+import type { ImapConfig } from "./fetcher";
+import { processPropertyEmails } from "./processor";
+
+const prisma = new PrismaClient();
+
+// The run in progress in this process; the cron and the manual trigger share it
+let activeRun: Promise<IngestionRun> | null = null;
+
+/**
+ * Run email ingestion and record it as an IngestionRun
+ * The run row is created up front so in-flight and crashed runs are visible.
+ * Returns the running run's ID instead if one is already in progress
+ */
+export async function runIngestion(
+  config: ImapConfig,
+  trigger: IngestionTrigger
+): Promise<{ run: IngestionRun } | { runningId: string }> {
+  if (activeRun) return { runningId: (await activeRun).id };
+
+  // Claimed before the first await so a second trigger can't slip in
+  activeRun = prisma.ingestionRun.create({ data: { trigger } });
+  try {
+    return { run: await finishRun(await activeRun, config) };
+  } finally {
+    activeRun = null;
+  }
+}
+
+async function finishRun(run: IngestionRun, config: ImapConfig): Promise<IngestionRun> {
+  try {
+    const result = await processPropertyEmails(config);
+
+    return await prisma.ingestionRun.update({
+      where: { id: run.id },
+      data: {
+        status: result.errors.length > 0 ? "COMPLETED_WITH_ERRORS" : "SUCCEEDED",
+        finishedAt: new Date(),
+        emailsScanned: result.emailsScanned,
+        propertiesParsed: result.parsed,
+        propertiesCreated: result.created,
+        propertiesUpdated: result.updated,
+        propertiesSkipped: result.skipped,
+        sourceStats: result.bySource,
+        errors: result.errors,
+      },
+    });
+  } catch (error) {
+    return await prisma.ingestionRun.update({
+      where: { id: run.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        errors: [`${error}`],
+      },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import type { SourceAdapter } from "./types";
+import { zillowAdapter } from "./zillow";
+import { redfinAdapter } from "./redfin";
+import { realtorAdapter } from "./realtor";
+import { landAdapter } from "./land";
+
+/**
+ * Registered alert email providers, in match priority order
+ * To support a new provider, add its adapter module here
+ */
+export const sourceAdapters: SourceAdapter[] = [
+  zillowAdapter,
+  redfinAdapter,
+  realtorAdapter,
+  landAdapter,
+];
+
+/**
+ * Find the adapter for an email by sender address or URL
+ */
+export function findSourceAdapter(
+  email: string,
+  url?: string
+): SourceAdapter | undefined {
+  const lowerEmail = email.toLowerCase();
+  const lowerUrl = url?.toLowerCase() || "";
+
+  return sourceAdapters.find(
+    (adapter) =>
+      adapter.senders.some((sender) => lowerEmail.includes(sender)) ||
+      (lowerUrl !== "" &&
+        adapter.urlPatterns.some((pattern) => lowerUrl.includes(pattern)))
+  );
+}
+
+/**
+ * Determine source from email address or URL
+ */
+export function determineSource(email: string, url?: string): string {
+  return findSourceAdapter(email, url)?.source ?? "unknown";
+}
+
+/** An IMAP search key with its value, or an OR of two criteria */
+type SearchCriterion = [string, string] | ["OR", SearchCriterion, SearchCriterion];
+
+/**
+ * Build the IMAP FROM search criteria for every registered sender
+ * OR must have exactly 2 arguments, so we nest them:
+ * ["OR", ["FROM", "a"], ["OR", ["FROM", "b"], ["FROM", "c"]]]
+ */
+export function buildSenderSearchCriteria(
+  adapters: SourceAdapter[] = sourceAdapters
+): SearchCriterion {
+  const criteria = adapters.flatMap((adapter) =>
+    adapter.senders.map((sender): SearchCriterion => ["FROM", sender])
+  );
+
+  const last = criteria.pop();
+  if (!last) {
+    throw new Error("No source adapters registered");
+  }
+
+  return criteria.reduceRight<SearchCriterion>(
+    (nested, criterion) => ["OR", criterion, nested],
+    last
+  );
+}
+
+export type { SourceAdapter, ListingCard, ExtractedListing } from "./types";
@@ -0,0 +1,51 @@
+import type { SourceAdapter } from "./types";
+import { parseAddress, parsePrice, extractListingId } from "../utils";
+
+/**
+ * Land.com alert emails
+ */
+export const landAdapter: SourceAdapter = {
+  source: "land",
+  label: "Land.com",
+  senders: ["land"],
+  urlPatterns: ["land.com"],
+
+  isListingLink() {
+    return true;
+  },
+
+  canonicalizeUrl(url) {
+    const property = url.match(/land\.com(\/property\/[^?#]+)/i);
+    return property ? `https://www.land.com${property[1]}` : null;
+  },
+
+  findCard($link) {
+    return $link.closest("table, div, td").first();
+  },
+
+  extractListing({ text }) {
+    // Extract price
+    const priceMatch = text.match(/\$[\d,]+/);
+    if (!priceMatch) return null;
+    const price = parsePrice(priceMatch[0]);
+
+    // Extract address
+    const addressMatch = text.match(/[^,]+,\s*[^,]+,\s*[A-Z]{2}/);
+    if (!addressMatch) return null;
+
+    // Extract lot size (common for land)
+    const lotSizeMatch = text.match(/([\d.]+)\s*acres?/i);
+    const lotSize = lotSizeMatch ? parseFloat(lotSizeMatch[1] ?? "0") : undefined;
+
+    return {
+      ...parseAddress(addressMatch[0]),
+      price,
+      lotSize,
+      propertyType: "LAND",
+    };
+  },
+
+  extractSourceId(url) {
+    return extractListingId(url, "land");
+  },
+};
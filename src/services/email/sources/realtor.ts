@@ -0,0 +1,80 @@
+import type { SourceAdapter } from "./types";
+import {
+  parseAddress,
+  parsePrice,
+  parseSpecs,
+  extractListingId,
+} from "../utils";
+
+/**
+ * Realtor.com alert emails
+ * Property data is split across multiple links (realtor.com and move.com
+ * trackers), so we look at the whole surrounding table
+ */
+export const realtorAdapter: SourceAdapter = {
+  source: "realtor",
+  label: "Realtor",
+  senders: ["realtor"],
+  urlPatterns: ["realtor.com", "move.com"],
+
+  isListingLink(url) {
+    // Skip footer/utility links
+    return (
+      !url.includes("unsubscribe") &&
+      !url.includes("privacy") &&
+      !url.toLowerCase().includes("keep searching")
+    );
+  },
+
+  canonicalizeUrl(url) {
+    const detail = url.match(/realtor\.com\/realestateandhomes-detail\/([^/?#]+)/i);
+    return detail
+      ? `https://www.realtor.com/realestateandhomes-detail/${detail[1]}`
+      : null;
+  },
+
+  findCard($link) {
+    // Realtor.com typically uses nested tables
+    return $link.closest("table[role='presentation'], table").first();
+  },
+
+  extractListing({ text }) {
+    // Must have both price and address to be a property card
+    const priceMatch = text.match(/\$[\d,]+/);
+    const addressMatch = text.match(/\d+\s+[^,\n]+(?:,|\n)\s*[^,\n]+(?:,|\n)\s*[A-Z]{2}(?:\s+\d{5})?/);
+
+    if (!priceMatch || !addressMatch) {
+      return null;
+    }
+
+    const price = parsePrice(priceMatch[0]);
+    console.log(`    💰 Found price: ${priceMatch[0]}`);
+
+    // Clean up address - remove newlines and specs prefix
+    let addressStr = addressMatch[0]
+      .replace(/\n+/g, " ")
+      .replace(/\s+/g, " ")
+      .replace(/^\d+\s*bed.*?sqft\s*/i, "") // Remove bed/bath/sqft prefix
+      .replace(/^.*?(\d+\s+[A-Za-z])/s, "$1") // Find first street number followed by letter
+      .trim();
+
+    // Fix missing comma between street and city (e.g., "305 Sunridge DrSpartanburg" -> "305 Sunridge Dr, Spartanburg")
+    // Look for pattern: Street abbreviation followed by capital letter (city name)
+    addressStr = addressStr.replace(
+      /\b(St|Ave|Rd|Dr|Ct|Ln|Blvd|Way|Pl|Cir|Ter|Pkwy|Trl)([A-Z][a-z]+)/,
+      "$1, $2"
+    );
+
+    console.log(`    📍 Raw address from email: "${addressStr}"`);
+
+    return {
+      ...parseAddress(addressStr),
+      price,
+      ...parseSpecs(text),
+    };
+  },
+
+  extractSourceId(url) {
+    return extractListingId(url, "realtor");
+  },
+};
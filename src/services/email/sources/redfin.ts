@@ -0,0 +1,66 @@
+import type { SourceAdapter } from "./types";
+import {
+  parseAddress,
+  parsePrice,
+  parseSpecs,
+  parsePriceChange,
+  extractListingId,
+} from "../utils";
+
+/**
+ * Redfin alert emails
+ * Redfin links point straight at /home/<id> listing pages
+ */
+export const redfinAdapter: SourceAdapter = {
+  source: "redfin",
+  label: "Redfin",
+  senders: ["redfin"],
+  urlPatterns: ["redfin.com"],
+
+  isListingLink(url) {
+    return url.includes("/home/");
+  },
+
+  canonicalizeUrl(url) {
+    const home = url.match(/redfin\.com(\/[^?#]*\/home\/\d+)/i);
+    return home ? `https://www.redfin.com${home[1]}` : null;
+  },
+
+  findCard($link) {
+    return $link.closest("table, div, td").first();
+  },
+
+  extractListing({ text }) {
+    // Extract price
+    const priceMatch = text.match(/\$[\d,]+/);
+    if (!priceMatch) return null;
+    const price = parsePrice(priceMatch[0]);
+
+    // Check for price change
+    const priceChangeMatch = text.match(/Price cut:\s*\$\d+K\s*\(\d+\/\d+\)/);
+    const priceChange = priceChangeMatch
+      ? parsePriceChange(priceChangeMatch[0]) || undefined
+      : undefined;
+
+    // Extract address - clean up any sqft prefix and newlines
+    const addressMatch = text.match(/\d+\s+[^,]+,\s*[^,]+,\s*[A-Z]{2}/);
+    if (!addressMatch) return null;
+
+    const addressStr = addressMatch[0]
+      .replace(/^\d+\s*Sq\.\s*Ft\.\s*/i, "") // Remove sqft prefix if present
+      .trim()
+      .replace(/\n+/g, " ")
+      .replace(/\s+/g, " "); // Normalize whitespace and newlines
+
+    return {
+      ...parseAddress(addressStr),
+      price,
+      priceChange,
+      ...parseSpecs(text),
+    };
+  },
+
+  extractSourceId(url) {
+    return extractListingId(url, "redfin");
+  },
+};
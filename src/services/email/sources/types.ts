@@ -0,0 +1,60 @@
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { AnyNode } from "domhandler";
+import type { ParsedProperty } from "../types";
+
+/**
+ * A listing card found in an alert email, ready for field extraction
+ */
+export interface ListingCard {
+  $: CheerioAPI;
+  $card: Cheerio<AnyNode>;
+  text: string;
+  url: string;
+}
+
+/**
+ * Fields an adapter extracts from a card
+ * source, sourceId and url are filled in by the shared parser
+ */
+export type ExtractedListing = Omit<
+  ParsedProperty,
+  "source" | "sourceId" | "url" | "images"
+> & {
+  images?: string[];
+};
+
+/**
+ * Describes one alert email provider (Zillow, Redfin, ...)
+ * Register new providers in ./index.ts
+ */
+export interface SourceAdapter {
+  /** Value stored in Property.source */
+  source: string;
+
+  /** Display name for logs */
+  label: string;
+
+  /** Sender substrings - matched against From and used for the IMAP FROM search */
+  senders: string[];
+
+  /** URL substrings identifying this provider's links */
+  urlPatterns: string[];
+
+  /** Whether a link points at a listing rather than a footer/settings page */
+  isListingLink(url: string): boolean;
+
+  /**
+   * Canonical listing URL for an (already unwrapped) URL,
+   * or null if it isn't one of this provider's listing pages
+   */
+  canonicalizeUrl(url: string): string | null;
+
+  /** Find the card container that holds a listing link's data */
+  findCard($link: Cheerio<AnyNode>): Cheerio<AnyNode>;
+
+  /** Extract listing fields from a card, or null if it isn't a property card */
+  extractListing(card: ListingCard): ExtractedListing | null;
+
+  /** Stable listing ID for a canonical listing URL */
+  extractSourceId(url: string): string;
+}
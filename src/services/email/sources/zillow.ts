@@ -0,0 +1,83 @@
+import type { SourceAdapter } from "./types";
+import {
+  parseAddress,
+  parsePrice,
+  parseSpecs,
+  extractListingId,
+} from "../utils";
+
+/**
+ * Zillow alert emails
+ * Zillow uses click-tracking URLs, so any zillow.com link may be a listing
+ * and the data lives in a larger table container around it
+ * Trackers are unwrapped to the /homedetails/<slug>/<zpid>_zpid/ page
+ */
+export const zillowAdapter: SourceAdapter = {
+  source: "zillow",
+  label: "Zillow",
+  senders: ["zillow"],
+  urlPatterns: ["zillow.com"],
+
+  isListingLink(url) {
+    // Skip footer/settings links
+    return (
+      !url.includes("unsubscribe") &&
+      !url.includes("settings") &&
+      !url.includes("_web_")
+    );
+  },
+
+  canonicalizeUrl(url) {
+    const details = url.match(/zillow\.com\/homedetails\/([^/?#]+)\/(\d+)_zpid/i);
+    if (details) {
+      return `https://www.zillow.com/homedetails/${details[1]}/${details[2]}_zpid/`;
+    }
+
+    // Some links carry only the zpid as a query param
+    const zpid = url.match(/zillow\.com\/.*[?&]zpid=(\d+)/i);
+    if (zpid) {
+      return `https://www.zillow.com/homedetails/${zpid[1]}_zpid/`;
+    }
+
+    return null;
+  },
+
+  findCard($link) {
+    return $link.closest("table[role='presentation'], table").first();
+  },
+
+  extractListing({ text }) {
+    // Must have both price and address to be a property card
+    const priceMatch = text.match(/\$[\d,]+/);
+    // Keep the address to one line so the specs line above it isn't swept in
+    const addressMatch = text.match(/\d+[ \t]+[^,|\n]+,[ \t]*[^,|\n]+,[ \t]*[A-Z]{2}(?:[ \t]+\d{5})?/);
+
+    if (!priceMatch || !addressMatch) {
+      return null;
+    }
+
+    const price = parsePrice(priceMatch[0]);
+    console.log(`    💰 Found price: ${priceMatch[0]}`);
+
+    // Clean up address - remove common prefixes like sqft, bd/ba specs
+    const cleanAddress = addressMatch[0]
+      .replace(/^\d+\s*sqft\s*/i, "") // Remove leading sqft
+      .replace(/^\d+\s*\n+/g, "") // Remove leading numbers with newlines
+      .replace(/^\d+\s*bd.*?sqft\s*/is, "") // Remove bed/bath/sqft prefix with newlines
+      .replace(/^.*?(\d+\s+[A-Za-z])/s, "$1") // Find first street number followed by letter
+      .replace(/\s+/g, " ") // Collapse whitespace left by the email's markup
+      .trim();
+
+    console.log(`    📍 Raw address from email: "${cleanAddress}"`);
+
+    return {
+      ...parseAddress(cleanAddress),
+      price,
+      ...parseSpecs(text),
+    };
+  },
+
+  extractSourceId(url) {
+    return extractListingId(url, "zillow");
+  },
+};
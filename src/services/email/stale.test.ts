@@ -0,0 +1,59 @@
+import { describe, expect, mock, test } from "bun:test";
+import * as prismaModule from "../../../generated/prisma";
+
+type FakeListing = { id: string; source: string; status: string; propertyId: string; lastSeenAt: Date };
+
+// An in-memory listing table that honours the sweep's filter
+const longAgo = new Date("2026-01-01T00:00:00Z");
+const listings: FakeListing[] = [
+  { id: "alert", source: "zillow", status: "ACTIVE", propertyId: "p1", lastSeenAt: longAgo },
+  { id: "imported", source: "import", status: "ACTIVE", propertyId: "p2", lastSeenAt: longAgo },
+];
+
+class FakePrismaClient {
+  listing = {
+    findMany: async ({ where }: { where: prismaModule.Prisma.ListingWhereInput }) => {
+      const sources = (where.source as { in: string[] }).in;
+      const statuses = (where.status as { in: string[] }).in;
+      const cutoff = (where.lastSeenAt as { lt: Date }).lt;
+      return listings.filter(
+        (listing) =>
+          sources.includes(listing.source) &&
+          statuses.includes(listing.status) &&
+          listing.lastSeenAt < cutoff
+      );
+    },
+    update: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+      const listing = listings.find((candidate) => candidate.id === where.id)!;
+      listing.status = data.status;
+      return listing;
+    },
+  };
+  statusHistory = {
+    create: async ({ data }: { data: Record<string, unknown> }) => data,
+  };
+  async $transaction(operations: Promise<unknown>[]) {
+    return Promise.all(operations);
+  }
+  async $disconnect() {}
+}
+
+mock.module("../../../generated/prisma", () => ({
+  ...prismaModule,
+  PrismaClient: FakePrismaClient,
+}));
+mock.module("./listings", () => ({
+  syncPropertySummary: async () => {},
+}));
+
+const { sweepStaleListings } = await import("./stale");
+
+describe("sweepStaleListings", () => {
+  test("expires stale alert listings but leaves imported ones alone", async () => {
+    const result = await sweepStaleListings(30);
+
+    expect(result).toEqual({ expired: 1, propertiesUpdated: 1, errors: [] });
+    expect(listings.find((listing) => listing.id === "alert")!.status).toBe("OFF_MARKET");
+    expect(listings.find((listing) => listing.id === "imported")!.status).toBe("ACTIVE");
+  });
+});
@@ -0,0 +1,89 @@
+import { PrismaClient, type Prisma } from "../../../generated/prisma";
+import { syncPropertySummary } from "./listings";
+import { sourceAdapters } from "./sources";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_STALE_LISTING_DAYS = 45;
+
+export interface StaleSweepResult {
+  expired: number;
+  propertiesUpdated: number;
+  errors: string[];
+}
+
+/**
+ * Days without an alert before a listing is presumed off the market
+ */
+export function getStaleListingDays(): number {
+  const days = parseInt(process.env.STALE_LISTING_DAYS || "", 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_STALE_LISTING_DAYS;
+}
+
+/**
+ * Open listings from alert sources that haven't been seen since the cutoff
+ * Imported and hand-entered listings never get alerts, so they're left alone
+ */
+export function staleListingFilter(cutoff: Date): Prisma.ListingWhereInput {
+  return {
+    source: { in: sourceAdapters.map((adapter) => adapter.source) },
+    status: { in: ["COMING_SOON", "ACTIVE", "PENDING"] },
+    lastSeenAt: { lt: cutoff },
+  };
+}
+
+/**
+ * Mark listings that haven't appeared in any alert for `staleDays` as OFF_MARKET
+ * Each expiry lands in the status timeline, and a later alert revives the listing
+ */
+export async function sweepStaleListings(
+  staleDays: number = getStaleListingDays()
+): Promise<StaleSweepResult> {
+  const result: StaleSweepResult = { expired: 0, propertiesUpdated: 0, errors: [] };
+  const cutoff = new Date(Date.now() - staleDays * 24 * 60 * 60 * 1000);
+
+  const stale = await prisma.listing.findMany({
+    where: staleListingFilter(cutoff),
+    select: { id: true, status: true, propertyId: true },
+  });
+
+  const propertyIds = new Set<string>();
+
+  for (const listing of stale) {
+    try {
+      await prisma.$transaction([
+        prisma.listing.update({
+          where: { id: listing.id },
+          data: { status: "OFF_MARKET" },
+        }),
+        prisma.statusHistory.create({
+          data: {
+            listingId: listing.id,
+            oldStatus: listing.status,
+            newStatus: "OFF_MARKET",
+            event: "EXPIRED",
+          },
+        }),
+      ]);
+      result.expired++;
+      propertyIds.add(listing.propertyId);
+    } catch (error) {
+      result.errors.push(`Failed to expire listing ${listing.id}: ${error}`);
+    }
+  }
+
+  for (const propertyId of propertyIds) {
+    try {
+      await syncPropertySummary(propertyId);
+      result.propertiesUpdated++;
+    } catch (error) {
+      result.errors.push(`Failed to sync property ${propertyId}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -1,3 +1,14 @@
+/** Mirrors the PropertyStatus enum */
+export type ListingStatus = "COMING_SOON" | "ACTIVE" | "PENDING" | "SOLD" | "OFF_MARKET";
+
+/** Alert variants that report a listing's status, mirrors the ListingEvent enum */
+export type ListingEvent =
+  | "COMING_SOON"
+  | "PENDING"
+  | "BACK_ON_MARKET"
+  | "SOLD"
+  | "OPEN_HOUSE";
+
 export interface ParsedProperty {
   // Location
   street: string;
@@ -8,8 +19,9 @@ export interface ParsedProperty {
   // Listing Info
   source: string;
   sourceId: string;
-  url: string;
-  status?: string;
+  url: string | null; // Imported rows may not have a link
+  status?: ListingStatus; // Only set when the alert says so
+  statusEvent?: ListingEvent;
 
   // Pricing
   price: number;
@@ -33,3 +45,17 @@ export interface EmailParserResult {
   properties: ParsedProperty[];
   errors: string[];
 }
+
+/**
+ * A raw alert email as pulled from the mailbox, before parsing
+ */
+export interface FetchedEmail {
+  uid: number; // IMAP UID within the fetched mailbox
+  messageId: string;
+  from: string;
+  subject?: string;
+  receivedAt: Date;
+  html?: string;
+  text?: string;
+  parseError?: string; // Set when the raw message couldn't be decoded
+}
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import { canonicalizeUrl, resolveListingUrl, unwrapTrackingUrl } from "./urls";
+import { sourceAdapters } from "./sources";
+import { extractListingId } from "./utils";
+
+const base64url = (value: string) => Buffer.from(value).toString("base64url");
+
+const ZILLOW_LISTING =
+  "https://www.zillow.com/homedetails/912-Maple-Ave-Spartanburg-SC-29302/11223344_zpid/";
+const REALTOR_LISTING =
+  "https://www.realtor.com/realestateandhomes-detail/14-Cedar-Ct_Greer_SC_29651_M61234-56789";
+
+describe("unwrapTrackingUrl", () => {
+  test.each([
+    [
+      "percent-encoded redirect param",
+      `https://ct.move.com/click?eid=1&url=${encodeURIComponent(REALTOR_LISTING)}`,
+      REALTOR_LISTING,
+    ],
+    [
+      "base64url path segment",
+      `https://click.mail.zillow.com/f/a/${base64url(ZILLOW_LISTING)}/AAAAAQA~/RgRk`,
+      ZILLOW_LISTING,
+    ],
+    [
+      "base64 query value",
+      `https://links.example.com/ls/click?p=${encodeURIComponent(Buffer.from(ZILLOW_LISTING).toString("base64"))}`,
+      ZILLOW_LISTING,
+    ],
+    [
+      "nested trackers",
+      `https://t.example.com/r?u=${encodeURIComponent(
+        `https://ct.move.com/click?url=${encodeURIComponent(REALTOR_LISTING)}`
+      )}`,
+      REALTOR_LISTING,
+    ],
+    [
+      "opaque tracker",
+      "https://click.mail.zillow.com/f/a/aaa111/bbb222",
+      "https://click.mail.zillow.com/f/a/aaa111/bbb222",
+    ],
+  ])("%s", (_, input, expected) => {
+    expect(unwrapTrackingUrl(input)).toBe(expected);
+  });
+});
+
+describe("canonicalizeUrl", () => {
+  test("strips campaign params and fragments", () => {
+    expect(
+      canonicalizeUrl("http://WWW.Example.com/listing/1?utm_source=email&rtoken=x&page=2#photos")
+    ).toBe("https://www.example.com/listing/1?page=2");
+  });
+});
+
+describe("resolveListingUrl", () => {
+  const adapter = (source: string) =>
+    sourceAdapters.find((a) => a.source === source)!;
+
+  test.each([
+    [
+      "zillow",
+      `https://click.mail.zillow.com/f/a/${base64url(`${ZILLOW_LISTING}?utm_source=email`)}/x`,
+      ZILLOW_LISTING,
+      "11223344",
+    ],
+    [
+      "zillow",
+      "https://www.zillow.com/homes/for_sale/?zpid=55667788&utm_medium=email",
+      "https://www.zillow.com/homedetails/55667788_zpid/",
+      "55667788",
+    ],
+    [
+      "realtor",
+      `https://ct.move.com/click?url=${encodeURIComponent(`${REALTOR_LISTING}?cid=eml`)}`,
+      REALTOR_LISTING,
+      "61234-56789",
+    ],
+    [
+      "redfin",
+      "https://www.redfin.com/SC/Greer/5-Elm-Rd-29650/home/123456?utm_source=alert",
+      "https://www.redfin.com/SC/Greer/5-Elm-Rd-29650/home/123456",
+      "123456",
+    ],
+  ])("%s: %s", (source, input, expectedUrl, expectedId) => {
+    const url = resolveListingUrl(input, adapter(source));
+    expect(url).toBe(expectedUrl);
+    expect(extractListingId(url, source)).toBe(expectedId);
+  });
+
+  test("leaves undecodable trackers untouched", () => {
+    const tracker = "https://click.mail.zillow.com/f/a/aaa111/bbb222?eid=9";
+    expect(resolveListingUrl(tracker, adapter("zillow"))).toBe(tracker);
+  });
+});
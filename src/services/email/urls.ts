@@ -0,0 +1,153 @@
+/**
+ * Offline canonicalization of click-tracking URLs
+ *
+ * Alert emails wrap listing links in redirect trackers, e.g.
+ * - https://click.mail.zillow.com/f/a/<base64 url>/...
+ * - https://ct.move.com/click?url=https%3A%2F%2Fwww.realtor.com%2F...
+ * We never follow the redirect; we only decode what the tracker carries.
+ */
+
+import type { SourceAdapter } from "./sources/types";
+
+// Query params trackers commonly use to carry the destination
+const REDIRECT_PARAMS = [
+  "url",
+  "u",
+  "target",
+  "target_url",
+  "redirect",
+  "redirect_url",
+  "redirecturl",
+  "dest",
+  "destination",
+  "link",
+  "href",
+  "r",
+];
+
+// Query params that only describe the campaign, never the listing
+const TRACKING_PARAM_PATTERN =
+  /^(utm_\w+|rtoken|mc_cid|mc_eid|_hsenc|_hsmi|cid|eid|mid|rid|trk|trkid|campaign\w*|email\w*|src|source)$/i;
+
+const MAX_UNWRAP_DEPTH = 5;
+
+/**
+ * Follow tracker layers offline until a URL with no embedded destination remains
+ */
+export function unwrapTrackingUrl(url: string): string {
+  let current = url.trim();
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    const next = findEmbeddedUrl(current);
+    if (!next || next === current) break;
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Resolve the canonical listing URL behind an email link
+ * Trackers we can't decode are returned untouched so the link still works
+ */
+export function resolveListingUrl(
+  url: string,
+  adapter: Pick<SourceAdapter, "canonicalizeUrl">
+): string {
+  const unwrapped = unwrapTrackingUrl(url);
+
+  const listingUrl = adapter.canonicalizeUrl(unwrapped);
+  if (listingUrl) return listingUrl;
+
+  return unwrapped !== url.trim() ? canonicalizeUrl(unwrapped) : url;
+}
+
+/**
+ * Unwrap trackers and strip campaign params and fragments
+ * Returns the input unchanged if it isn't a parseable URL
+ */
+export function canonicalizeUrl(url: string): string {
+  const unwrapped = unwrapTrackingUrl(url);
+
+  let parsed: URL;
+  try {
+    parsed = new URL(unwrapped);
+  } catch {
+    return unwrapped;
+  }
+
+  parsed.hash = "";
+  parsed.hostname = parsed.hostname.toLowerCase();
+  if (parsed.protocol === "http:") parsed.protocol = "https:";
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAM_PATTERN.test(key)) parsed.searchParams.delete(key);
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Find a destination URL carried by a tracker URL, if any
+ * Checks redirect query params first, then base64-encoded query values and path segments
+ */
+function findEmbeddedUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  // Plain or percent-encoded destination in a known redirect param
+  for (const [key, value] of parsed.searchParams) {
+    if (REDIRECT_PARAMS.includes(key.toLowerCase())) {
+      const candidate = extractHttpUrl(safeDecodeURIComponent(value));
+      if (candidate) return candidate;
+    }
+  }
+
+  // Base64 payloads in any query value or path segment
+  const encodedParts = [
+    ...parsed.searchParams.values(),
+    ...parsed.pathname.split("/"),
+  ];
+
+  for (const part of encodedParts) {
+    const decoded = decodeBase64(safeDecodeURIComponent(part));
+    if (!decoded) continue;
+
+    const candidate = extractHttpUrl(safeDecodeURIComponent(decoded));
+    if (candidate) return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Decode a base64/base64url string, or null if it doesn't look like one
+ */
+function decodeBase64(value: string): string | null {
+  // Short segments are IDs, not payloads
+  if (value.length < 16 || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) {
+    return null;
+  }
+
+  const decoded = Buffer.from(value, "base64").toString("utf8");
+
+  // Random tokens decode to binary noise - only keep printable results
+  return /^[\x20-\x7E]+$/.test(decoded) ? decoded : null;
+}
+
+function extractHttpUrl(value: string): string | null {
+  const match = value.match(/https?:\/\/[^\s"'<>]+/i);
+  return match?.[0] ?? null;
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, test, expect } from "bun:test";
+import { Prisma } from "../../../generated/prisma";
+import {
+  summarizeListings,
+  detectListingStatus,
+  daysOnMarket,
+  withoutOverrides,
+} from "./utils";
+
+const listing = (
+  price: number,
+  status: "ACTIVE" | "PENDING" | "SOLD" | "OFF_MARKET",
+  updatedAt: string
+) => ({
+  price: new Prisma.Decimal(price),
+  status,
+  updatedAt: new Date(updatedAt),
+  firstSeenAt: new Date("2025-10-01"),
+  lastSeenAt: new Date(updatedAt),
+});
+
+describe("summarizeListings", () => {
+  test("uses the lowest active asking price", () => {
+    const summary = summarizeListings([
+      listing(315000, "ACTIVE", "2025-11-10"),
+      listing(299000, "ACTIVE", "2025-11-01"),
+      listing(250000, "SOLD", "2025-11-12"),
+    ]);
+
+    expect(summary?.price.toNumber()).toBe(299000);
+    expect(summary?.status).toBe("ACTIVE");
+  });
+
+  test("falls back to the most recently updated listing", () => {
+    const summary = summarizeListings([
+      listing(315000, "PENDING", "2025-11-10"),
+      listing(305000, "SOLD", "2025-11-14"),
+    ]);
+
+    expect(summary?.price.toNumber()).toBe(305000);
+    expect(summary?.status).toBe("SOLD");
+  });
+
+  test("spans the listings' seen dates", () => {
+    const summary = summarizeListings([
+      { ...listing(315000, "ACTIVE", "2025-11-10"), firstSeenAt: new Date("2025-09-15") },
+      listing(299000, "ACTIVE", "2025-11-12"),
+    ]);
+
+    expect(summary?.firstSeenAt).toEqual(new Date("2025-09-15"));
+    expect(summary?.lastSeenAt).toEqual(new Date("2025-11-12"));
+  });
+
+  test("price drop is the largest cut from an original asking price", () => {
+    const summary = summarizeListings([
+      { ...listing(299000, "ACTIVE", "2025-11-10"), originalPrice: new Prisma.Decimal(325000) },
+      { ...listing(310000, "ACTIVE", "2025-11-12"), originalPrice: new Prisma.Decimal(320000) },
+      // A raise is not a drop
+      { ...listing(305000, "PENDING", "2025-11-01"), originalPrice: new Prisma.Decimal(300000) },
+    ]);
+
+    expect(summary?.priceDrop.toNumber()).toBe(26000);
+  });
+
+  test("no price drop without history", () => {
+    expect(summarizeListings([listing(299000, "ACTIVE", "2025-11-10")])?.priceDrop.toNumber()).toBe(0);
+  });
+
+  test("price per square foot when sqft is known", () => {
+    const listings = [listing(300000, "ACTIVE", "2025-11-10")];
+
+    expect(summarizeListings(listings, 1600)?.pricePerSqft?.toNumber()).toBe(187.5);
+    expect(summarizeListings(listings, null)?.pricePerSqft).toBeNull();
+  });
+
+  test("freezes days on market once off the market", () => {
+    const listed = { ...listing(299000, "OFF_MARKET", "2025-11-10"), firstSeenAt: new Date("2025-10-01") };
+
+    expect(summarizeListings([listed])?.offMarketDays).toBe(40);
+    expect(summarizeListings([{ ...listed, status: "ACTIVE" }])?.offMarketDays).toBeNull();
+  });
+
+  test("keeps a hand-edited price and status", () => {
+    const summary = summarizeListings([listing(300000, "ACTIVE", "2025-11-10")], 1600, {
+      price: new Prisma.Decimal(280000),
+      status: "SOLD",
+    });
+
+    expect(summary?.price.toNumber()).toBe(280000);
+    expect(summary?.pricePerSqft?.toNumber()).toBe(175);
+    expect(summary?.status).toBe("SOLD");
+    expect(summary?.offMarketDays).toBe(40);
+  });
+
+  test("returns null without listings", () => {
+    expect(summarizeListings([])).toBeNull();
+  });
+});
+
+describe("withoutOverrides", () => {
+  test("drops hand-edited fields", () => {
+    expect(withoutOverrides({ zip: "29650", beds: 3, sqft: 1600 }, ["beds", "price"])).toEqual({
+      zip: "29650",
+      sqft: 1600,
+    });
+  });
+});
+
+describe("detectListingStatus", () => {
+  test.each<[string, ReturnType<typeof detectListingStatus>]>([
+    ["Pending $199,900 3 Beds", { status: "PENDING", statusEvent: "PENDING" }],
+    ["Under contract", { status: "PENDING", statusEvent: "PENDING" }],
+    ["Back on market  Was pending  $275,000", { status: "ACTIVE", statusEvent: "BACK_ON_MARKET" }],
+    ["Back on the Market!", { status: "ACTIVE", statusEvent: "BACK_ON_MARKET" }],
+    ["Sold $240,500", { status: "SOLD", statusEvent: "SOLD" }],
+    ["Just sold", { status: "SOLD", statusEvent: "SOLD" }],
+    ["Coming Soon $310,000", { status: "COMING_SOON", statusEvent: "COMING_SOON" }],
+    ["Open house Sat, 1PM to 3PM", { status: "ACTIVE", statusEvent: "OPEN_HOUSE" }],
+    ["New construction $324,990", {}],
+    ["$199,900 Price cut: $5K (11/2)", {}],
+  ])("%p", (text, expected) => {
+    expect(detectListingStatus(text)).toEqual(expected);
+  });
+});
+
+describe("daysOnMarket", () => {
+  const now = new Date("2025-11-15T12:00:00Z");
+  const firstSeenAt = new Date("2025-10-01T08:00:00Z");
+  const lastSeenAt = new Date("2025-10-21T08:00:00Z");
+
+  test.each([
+    ["ACTIVE", 45],
+    ["PENDING", 45],
+    ["COMING_SOON", 45],
+    ["SOLD", 20],
+    ["OFF_MARKET", 20],
+  ] as const)("%s", (status, expected) => {
+    expect(daysOnMarket({ firstSeenAt, lastSeenAt, status }, now)).toBe(expected);
+  });
+
+  test("never negative", () => {
+    expect(
+      daysOnMarket({ firstSeenAt: now, lastSeenAt: now, status: "ACTIVE" }, firstSeenAt)
+    ).toBe(0);
+  });
+});
@@ -1,3 +1,6 @@
+import type { Listing, PropertyStatus } from "../../../generated/prisma";
+import type { ListingEvent, ListingStatus } from "./types";
+
 /**
  * Parse an address string into components
  * Handles formats:
@@ -125,14 +128,14 @@ export function parsePriceChange(priceChangeStr: string): {
 }
 
 /**
- * Extract listing ID from URL
+ * Extract listing ID from a canonical listing URL (see resolveListingUrl)
  * Zillow: https://www.zillow.com/homedetails/...-address.../12345678_zpid/
  * Redfin: https://redfin.com/SC/Florence/1002-Pitty-Pat-Dr-29501/home/12345678
  * Realtor: https://www.realtor.com/realestateandhomes-detail/...M12345-67890
  */
 export function extractListingId(url: string, source: string): string {
   if (source === "zillow") {
-    const match = url.match(/\/(\d+)_zpid/);
+    const match = url.match(/\/(\d+)_zpid/) ?? url.match(/[?&]zpid=(\d+)/);
     return match?.[1] ?? url;
   }
 
@@ -155,92 +158,140 @@ export function extractListingId(url: string, source: string): string {
   return url;
 }
 
+// Checked in order: "Back on market" cards often repeat the old "Pending" label
+const LISTING_EVENT_PATTERNS: [ListingEvent, RegExp][] = [
+  ["BACK_ON_MARKET", /\bback on (the )?market\b/i],
+  ["SOLD", /\bsold\b/i],
+  ["PENDING", /\b(pending|under contract|contingent)\b/i],
+  ["COMING_SOON", /\bcoming soon\b/i],
+  ["OPEN_HOUSE", /\bopen house\b/i],
+];
+
+const EVENT_STATUSES: Record<ListingEvent, ListingStatus> = {
+  COMING_SOON: "COMING_SOON",
+  PENDING: "PENDING",
+  BACK_ON_MARKET: "ACTIVE",
+  SOLD: "SOLD",
+  OPEN_HOUSE: "ACTIVE",
+};
+
 /**
- * Normalize street address for comparison
- * Converts common abbreviations and standardizes format
+ * Detect a status alert variant ("Pending", "Back on market", ...) in card text
+ * Returns an empty object for regular new-listing and price alerts
  */
-export function normalizeAddress(
-  street: string,
-  city: string,
-  state: string
-): string {
-  let normalized = street.toLowerCase().trim();
-
-  // Common street type abbreviations
-  const abbreviations: Record<string, string> = {
-    street: "st",
-    avenue: "ave",
-    road: "rd",
-    drive: "dr",
-    court: "ct",
-    circle: "cir",
-    boulevard: "blvd",
-    lane: "ln",
-    way: "way",
-    place: "pl",
-    terrace: "ter",
-    parkway: "pkwy",
-    highway: "hwy",
-    trail: "trl",
-    square: "sq",
+export function detectListingStatus(text: string): {
+  status?: ListingStatus;
+  statusEvent?: ListingEvent;
+} {
+  const match = LISTING_EVENT_PATTERNS.find(([, pattern]) => pattern.test(text));
+  if (!match) return {};
+
+  const [statusEvent] = match;
+  return { status: EVENT_STATUSES[statusEvent], statusEvent };
+}
+
+/**
+ * Derive a property's summary fields from its listings
+ * Price is the lowest active asking price; with no active listing,
+ * the most recently updated listing speaks for the property.
+ * The property was first/last seen when any of its listings was, and its
+ * price drop is the largest cut from a listing's original asking price.
+ * A hand-edited price or status wins over the listings'
+ */
+export function summarizeListings(
+  listings: (Pick<
+    Listing,
+    "price" | "status" | "updatedAt" | "firstSeenAt" | "lastSeenAt"
+  > & { originalPrice?: Listing["price"] })[],
+  sqft?: number | null,
+  overrides: { price?: Listing["price"]; status?: PropertyStatus } = {}
+): {
+  price: Listing["price"];
+  status: PropertyStatus;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  pricePerSqft: Listing["price"] | null;
+  priceDrop: Listing["price"];
+  offMarketDays: number | null;
+} | null {
+  if (listings.length === 0) return null;
+
+  const active = listings.filter((l) => l.status === "ACTIVE");
+  const derived =
+    active.length > 0
+      ? {
+          price: active.reduce((min, l) => (l.price.lessThan(min.price) ? l : min)).price,
+          status: "ACTIVE" as const,
+        }
+      : listings.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+  const price = overrides.price ?? derived.price;
+  const status = overrides.status ?? derived.status;
+
+  const priceDrop = listings
+    .map((l) => (l.originalPrice ?? l.price).minus(l.price))
+    .reduce((max, drop) => (drop.greaterThan(max) ? drop : max), price.minus(price));
+
+  const firstSeenAt = new Date(Math.min(...listings.map((l) => l.firstSeenAt.getTime())));
+  const lastSeenAt = new Date(Math.max(...listings.map((l) => l.lastSeenAt.getTime())));
+
+  return {
+    price,
+    status,
+    firstSeenAt,
+    lastSeenAt,
+    pricePerSqft: sqft ? price.dividedBy(sqft).toDecimalPlaces(2) : null,
+    priceDrop,
+    // Frozen once off the market, so days-on-market filters can run in the database
+    offMarketDays: isOffMarket(status) ? daysOnMarket({ firstSeenAt, lastSeenAt, status }) : null,
   };
+}
 
-  // Replace full names with abbreviations
-  for (const [full, abbr] of Object.entries(abbreviations)) {
-    normalized = normalized.replace(
-      new RegExp(`\\b${full}\\b`, "g"),
-      abbr
-    );
-  }
+/**
+ * Drop the fields a user has edited by hand, so ingest leaves them alone
+ */
+export function withoutOverrides<T extends Record<string, unknown>>(
+  data: T,
+  overriddenFields: string[]
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([field]) => !overriddenFields.includes(field))
+  ) as Partial<T>;
+}
 
-  // Remove common prefixes/suffixes
-  normalized = normalized
-    .replace(/\b(north|south|east|west|n|s|e|w)\b\.?/g, "")
-    .replace(/\b(unit|apt|#)\b\.?\s*[\w\d-]*/gi, "") // Remove unit numbers
-    .replace(/[.,]/g, "") // Remove periods and commas
-    .replace(/\s+/g, " ") // Normalize spaces
-    .trim();
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
-  // Combine with city and state for full normalized address
-  return `${normalized}|${city.toLowerCase().trim()}|${state.toLowerCase().trim()}`;
+/** Statuses where the days-on-market clock has stopped */
+export function isOffMarket(status: PropertyStatus): boolean {
+  return status === "SOLD" || status === "OFF_MARKET";
 }
 
 /**
- * Determine source from email address or URL
+ * Whole days a listing (or property) has been on the market
+ * Counts to today while it's still listed, and stops at lastSeenAt once it's off
  */
-export function determineSource(email: string, url?: string): string {
-  const lowerEmail = email.toLowerCase();
-  const lowerUrl = url?.toLowerCase() || "";
-
-  // Check email domains and URLs
-  if (
-    lowerEmail.includes("zillow") ||
-    lowerEmail.includes("mail.zillow") ||
-    lowerUrl.includes("zillow")
-  ) {
-    return "zillow";
-  }
-  if (
-    lowerEmail.includes("redfin") ||
-    lowerUrl.includes("redfin")
-  ) {
-    return "redfin";
-  }
-  if (
-    lowerEmail.includes("realtor") ||
-    lowerEmail.includes("notifications.realtor") ||
-    lowerUrl.includes("realtor") ||
-    lowerUrl.includes("move.com")
-  ) {
-    return "realtor";
-  }
-  if (
-    lowerEmail.includes("land.com") ||
-    lowerEmail.includes("land") ||
-    lowerUrl.includes("land.com")
-  ) {
-    return "land";
-  }
+export function daysOnMarket(
+  listing: { firstSeenAt: Date; lastSeenAt: Date; status: PropertyStatus },
+  now: Date = new Date()
+): number {
+  const end = isOffMarket(listing.status) ? listing.lastSeenAt : now;
+  return Math.max(0, Math.floor((end.getTime() - listing.firstSeenAt.getTime()) / MS_PER_DAY));
+}
 
-  return "unknown";
+type OnMarketDates = Parameters<typeof daysOnMarket>[0];
+
+/**
+ * Add daysOnMarket to a property and each of its listings for API responses
+ */
+export function withDaysOnMarket<
+  T extends OnMarketDates & { listings: L[] },
+  L extends OnMarketDates,
+>(property: T, now: Date = new Date()) {
+  return {
+    ...property,
+    daysOnMarket: daysOnMarket(property, now),
+    listings: property.listings.map((listing) => ({
+      ...listing,
+      daysOnMarket: daysOnMarket(listing, now),
+    })),
+  };
 }
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { financeProperty } from "./compare";
+import { DEFAULT_LOAN_TERMS } from "./input";
+import type { RentalAssumptions } from "../analysis/types";
+import type { LoanTerms } from "./types";
+
+const property = { price: 200000, propertyType: "HOME" };
+
+// NOI is 24,000 rent - 2,400 taxes - 1,200 insurance = 20,400
+const rental: RentalAssumptions = {
+  downPaymentPercent: 0.25,
+  interestRate: 0.07,
+  loanTermYears: 30,
+  closingCostPercent: 0.03,
+  propertyTaxRate: 0.012,
+  insuranceAnnual: 1200,
+  vacancyRate: 0,
+  managementRate: 0,
+  capexRate: 0,
+  monthlyRent: 2000,
+  rentToPriceRatio: 0.008,
+};
+
+const conventional: LoanTerms = {
+  ...DEFAULT_LOAN_TERMS,
+  interestRate: 0.06,
+  termYears: 30,
+  maxLtv: 0.8,
+  pmiRate: 0.005,
+  pmiLtvThreshold: 0.8,
+};
+
+describe("financeProperty", () => {
+  test("borrows the max LTV and amortizes it", () => {
+    const result = financeProperty(property, conventional, rental);
+
+    expect(result).toMatchObject({
+      loanAmount: 160000,
+      ltv: 0.8,
+      downPayment: 40000,
+      closingCosts: 6000,
+      cashToClose: 46000,
+      monthlyPayment: 959.28,
+      amortizingPayment: null,
+      monthlyPmi: 0,
+      netOperatingIncome: 20400,
+      balloonBalance: null,
+      meetsMinDscr: null,
+    });
+    expect(result.monthlyCashFlow).toBeCloseTo(1700 - 959.28, 1);
+  });
+
+  test("a bigger down payment lowers the loan", () => {
+    expect(financeProperty(property, conventional, rental, 0.3).loanAmount).toBe(140000);
+    // but never raises it past the max LTV
+    expect(financeProperty(property, conventional, rental, 0.05).loanAmount).toBe(160000);
+  });
+
+  test("charges mortgage insurance above the LTV threshold, or always without one", () => {
+    const fha = { ...conventional, maxLtv: 0.965, pmiRate: 0.0055, pmiLtvThreshold: null };
+    expect(financeProperty(property, fha, rental).monthlyPmi).toBe(88.46);
+    expect(financeProperty(property, { ...fha, pmiLtvThreshold: 0.8 }, rental).monthlyPmi).toBe(88.46);
+    expect(financeProperty(property, { ...fha, pmiLtvThreshold: 0.97 }, rental).monthlyPmi).toBe(0);
+  });
+
+  test("an interest-only hard money loan balloons in full", () => {
+    const hardMoney = {
+      ...conventional,
+      interestRate: 0.12,
+      termYears: 1,
+      maxLtv: 0.9,
+      points: 0.02,
+      interestOnlyMonths: 12,
+      balloonMonths: 12,
+      pmiRate: 0,
+    };
+    const result = financeProperty(property, hardMoney, rental);
+
+    expect(result.monthlyPayment).toBe(1800);
+    expect(result.amortizingPayment).toBeNull();
+    expect(result.pointsCost).toBe(3600);
+    expect(result.cashToClose).toBe(20000 + 3600 + 6000);
+    expect(result.balloonBalance).toBe(180000);
+  });
+
+  test("reports the payment after an interest-only period and the balloon balance", () => {
+    const sellerFinance = { ...conventional, interestOnlyMonths: 24, balloonMonths: 60, pmiRate: 0 };
+    const result = financeProperty(property, sellerFinance, rental);
+
+    expect(result.monthlyPayment).toBe(800);
+    expect(result.amortizingPayment).toBeGreaterThan(959.28);
+    expect(result.balloonBalance).toBeLessThan(160000);
+    expect(result.balloonBalance).toBeGreaterThan(150000);
+  });
+
+  test("checks a DSCR lender's minimum coverage", () => {
+    const dscr = { ...conventional, minDscr: 1.25 };
+    expect(financeProperty(property, dscr, rental).meetsMinDscr).toBe(true);
+    expect(financeProperty(property, dscr, { ...rental, monthlyRent: 1300 }).meetsMinDscr).toBe(false);
+  });
+});
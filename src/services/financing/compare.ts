@@ -0,0 +1,107 @@
+import { analyzeRental, calculateMortgagePayment } from "../analysis/rental";
+import type { AnalysisProperty, RentalAssumptions } from "../analysis/types";
+import type { FinancingResult, LoanTerms } from "./types";
+
+/**
+ * Finance a rental purchase with one loan product
+ * The loan is the product's max LTV, or less when a larger down payment is
+ * asked for; operating income comes from the rental assumptions
+ */
+export function financeProperty(
+  property: AnalysisProperty,
+  terms: LoanTerms,
+  rental: RentalAssumptions,
+  downPaymentPercent?: number
+): FinancingResult {
+  // Financing doesn't change NOI, so analyze the property as an all-cash purchase
+  const { purchasePrice, netOperatingIncome } = analyzeRental(property, {
+    ...rental,
+    downPaymentPercent: 1,
+  });
+
+  const ltv = Math.min(terms.maxLtv, 1 - (downPaymentPercent ?? 0));
+  const loanAmount = purchasePrice * ltv;
+  const downPayment = purchasePrice - loanAmount;
+  const pointsCost = loanAmount * terms.points;
+  const closingCosts = purchasePrice * terms.closingCostPercent;
+  const cashToClose = downPayment + pointsCost + closingCosts;
+
+  // Interest only first, then amortize over what's left of the term
+  const amortizingMonths = terms.termYears * 12 - terms.interestOnlyMonths;
+  const amortizingPayment =
+    amortizingMonths > 0
+      ? calculateMortgagePayment(loanAmount, terms.interestRate, amortizingMonths / 12)
+      : null;
+  const interestOnlyPayment = (loanAmount * terms.interestRate) / 12;
+  const monthlyPayment =
+    terms.interestOnlyMonths > 0 || amortizingPayment === null
+      ? interestOnlyPayment
+      : amortizingPayment;
+
+  const chargesPmi =
+    terms.pmiRate > 0 && (terms.pmiLtvThreshold === null || ltv > terms.pmiLtvThreshold);
+  const monthlyPmi = chargesPmi ? (loanAmount * terms.pmiRate) / 12 : 0;
+
+  const annualDebtService = (monthlyPayment + monthlyPmi) * 12;
+  const annualCashFlow = netOperatingIncome - annualDebtService;
+  const debtServiceCoverageRatio =
+    annualDebtService > 0 ? netOperatingIncome / annualDebtService : null;
+
+  return {
+    loanAmount: roundCurrency(loanAmount),
+    ltv: roundRatio(ltv),
+    downPayment: roundCurrency(downPayment),
+    pointsCost: roundCurrency(pointsCost),
+    closingCosts: roundCurrency(closingCosts),
+    cashToClose: roundCurrency(cashToClose),
+    monthlyPayment: roundCurrency(monthlyPayment),
+    amortizingPayment:
+      terms.interestOnlyMonths > 0 && amortizingPayment !== null
+        ? roundCurrency(amortizingPayment)
+        : null,
+    monthlyPmi: roundCurrency(monthlyPmi),
+    netOperatingIncome: roundCurrency(netOperatingIncome),
+    monthlyCashFlow: roundCurrency(annualCashFlow / 12),
+    annualCashFlow: roundCurrency(annualCashFlow),
+    cashOnCashReturn: cashToClose > 0 ? roundRatio(annualCashFlow / cashToClose) : 0,
+    debtServiceCoverageRatio:
+      debtServiceCoverageRatio === null ? null : roundRatio(debtServiceCoverageRatio),
+    meetsMinDscr:
+      terms.minDscr === null
+        ? null
+        : debtServiceCoverageRatio === null || debtServiceCoverageRatio >= terms.minDscr,
+    balloonBalance:
+      terms.balloonMonths === null
+        ? null
+        : roundCurrency(
+            loanBalanceAfter(loanAmount, terms, amortizingPayment ?? 0, terms.balloonMonths)
+          ),
+  };
+}
+
+/**
+ * What's still owed after a number of monthly payments
+ */
+function loanBalanceAfter(
+  loanAmount: number,
+  terms: LoanTerms,
+  amortizingPayment: number,
+  months: number
+): number {
+  const monthlyRate = terms.interestRate / 12;
+  let balance = loanAmount;
+
+  for (let month = terms.interestOnlyMonths + 1; month <= months; month++) {
+    balance = Math.max(0, balance * (1 + monthlyRate) - amortizingPayment);
+  }
+
+  return balance;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,13 @@
+export {
+  listLoanProducts,
+  getLoanProduct,
+  createLoanProduct,
+  updateLoanProduct,
+  deleteLoanProduct,
+  compareLoanProducts,
+  cleanup,
+} from "./loans";
+export { parseLoanProductInput, checkLoanTerms, DEFAULT_LOAN_TERMS } from "./input";
+export { financeProperty } from "./compare";
+export { LOAN_TYPES } from "./types";
+export type { LoanTerms, LoanProductInput, NewLoanProductInput, FinancingResult } from "./types";
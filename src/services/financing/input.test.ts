@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { checkLoanTerms, parseLoanProductInput, DEFAULT_LOAN_TERMS } from "./input";
+
+describe("parseLoanProductInput", () => {
+  test("a new product needs a name, type, rate, term and max LTV", () => {
+    expect(parseLoanProductInput({}, "create").errors).toEqual([
+      "name is required",
+      "type is required",
+      "interestRate is required",
+      "termYears is required",
+      "maxLtv is required",
+    ]);
+  });
+
+  test("fills in default terms and accepts loose types", () => {
+    const { input } = parseLoanProductInput(
+      { name: " 30yr fixed ", type: "hard money", interestRate: "0.065", termYears: 30, maxLtv: 0.8 },
+      "create"
+    );
+    expect(input).toEqual({
+      ...DEFAULT_LOAN_TERMS,
+      name: "30yr fixed",
+      type: "HARD_MONEY",
+      interestRate: 0.065,
+      termYears: 30,
+      maxLtv: 0.8,
+    });
+  });
+
+  test("validates ranges, whole numbers and types", () => {
+    expect(
+      parseLoanProductInput(
+        { type: "balloon", interestRate: 7, termYears: 29.5, pmiRate: "x" },
+        "update"
+      ).errors
+    ).toEqual([
+      "type must be one of CONVENTIONAL, FHA, DSCR, HARD_MONEY, SELLER_FINANCE",
+      "interestRate must be between 0 and 1",
+      "termYears must be a whole number",
+      "pmiRate must be a number",
+    ]);
+  });
+
+  test("an edit can clear optional terms but not required ones", () => {
+    expect(parseLoanProductInput({ balloonMonths: null, notes: "" }, "update").input).toEqual({
+      balloonMonths: null,
+      notes: null,
+    });
+    expect(parseLoanProductInput({ maxLtv: null, points: null }, "update").errors).toEqual([
+      "points can't be cleared",
+      "maxLtv is required",
+    ]);
+    expect(parseLoanProductInput({}, "update").errors).toEqual(["No fields to update"]);
+  });
+
+  test("checks terms that span fields on create", () => {
+    expect(
+      parseLoanProductInput(
+        { name: "Bridge", type: "HARD_MONEY", interestRate: 0.11, termYears: 1, maxLtv: 0.9, balloonMonths: 18 },
+        "create"
+      ).errors
+    ).toEqual(["balloonMonths can't be longer than the term"]);
+  });
+});
+
+describe("checkLoanTerms", () => {
+  test("the interest-only period fits in the term", () => {
+    expect(
+      checkLoanTerms({
+        ...DEFAULT_LOAN_TERMS,
+        interestRate: 0.1,
+        termYears: 1,
+        maxLtv: 0.9,
+        interestOnlyMonths: 13,
+      })
+    ).toEqual(["interestOnlyMonths can't be longer than the term"]);
+  });
+});
@@ -0,0 +1,160 @@
+import type { LoanType } from "../../../generated/prisma";
+import { LOAN_TYPES, type LoanProductInput, type LoanTerms, type NewLoanProductInput } from "./types";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTES_LENGTH = 2000;
+
+type Body = Record<string, unknown>;
+
+type NumberSpec = { min: number; max: number; integer?: boolean; nullable?: boolean };
+
+// Valid range for each term - rates are fractions, not percents
+const TERM_SPECS: Record<keyof LoanTerms, NumberSpec> = {
+  interestRate: { min: 0, max: 1 },
+  points: { min: 0, max: 0.2 },
+  termYears: { min: 1, max: 50, integer: true },
+  maxLtv: { min: 0.01, max: 1 },
+  interestOnlyMonths: { min: 0, max: 600, integer: true },
+  balloonMonths: { min: 1, max: 600, integer: true, nullable: true },
+  pmiRate: { min: 0, max: 0.05 },
+  pmiLtvThreshold: { min: 0, max: 1, nullable: true },
+  closingCostPercent: { min: 0, max: 1 },
+  minDscr: { min: 0, max: 10, nullable: true },
+};
+
+const REQUIRED_TERMS: (keyof LoanTerms)[] = ["interestRate", "termYears", "maxLtv"];
+
+/** What a new product gets for the terms it leaves out */
+export const DEFAULT_LOAN_TERMS: Omit<LoanTerms, "interestRate" | "termYears" | "maxLtv"> = {
+  points: 0,
+  interestOnlyMonths: 0,
+  balloonMonths: null,
+  pmiRate: 0,
+  pmiLtvThreshold: null,
+  closingCostPercent: 0.03,
+  minDscr: null,
+};
+
+/**
+ * Validate a loan product body
+ * A new product needs a name, type, interestRate, termYears and maxLtv;
+ * an edit only touches what it sends
+ */
+export function parseLoanProductInput(
+  body: unknown,
+  mode: "create"
+): { input?: NewLoanProductInput; errors: string[] };
+export function parseLoanProductInput(
+  body: unknown,
+  mode: "update"
+): { input?: LoanProductInput; errors: string[] };
+export function parseLoanProductInput(
+  body: unknown,
+  mode: "create" | "update"
+): { input?: LoanProductInput; errors: string[] } {
+  const data = asObject(body);
+  const input: LoanProductInput = {};
+  const errors: string[] = [];
+
+  if (data.name !== undefined || mode === "create") {
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!name) errors.push("name is required");
+    else if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    } else input.name = name;
+  }
+
+  if (data.type !== undefined || mode === "create") {
+    const type = typeof data.type === "string" ? data.type.trim().toUpperCase().replace(/[\s-]+/g, "_") : "";
+    if (!type) errors.push("type is required");
+    else if (!(LOAN_TYPES as readonly string[]).includes(type)) {
+      errors.push(`type must be one of ${LOAN_TYPES.join(", ")}`);
+    } else input.type = type as LoanType;
+  }
+
+  for (const [key, spec] of Object.entries(TERM_SPECS) as [keyof LoanTerms, NumberSpec][]) {
+    const raw = data[key];
+    if (raw === undefined || raw === null || raw === "") {
+      if (REQUIRED_TERMS.includes(key) && (mode === "create" || raw !== undefined)) {
+        errors.push(`${key} is required`);
+      } else if (raw !== undefined) {
+        if (spec.nullable) (input as Record<string, unknown>)[key] = null;
+        else errors.push(`${key} can't be cleared`);
+      }
+      continue;
+    }
+
+    const value = typeof raw === "number" ? raw : Number(raw);
+    if (!Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (value < spec.min || value > spec.max) {
+      errors.push(`${key} must be between ${spec.min} and ${spec.max}`);
+    } else if (spec.integer && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    } else {
+      (input as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (data.notes !== undefined) {
+    const notes = typeof data.notes === "string" ? data.notes.trim() : null;
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      errors.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    } else input.notes = notes || null;
+  }
+
+  if (mode === "update" && errors.length === 0 && Object.keys(input).length === 0) {
+    errors.push("No fields to update");
+  }
+
+  if (errors.length > 0) return { errors };
+
+  if (mode === "create") {
+    const { name, type, interestRate, termYears, maxLtv } = input;
+    if (
+      name === undefined ||
+      type === undefined ||
+      interestRate === undefined ||
+      termYears === undefined ||
+      maxLtv === undefined
+    ) {
+      return { errors: ["name, type, interestRate, termYears and maxLtv are required"] };
+    }
+
+    const product: NewLoanProductInput = {
+      ...DEFAULT_LOAN_TERMS,
+      ...input,
+      name,
+      type,
+      interestRate,
+      termYears,
+      maxLtv,
+    };
+    const termErrors = checkLoanTerms(product);
+    if (termErrors.length > 0) return { errors: termErrors };
+    return { input: product, errors };
+  }
+
+  return { input, errors };
+}
+
+/**
+ * Rules that span several terms; run on a complete set of terms
+ */
+export function checkLoanTerms(terms: LoanTerms): string[] {
+  const errors: string[] = [];
+  const termMonths = terms.termYears * 12;
+
+  if (terms.interestOnlyMonths > termMonths) {
+    errors.push("interestOnlyMonths can't be longer than the term");
+  }
+  if (terms.balloonMonths !== null && terms.balloonMonths > termMonths) {
+    errors.push("balloonMonths can't be longer than the term");
+  }
+
+  return errors;
+}
+
+function asObject(body: unknown): Body {
+  return (body && typeof body === "object" && !Array.isArray(body) ? body : {}) as Body;
+}
@@ -0,0 +1,137 @@
+import { PrismaClient, type LoanProduct } from "../../../generated/prisma";
+import type { AnalysisProperty, RentalAssumptions } from "../analysis/types";
+import { financeProperty } from "./compare";
+import { checkLoanTerms } from "./input";
+import type { LoanProductInput, LoanTerms, NewLoanProductInput } from "./types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Every loan product, by type then name
+ */
+export async function listLoanProducts() {
+  const products = await prisma.loanProduct.findMany({
+    orderBy: [{ type: "asc" }, { name: "asc" }],
+  });
+  return products.map(serializeProduct);
+}
+
+export async function getLoanProduct(id: string) {
+  const product = await prisma.loanProduct.findUnique({ where: { id } });
+  return product ? serializeProduct(product) : null;
+}
+
+/**
+ * Add a loan product
+ * Returns the existing product's ID if the name is taken
+ */
+export async function createLoanProduct(input: NewLoanProductInput) {
+  const duplicate = await findByName(input.name);
+  if (duplicate) return { duplicateId: duplicate.id };
+
+  const product = await prisma.loanProduct.create({ data: input });
+
+  console.log(`🏦 Added loan product "${product.name}" (${product.type})`);
+  return { product: serializeProduct(product) };
+}
+
+/**
+ * Edit a loan product's terms
+ * Returns null if it doesn't exist, or errors if the merged terms don't fit together
+ */
+export async function updateLoanProduct(id: string, input: LoanProductInput) {
+  const existing = await prisma.loanProduct.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  if (input.name !== undefined) {
+    const duplicate = await findByName(input.name);
+    if (duplicate && duplicate.id !== id) return { duplicateId: duplicate.id };
+  }
+
+  const errors = checkLoanTerms({ ...toTerms(existing), ...input });
+  if (errors.length > 0) return { errors };
+
+  const product = await prisma.loanProduct.update({ where: { id }, data: input });
+  return { product: serializeProduct(product) };
+}
+
+/**
+ * Delete a loan product
+ * Returns false if it doesn't exist
+ */
+export async function deleteLoanProduct(id: string): Promise<boolean> {
+  const { count } = await prisma.loanProduct.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Run a property through several loan products side by side
+ * Compares every product when no IDs are given; returns errors for unknown IDs
+ */
+export async function compareLoanProducts(
+  property: AnalysisProperty,
+  productIds: string[] | undefined,
+  rental: RentalAssumptions,
+  downPaymentPercent?: number
+) {
+  const products = await prisma.loanProduct.findMany({
+    where: productIds ? { id: { in: productIds } } : undefined,
+    orderBy: [{ type: "asc" }, { name: "asc" }],
+  });
+
+  if (productIds) {
+    const found = new Set(products.map((product) => product.id));
+    const missing = productIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      return { errors: missing.map((id) => `Loan product ${id} does not exist`) };
+    }
+    // Keep the order the products were asked for
+    products.sort((a, b) => productIds.indexOf(a.id) - productIds.indexOf(b.id));
+  }
+
+  return {
+    results: products.map((product) => ({
+      product: serializeProduct(product),
+      ...financeProperty(property, toTerms(product), rental, downPaymentPercent),
+    })),
+  };
+}
+
+function findByName(name: string) {
+  return prisma.loanProduct.findFirst({
+    where: { name: { equals: name, mode: "insensitive" } },
+    select: { id: true },
+  });
+}
+
+function toTerms(product: LoanProduct): LoanTerms {
+  return {
+    interestRate: product.interestRate.toNumber(),
+    points: product.points.toNumber(),
+    termYears: product.termYears,
+    maxLtv: product.maxLtv.toNumber(),
+    interestOnlyMonths: product.interestOnlyMonths,
+    balloonMonths: product.balloonMonths,
+    pmiRate: product.pmiRate.toNumber(),
+    pmiLtvThreshold: product.pmiLtvThreshold?.toNumber() ?? null,
+    closingCostPercent: product.closingCostPercent.toNumber(),
+    minDscr: product.minDscr?.toNumber() ?? null,
+  };
+}
+
+// Rates as numbers rather than Decimal strings
+function serializeProduct(product: LoanProduct) {
+  return {
+    id: product.id,
+    name: product.name,
+    type: product.type,
+    ...toTerms(product),
+    notes: product.notes,
+    createdAt: product.createdAt,
+    updatedAt: product.updatedAt,
+  };
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
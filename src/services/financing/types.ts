@@ -0,0 +1,60 @@
+import type { LoanType } from "../../../generated/prisma";
+
+export const LOAN_TYPES = [
+  "CONVENTIONAL",
+  "FHA",
+  "DSCR",
+  "HARD_MONEY",
+  "SELLER_FINANCE",
+] as const satisfies readonly LoanType[];
+
+/** A loan product's terms, with rates as fractions */
+export interface LoanTerms {
+  interestRate: number;
+  points: number;
+  termYears: number;
+  maxLtv: number;
+  interestOnlyMonths: number;
+  balloonMonths: number | null;
+  pmiRate: number;
+  pmiLtvThreshold: number | null;
+  closingCostPercent: number;
+  minDscr: number | null;
+}
+
+/** Validated body for creating or editing a loan product; absent fields are left alone */
+export interface LoanProductInput extends Partial<LoanTerms> {
+  name?: string;
+  type?: LoanType;
+  notes?: string | null;
+}
+
+/** Validated body for a new loan product, with every term filled in */
+export interface NewLoanProductInput extends LoanTerms {
+  name: string;
+  type: LoanType;
+  notes?: string | null;
+}
+
+/** One product's result when financing a property */
+export interface FinancingResult {
+  loanAmount: number;
+  ltv: number;
+  downPayment: number;
+  pointsCost: number;
+  closingCosts: number;
+  cashToClose: number;
+
+  // Monthly
+  monthlyPayment: number; // Principal and interest (interest only during the IO period)
+  amortizingPayment: number | null; // After the IO period, when there is one
+  monthlyPmi: number;
+  netOperatingIncome: number;
+  monthlyCashFlow: number;
+
+  annualCashFlow: number;
+  cashOnCashReturn: number;
+  debtServiceCoverageRatio: number | null;
+  meetsMinDscr: boolean | null; // Null when the product has no DSCR requirement
+  balloonBalance: number | null; // Owed when the balloon comes due
+}
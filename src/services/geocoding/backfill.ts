@@ -0,0 +1,44 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { geocodeAddress } from "./geocode";
+
+const prisma = new PrismaClient();
+
+/**
+ * Geocode every property that doesn't have coordinates yet
+ */
+export async function backfillGeocodes(): Promise<{
+  scanned: number;
+  geocoded: number;
+  unresolved: number;
+}> {
+  const properties = await prisma.property.findMany({
+    where: { OR: [{ latitude: null }, { longitude: null }] },
+    select: { id: true, street: true, city: true, state: true, zip: true },
+  });
+
+  let geocoded = 0;
+  for (const property of properties) {
+    const result = await geocodeAddress(property);
+    if (!result) continue;
+
+    await prisma.property.update({
+      where: { id: property.id },
+      data: {
+        latitude: result.latitude,
+        longitude: result.longitude,
+        geocodePrecision: result.precision,
+      },
+    });
+    geocoded++;
+  }
+
+  return {
+    scanned: properties.length,
+    geocoded,
+    unresolved: properties.length - geocoded,
+  };
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,40 @@
+import type { GeoPoint } from "./types";
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LATITUDE = 69.0;
+
+/**
+ * Great-circle distance between two points in miles (haversine)
+ */
+export function distanceMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Lat/lng box that contains every point within radiusMiles of center
+ * Used to narrow a database query before the exact distance check
+ */
+export function boundingBox(center: GeoPoint, radiusMiles: number) {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LATITUDE;
+  const lngDelta =
+    radiusMiles /
+    (MILES_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lngDelta,
+    maxLongitude: center.longitude + lngDelta,
+  };
+}
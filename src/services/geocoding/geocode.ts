@@ -0,0 +1,35 @@
+import type { Geocoder, GeocodeQuery, GeocodeResult } from "./types";
+import { offlineGeocoder } from "./offline";
+
+/**
+ * Providers tried in order; the first non-null result wins
+ * The offline tables are always the last resort
+ */
+const geocoders: Geocoder[] = [offlineGeocoder];
+
+/**
+ * Add a provider ahead of the ones already registered
+ * e.g. registerGeocoder(censusGeocoder) to prefer rooftop results
+ */
+export function registerGeocoder(geocoder: Geocoder) {
+  geocoders.unshift(geocoder);
+}
+
+/**
+ * Resolve an address to coordinates, or null if no provider knows it
+ * Provider errors are logged and the next provider is tried
+ */
+export async function geocodeAddress(
+  query: GeocodeQuery
+): Promise<GeocodeResult | null> {
+  for (const geocoder of geocoders) {
+    try {
+      const result = await geocoder.geocode(query);
+      if (result) return result;
+    } catch (error) {
+      console.error(`❌ Geocoder ${geocoder.name} failed:`, error);
+    }
+  }
+
+  return null;
+}
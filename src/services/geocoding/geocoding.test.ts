@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+import { offlineGeocoder } from "./offline";
+import { distanceMiles, boundingBox } from "./distance";
+import { parseNearFilter } from "./near";
+
+const GREENVILLE = { latitude: 34.8526, longitude: -82.394 };
+const SPARTANBURG = { latitude: 34.9496, longitude: -81.932 };
+
+describe("offlineGeocoder", () => {
+  test("prefers the ZIP centroid", async () => {
+    const result = await offlineGeocoder.geocode({
+      city: "Greer",
+      state: "SC",
+      zip: "29651-1234",
+    });
+    expect(result).toEqual({
+      latitude: 35.0238,
+      longitude: -82.2796,
+      precision: "zip",
+      provider: "offline",
+    });
+  });
+
+  test.each([
+    ["Greer", "SC"],
+    ["greer", "South Carolina"],
+    ["Mount Pleasant", "SC"],
+    ["Fort Mill", "sc"],
+  ])("falls back to the place centroid for %p, %p", async (city, state) => {
+    const result = await offlineGeocoder.geocode({ city, state, zip: "00000" });
+    expect(result?.precision).toBe("place");
+  });
+
+  test("returns null for unknown places", async () => {
+    expect(await offlineGeocoder.geocode({ city: "Nowhere", state: "SC" })).toBeNull();
+  });
+});
+
+describe("distanceMiles", () => {
+  test("measures great-circle distance", () => {
+    expect(distanceMiles(GREENVILLE, SPARTANBURG)).toBeCloseTo(27.2, 0);
+    expect(distanceMiles(GREENVILLE, GREENVILLE)).toBe(0);
+  });
+
+  test("bounding box contains every point in the radius", () => {
+    const box = boundingBox(GREENVILLE, 30);
+    expect(SPARTANBURG.latitude).toBeWithin(box.minLatitude, box.maxLatitude);
+    expect(SPARTANBURG.longitude).toBeWithin(box.minLongitude, box.maxLongitude);
+  });
+});
+
+describe("parseNearFilter", () => {
+  test("parses center and radius", () => {
+    const { filter, errors } = parseNearFilter(
+      new URLSearchParams("near=34.85,-82.39&radiusMiles=10")
+    );
+    expect(errors).toEqual([]);
+    expect(filter).toEqual({
+      center: { latitude: 34.85, longitude: -82.39 },
+      radiusMiles: 10,
+    });
+  });
+
+  test("defaults the radius", () => {
+    const { filter } = parseNearFilter(new URLSearchParams("near=34.85,-82.39"));
+    expect(filter?.radiusMiles).toBe(25);
+  });
+
+  test("no filter without near", () => {
+    expect(parseNearFilter(new URLSearchParams())).toEqual({ errors: [] });
+  });
+
+  test.each([
+    ["near=abc"],
+    ["near=34.85"],
+    ["near=95,-82"],
+    ["near=34.85,-82.39&radiusMiles=-1"],
+    ["near=34.85,-82.39&radiusMiles=abc"],
+    ["radiusMiles=10"],
+  ])("rejects %p", (query) => {
+    const { filter, errors } = parseNearFilter(new URLSearchParams(query));
+    expect(filter).toBeUndefined();
+    expect(errors.length).toBeGreaterThan(0);
+  });
+});
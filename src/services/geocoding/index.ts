@@ -0,0 +1,13 @@
+export { geocodeAddress, registerGeocoder } from "./geocode";
+export { offlineGeocoder, lookupZipCentroid } from "./offline";
+export { distanceMiles, boundingBox } from "./distance";
+export { backfillGeocodes } from "./backfill";
+export { parseNearFilter, DEFAULT_RADIUS_MILES, MAX_RADIUS_MILES } from "./near";
+export type {
+  GeoPoint,
+  GeocodeQuery,
+  GeocodePrecision,
+  GeocodeResult,
+  Geocoder,
+} from "./types";
+export type { NearFilter } from "./near";
@@ -0,0 +1,52 @@
+import type { GeoPoint } from "./types";
+
+export const DEFAULT_RADIUS_MILES = 25;
+export const MAX_RADIUS_MILES = 500;
+
+export interface NearFilter {
+  center: GeoPoint;
+  radiusMiles: number;
+}
+
+/**
+ * Parse ?near=lat,lng&radiusMiles= query params
+ * Returns no filter when near is absent, and errors for malformed values
+ */
+export function parseNearFilter(params: URLSearchParams): {
+  filter?: NearFilter;
+  errors: string[];
+} {
+  const near = params.get("near");
+  const radius = params.get("radiusMiles");
+  const errors: string[] = [];
+
+  if (!near) {
+    if (radius) errors.push("radiusMiles requires near=lat,lng");
+    return { errors };
+  }
+
+  const parts = near.split(",").map((part) => Number(part.trim()));
+  const [latitude, longitude] = parts;
+
+  if (
+    parts.length !== 2 ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude!) > 90 ||
+    Math.abs(longitude!) > 180
+  ) {
+    errors.push("near must be lat,lng with latitude in [-90, 90] and longitude in [-180, 180]");
+  }
+
+  const radiusMiles = radius ? Number(radius) : DEFAULT_RADIUS_MILES;
+  if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > MAX_RADIUS_MILES) {
+    errors.push(`radiusMiles must be a number between 0 and ${MAX_RADIUS_MILES}`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    filter: { center: { latitude: latitude!, longitude: longitude! }, radiusMiles },
+    errors,
+  };
+}
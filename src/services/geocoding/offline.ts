@@ -0,0 +1,52 @@
+import type { Geocoder, GeocodeQuery, GeocodeResult, GeoPoint } from "./types";
+import { normalizeCity, normalizeState } from "../address/normalize";
+import zipCentroids from "./data/zip-centroids.json";
+import placeCentroids from "./data/place-centroids.json";
+
+// Tables hold [latitude, longitude] pairs
+type Centroid = [number, number];
+
+const ZIPS = zipCentroids as unknown as Record<string, Centroid>;
+const PLACES = placeCentroids as unknown as Record<string, Record<string, Centroid>>;
+
+/**
+ * Geocoder backed by the bundled ZIP and place centroid tables
+ * Regenerate the tables with scripts/build-geocoding-data.ts
+ */
+export const offlineGeocoder: Geocoder = {
+  name: "offline",
+
+  async geocode(query) {
+    return lookupZip(query) ?? lookupPlace(query);
+  },
+};
+
+/**
+ * Centroid for a ZIP (ZIP+4 is truncated), or null if it isn't in the table
+ */
+export function lookupZipCentroid(zip: string): GeoPoint | null {
+  const centroid = ZIPS[zip.trim().slice(0, 5)];
+  return centroid ? { latitude: centroid[0], longitude: centroid[1] } : null;
+}
+
+function lookupZip(query: GeocodeQuery): GeocodeResult | null {
+  const centroid = query.zip ? ZIPS[query.zip.trim().slice(0, 5)] : undefined;
+  if (!centroid) return null;
+
+  return toResult(centroid, "zip");
+}
+
+function lookupPlace(query: GeocodeQuery): GeocodeResult | null {
+  const places = PLACES[normalizeState(query.state)];
+  const centroid = places?.[normalizeCity(query.city)];
+  if (!centroid) return null;
+
+  return toResult(centroid, "place");
+}
+
+function toResult(
+  [latitude, longitude]: Centroid,
+  precision: GeocodeResult["precision"]
+): GeocodeResult {
+  return { latitude, longitude, precision, provider: "offline" };
+}
@@ -0,0 +1,28 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeQuery {
+  street?: string;
+  city: string;
+  state: string;
+  zip?: string | null;
+}
+
+/** How closely a result pins down the address */
+export type GeocodePrecision = "address" | "zip" | "place";
+
+export interface GeocodeResult extends GeoPoint {
+  precision: GeocodePrecision;
+  provider: string;
+}
+
+/**
+ * A geocoding provider
+ * Return null when the provider can't resolve the address so the next one is tried
+ */
+export interface Geocoder {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  test("splits rows and cells", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  test("handles quoted commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('street,notes\n"12 Main St, Unit 4","needs ""work""\nroof 2019"')).toEqual([
+      ["street", "notes"],
+      ["12 Main St, Unit 4", 'needs "work"\nroof 2019'],
+    ]);
+  });
+
+  test("handles CRLF line endings, a byte order mark and blank lines", () => {
+    expect(parseCsv("\ufeffa,b\r\n\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  test("keeps empty cells", () => {
+    expect(parseCsv("a,,c\n,,")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { upsertProperty } from "../email/processor";
+import { normalizeAddress } from "../address/normalize";
+import { mapCsv } from "./mapping";
+import type { ImportInput, ImportPreview, ImportResult } from "./types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Parse and validate a sheet without writing anything
+ * Valid rows are marked "existing" when their address already has a property,
+ * so the user can see which rows will add to or update what we have.
+ * Headers and the mapping come back even when the sheet can't be imported,
+ * so the mapping can be fixed
+ */
+export async function previewImport(input: ImportInput): Promise<ImportPreview> {
+  const { headers, mapping, rows, errors } = mapCsv(input.csv, input.mapping, input.source);
+
+  const keys = rows.flatMap((row) =>
+    row.property
+      ? [normalizeAddress(row.property.street, row.property.city, row.property.state)]
+      : []
+  );
+  const existing = await prisma.property.findMany({
+    where: { addressKey: { in: [...new Set(keys)] } },
+    select: { addressKey: true },
+  });
+  const existingKeys = new Set(existing.map((p) => p.addressKey));
+
+  for (const row of rows) {
+    if (!row.property) continue;
+    const key = normalizeAddress(row.property.street, row.property.city, row.property.state);
+    row.match = existingKeys.has(key) ? "existing" : "new";
+  }
+
+  const validCount = rows.filter((row) => row.property).length;
+  return {
+    headers,
+    mapping,
+    source: input.source,
+    rows,
+    validCount,
+    errorCount: rows.length - validCount,
+    errors,
+  };
+}
+
+/**
+ * Import a sheet's valid rows
+ * Rows go through the same upsert as email alerts, so they join existing
+ * properties by address and re-imports update their listings in place.
+ * Rows with validation errors are skipped
+ */
+export async function runImport(
+  input: ImportInput
+): Promise<{ result?: ImportResult; errors: string[] }> {
+  const { rows, errors } = mapCsv(input.csv, input.mapping, input.source);
+  if (errors.length > 0) return { errors };
+
+  const result: ImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+  const seenAt = new Date();
+
+  for (const row of rows) {
+    if (!row.property) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const { status } = await upsertProperty(row.property, seenAt);
+      result[status]++;
+    } catch (error) {
+      result.errors.push({ rowNumber: row.rowNumber, error: String(error) });
+    }
+  }
+
+  console.log(
+    `📥 Imported ${input.source} sheet: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+  );
+  return { result, errors };
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,18 @@
+export { previewImport, runImport, cleanup } from "./importer";
+export {
+  parseImportInput,
+  suggestMapping,
+  mapCsv,
+  DEFAULT_IMPORT_SOURCE,
+  MAX_IMPORT_ROWS,
+} from "./mapping";
+export { parseCsv } from "./csv";
+export { IMPORT_FIELDS } from "./types";
+export type {
+  ImportField,
+  ColumnMapping,
+  ImportInput,
+  ImportRow,
+  ImportPreview,
+  ImportResult,
+} from "./types";
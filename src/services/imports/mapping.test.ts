@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import { parseImportInput, suggestMapping, mapCsv } from "./mapping";
+
+const SHEET = [
+  "Property Address,City,State,Zip Code,Asking Price,Beds,Baths,Sq Ft,Property Type,Notes",
+  '"12 Main St, Unit 4",Greer,South Carolina,29650,"$289,000",3,2.5,"1,600",Townhome,motivated',
+  "40 Oak Ave,Taylors,SC,,150000,,,,Duplex,",
+  "9 Elm St,Greer,ZZZ,2965,free,2.5,,,castle,",
+].join("\n");
+
+describe("parseImportInput", () => {
+  test("defaults the source label", () => {
+    const { input, errors } = parseImportInput({ csv: SHEET });
+    expect(errors).toEqual([]);
+    expect(input?.source).toBe("import");
+  });
+
+  test("lowercases custom labels and rejects alert sources", () => {
+    expect(parseImportInput({ csv: SHEET, source: "Acme Wholesale" }).input?.source).toBe(
+      "acme wholesale"
+    );
+    expect(parseImportInput({ csv: SHEET, source: "Zillow" }).errors).toEqual([
+      'source "zillow" is reserved for email alerts',
+    ]);
+  });
+
+  test("requires csv text and a valid mapping", () => {
+    const { input, errors } = parseImportInput({ mapping: { garage: "Garage" } });
+    expect(input).toBeUndefined();
+    expect(errors).toEqual(["csv is required", "mapping.garage is not an importable field"]);
+  });
+});
+
+describe("suggestMapping", () => {
+  test("matches common header spellings", () => {
+    expect(suggestMapping(SHEET.split("\n")[0]!.split(","))).toEqual({
+      street: "Property Address",
+      city: "City",
+      state: "State",
+      zip: "Zip Code",
+      price: "Asking Price",
+      propertyType: "Property Type",
+      beds: "Beds",
+      baths: "Baths",
+      sqft: "Sq Ft",
+    });
+  });
+});
+
+describe("mapCsv", () => {
+  test("maps valid rows to listings keyed by address", () => {
+    const { rows, errors } = mapCsv(SHEET, undefined, "import");
+    expect(errors).toEqual([]);
+    expect(rows[0]).toEqual({
+      rowNumber: 2,
+      errors: [],
+      property: {
+        street: "12 Main St, Unit 4",
+        city: "Greer",
+        state: "SC",
+        zip: "29650",
+        source: "import",
+        sourceId: "12 main st # 4|greer|sc",
+        url: null,
+        status: undefined,
+        price: 289000,
+        propertyType: "TOWNHOUSE",
+        beds: 3,
+        baths: 2.5,
+        sqft: 1600,
+        lotSize: undefined,
+        images: [],
+      },
+    });
+    expect(rows[1]?.property).toMatchObject({
+      state: "SC",
+      zip: undefined,
+      price: 150000,
+      propertyType: "MULTI_FAMILY",
+      beds: undefined,
+    });
+  });
+
+  test("reports every problem with a row", () => {
+    const { rows } = mapCsv(SHEET, undefined, "import");
+    expect(rows[2]).toEqual({
+      rowNumber: 4,
+      errors: [
+        "state must be a state name or two-letter code",
+        "zip must be a 5-digit ZIP code",
+        "price must be a positive amount",
+        "beds must be a whole number",
+        'propertyType "castle" is not recognized',
+      ],
+    });
+  });
+
+  test("rejects mappings missing required fields or naming unknown columns", () => {
+    const { rows, errors } = mapCsv(SHEET, { street: "Address", city: "City" }, "import");
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      "state must be mapped to a column",
+      "price must be mapped to a column",
+      'street is mapped to missing column "Address"',
+    ]);
+  });
+
+  test("rejects a sheet without data rows", () => {
+    expect(mapCsv("street,city,state,price\n", undefined, "import").errors).toEqual([
+      "csv has no data rows",
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import type { ParsedProperty } from "../email/types";
+import { sourceAdapters } from "../email/sources";
+import { normalizeAddress, normalizeState } from "../address/normalize";
+import { parseCsv } from "./csv";
+import {
+  IMPORT_FIELDS,
+  type ImportField,
+  type ColumnMapping,
+  type ImportInput,
+  type ImportRow,
+} from "./types";
+
+export const DEFAULT_IMPORT_SOURCE = "import";
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_CSV_LENGTH = 5 * 1024 * 1024;
+
+const REQUIRED_FIELDS: ImportField[] = ["street", "city", "state", "price"];
+
+/** Header spellings wholesaler sheets use for each field, lowercased without punctuation */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  street: ["street", "address", "street address", "property address", "address 1", "address line 1"],
+  city: ["city", "town"],
+  state: ["state", "st", "province"],
+  zip: ["zip", "zip code", "zipcode", "postal code"],
+  price: ["price", "asking price", "asking", "list price", "listing price", "contract price"],
+  propertyType: ["type", "property type", "home type"],
+  status: ["status", "listing status"],
+  beds: ["beds", "bedrooms", "bed", "br"],
+  baths: ["baths", "bathrooms", "bath", "ba"],
+  sqft: ["sqft", "sq ft", "square feet", "square footage", "living area"],
+  lotSize: ["lot size", "lot", "acres", "acreage", "lot acres"],
+  url: ["url", "link", "listing url"],
+  sourceId: ["id", "deal id", "source id", "reference"],
+};
+
+const PROPERTY_TYPE_ALIASES: Record<string, NonNullable<ParsedProperty["propertyType"]>> = {
+  home: "HOME",
+  house: "HOME",
+  "single family": "HOME",
+  sfr: "HOME",
+  sfh: "HOME",
+  condo: "CONDO",
+  condominium: "CONDO",
+  townhouse: "TOWNHOUSE",
+  townhome: "TOWNHOUSE",
+  "multi family": "MULTI_FAMILY",
+  multifamily: "MULTI_FAMILY",
+  duplex: "MULTI_FAMILY",
+  triplex: "MULTI_FAMILY",
+  fourplex: "MULTI_FAMILY",
+  quadplex: "MULTI_FAMILY",
+  land: "LAND",
+  lot: "LAND",
+  "vacant land": "LAND",
+};
+
+const STATUS_ALIASES: Record<string, NonNullable<ParsedProperty["status"]>> = {
+  active: "ACTIVE",
+  available: "ACTIVE",
+  "coming soon": "COMING_SOON",
+  pending: "PENDING",
+  "under contract": "PENDING",
+  contingent: "PENDING",
+  sold: "SOLD",
+  closed: "SOLD",
+  "off market": "OFF_MARKET",
+  withdrawn: "OFF_MARKET",
+  expired: "OFF_MARKET",
+};
+
+/**
+ * Validate an import request body
+ * The source label defaults to "import"; alert sources are reserved so
+ * imported rows never collide with listings parsed from emails
+ */
+export function parseImportInput(body: unknown): {
+  input?: ImportInput;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const data = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+
+  const csv = typeof data.csv === "string" ? data.csv : "";
+  if (!csv.trim()) errors.push("csv is required");
+  if (csv.length > MAX_CSV_LENGTH) errors.push("csv must be at most 5 MB");
+
+  const source =
+    typeof data.source === "string" && data.source.trim()
+      ? data.source.trim().toLowerCase()
+      : DEFAULT_IMPORT_SOURCE;
+  if (!/^[a-z0-9][a-z0-9 _-]{0,49}$/.test(source)) {
+    errors.push("source must be up to 50 letters, numbers, spaces, dashes or underscores");
+  } else if (sourceAdapters.some((adapter) => adapter.source === source)) {
+    errors.push(`source "${source}" is reserved for email alerts`);
+  }
+
+  let mapping: ColumnMapping | undefined;
+  if (data.mapping !== undefined && data.mapping !== null) {
+    if (typeof data.mapping !== "object" || Array.isArray(data.mapping)) {
+      errors.push("mapping must be an object of field -> column header");
+    } else {
+      mapping = {};
+      for (const [field, header] of Object.entries(data.mapping)) {
+        if (!IMPORT_FIELDS.includes(field as ImportField)) {
+          errors.push(`mapping.${field} is not an importable field`);
+        } else if (typeof header === "string" && header) {
+          mapping[field as ImportField] = header;
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input: { csv, mapping, source }, errors };
+}
+
+/**
+ * Guess a mapping from the sheet's headers
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const claimed = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const header = headers.find(
+      (h) => !claimed.has(h) && FIELD_ALIASES[field].includes(simplify(h))
+    );
+    if (header) {
+      mapping[field] = header;
+      claimed.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Split a CSV into headers and validated rows under a mapping
+ * Without a mapping the suggested one is used. Sheet-level problems
+ * (no rows, unmapped required fields) come back as errors instead
+ */
+export function mapCsv(
+  csv: string,
+  mapping: ColumnMapping | undefined,
+  source: string
+): { headers: string[]; mapping: ColumnMapping; rows: ImportRow[]; errors: string[] } {
+  const [headerRow = [], ...dataRows] = parseCsv(csv);
+  const headers = headerRow.map((h) => h.trim());
+  const resolved = mapping ?? suggestMapping(headers);
+  const errors: string[] = [];
+
+  if (dataRows.length === 0) errors.push("csv has no data rows");
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push(`csv has ${dataRows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`);
+  }
+  for (const field of REQUIRED_FIELDS) {
+    if (!resolved[field]) errors.push(`${field} must be mapped to a column`);
+  }
+  for (const [field, header] of Object.entries(resolved)) {
+    if (!headers.includes(header)) errors.push(`${field} is mapped to missing column "${header}"`);
+  }
+
+  if (errors.length > 0) return { headers, mapping: resolved, rows: [], errors };
+
+  const rows = dataRows.map((cells, i) => {
+    const record = Object.fromEntries(headers.map((header, j) => [header, cells[j]?.trim() ?? ""]));
+    const value = (field: ImportField) => {
+      const header = resolved[field];
+      return header ? record[header] ?? "" : "";
+    };
+    return { rowNumber: i + 2, ...mapRow(value, source) };
+  });
+
+  return { headers, mapping: resolved, rows, errors };
+}
+
+/**
+ * Validate one row and build the listing upsertProperty expects
+ * Rows without a sourceId are keyed by address, so re-importing a sheet
+ * updates the same listings instead of duplicating them
+ */
+export function mapRow(
+  value: (field: ImportField) => string,
+  source: string
+): { property?: ParsedProperty; errors: string[] } {
+  const errors: string[] = [];
+
+  const street = value("street");
+  const city = value("city");
+  const state = normalizeState(value("state")).toUpperCase();
+  if (!street) errors.push("street is required");
+  if (!city) errors.push("city is required");
+  if (!/^[A-Z]{2}$/.test(state)) errors.push("state must be a state name or two-letter code");
+
+  const zip = value("zip");
+  if (zip && !/^\d{5}(-\d{4})?$/.test(zip)) errors.push("zip must be a 5-digit ZIP code");
+
+  const price = parseNumber(value("price"));
+  if (price === undefined || price === null || price <= 0) errors.push("price must be a positive amount");
+
+  const beds = parseNumber(value("beds"));
+  if (beds === null || (beds !== undefined && (!Number.isInteger(beds) || beds < 0))) {
+    errors.push("beds must be a whole number");
+  }
+  const baths = parseNumber(value("baths"));
+  if (baths === null || (baths !== undefined && baths < 0)) errors.push("baths must be a number");
+  const sqft = parseNumber(value("sqft"));
+  if (sqft === null || (sqft !== undefined && (!Number.isInteger(sqft) || sqft <= 0))) {
+    errors.push("sqft must be a whole number");
+  }
+  const lotSize = parseNumber(value("lotSize"));
+  if (lotSize === null || (lotSize !== undefined && lotSize < 0)) errors.push("lotSize must be a number of acres");
+
+  const typeText = value("propertyType");
+  const propertyType = typeText ? PROPERTY_TYPE_ALIASES[simplify(typeText)] : undefined;
+  if (typeText && !propertyType) errors.push(`propertyType "${typeText}" is not recognized`);
+
+  const statusText = value("status");
+  const status = statusText ? STATUS_ALIASES[simplify(statusText)] : undefined;
+  if (statusText && !status) errors.push(`status "${statusText}" is not recognized`);
+
+  const url = value("url");
+  if (url && !/^https?:\/\//i.test(url)) errors.push("url must start with http:// or https://");
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    property: {
+      street,
+      city,
+      state,
+      zip: zip || undefined,
+      source,
+      sourceId: value("sourceId") || normalizeAddress(street, city, state),
+      url: url || null,
+      status,
+      price: price!,
+      propertyType,
+      beds: beds ?? undefined,
+      baths: baths ?? undefined,
+      sqft: sqft ?? undefined,
+      lotSize: lotSize ?? undefined,
+      images: [],
+    },
+    errors,
+  };
+}
+
+/**
+ * "$289,000" -> 289000; undefined when blank, null when not a number
+ */
+function parseNumber(text: string): number | null | undefined {
+  if (!text) return undefined;
+  const value = Number(text.replace(/[$,\s]/g, ""));
+  return Number.isFinite(value) ? value : null;
+}
+
+function simplify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
@@ -0,0 +1,55 @@
+import type { ParsedProperty } from "../email/types";
+
+/** Property fields a spreadsheet column can be mapped to */
+export const IMPORT_FIELDS = [
+  "street",
+  "city",
+  "state",
+  "zip",
+  "price",
+  "propertyType",
+  "status",
+  "beds",
+  "baths",
+  "sqft",
+  "lotSize",
+  "url",
+  "sourceId",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Property field -> spreadsheet column header */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportInput {
+  csv: string;
+  mapping?: ColumnMapping;
+  source: string;
+}
+
+export interface ImportRow {
+  rowNumber: number; // Spreadsheet row, counting the header as row 1
+  property?: ParsedProperty;
+  errors: string[];
+  // Whether the address already has a property (preview only)
+  match?: "new" | "existing";
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  source: string;
+  rows: ImportRow[];
+  validCount: number;
+  errorCount: number;
+  // Problems with the sheet as a whole, e.g. an unmapped required field; no rows when set
+  errors: string[];
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number; // Rows with validation errors
+  errors: { rowNumber: number; error: string }[];
+}
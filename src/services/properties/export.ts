@@ -0,0 +1,171 @@
+import ExcelJS from "exceljs";
+import { once } from "node:events";
+import { PassThrough } from "node:stream";
+import { PrismaClient } from "../../../generated/prisma";
+import { buildPropertyWhere, buildPropertyOrderBy } from "./query";
+import { withinRadius } from "./search";
+import {
+  EXPORT_COLUMNS,
+  exportRow,
+  csvLine,
+  type ExportFormat,
+  type ExportProperty,
+} from "./spreadsheet";
+import type { PropertyQuery } from "./types";
+
+const prisma = new PrismaClient();
+
+// Rows fetched per query while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+const include = {
+  listings: {
+    orderBy: { price: "asc" as const },
+    select: {
+      source: true,
+      url: true,
+      priceHistory: {
+        select: { oldPrice: true, newPrice: true, changeDate: true },
+        orderBy: { changeDate: "desc" as const },
+        take: 1,
+      },
+    },
+  },
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Every property matching a query, a batch at a time
+ * The query's cursor and limit are ignored: exports always cover all rows
+ */
+async function* exportBatches(query: PropertyQuery): AsyncGenerator<ExportProperty[]> {
+  const where = buildPropertyWhere(query);
+  const orderBy = buildPropertyOrderBy(query);
+
+  // A radius search is bounded by its box, and distance order needs every row anyway
+  if (query.near) {
+    yield withinRadius(await prisma.property.findMany({ where, include, orderBy }), query);
+    return;
+  }
+
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await prisma.property.findMany({
+      where,
+      include,
+      orderBy,
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (batch.length > 0) yield batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch.at(-1)!.id;
+  }
+}
+
+/**
+ * Stream matching properties as a spreadsheet
+ * origin is used to build each row's link back to the app
+ */
+export function exportProperties(
+  query: PropertyQuery,
+  format: ExportFormat,
+  origin: string
+): ReadableStream<Uint8Array> {
+  const context = { origin, now: new Date() };
+  const batches = exportBatches(query);
+
+  return format === "csv"
+    ? streamCsv(batches, context)
+    : streamXlsx(batches, context);
+}
+
+function streamCsv(
+  batches: AsyncGenerator<ExportProperty[]>,
+  context: { origin: string; now: Date }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  // Pull-based, so the next batch is only queried once the client has read the last one
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(csvLine(EXPORT_COLUMNS.map((c) => c.header))));
+    },
+    async pull(controller) {
+      const { value: batch, done } = await batches.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(
+        encoder.encode(batch.map((property) => csvLine(exportRow(property, context))).join(""))
+      );
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+}
+
+function streamXlsx(
+  batches: AsyncGenerator<ExportProperty[]>,
+  context: { origin: string; now: Date }
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+  const sheet = workbook.addWorksheet("Properties");
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    key: column.header,
+    width: column.width ?? 12,
+  }));
+
+  // Cancelling the download stops the writer even while it waits on a drain
+  const cancelled = new AbortController();
+
+  (async () => {
+    try {
+      for await (const batch of batches) {
+        for (const property of batch) {
+          // Committed rows are flushed to the stream and released
+          sheet.addRow(exportRow(property, context)).commit();
+        }
+        // Wait for the client to catch up before querying the next batch
+        if (output.writableNeedDrain) {
+          await once(output, "drain", { signal: cancelled.signal });
+        }
+      }
+      sheet.commit();
+      await workbook.commit();
+    } catch (error) {
+      if (cancelled.signal.aborted) return;
+      console.error("❌ Property export failed:", error);
+      output.destroy(error as Error);
+    }
+  })();
+
+  const chunks: AsyncIterator<Buffer> = output[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value: chunk, done } = await chunks.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+    cancel() {
+      cancelled.abort();
+      output.destroy();
+    },
+  });
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
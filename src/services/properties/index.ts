@@ -0,0 +1,28 @@
+export {
+  parsePropertyQuery,
+  buildPropertyWhere,
+  buildPropertyOrderBy,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "./query";
+export { searchProperties, searchMapProperties, cleanup } from "./search";
+export { createProperty, updateProperty, deleteProperty } from "./manage";
+export { parsePropertyInput } from "./input";
+export { exportProperties, EXPORT_CONTENT_TYPES } from "./export";
+export { EXPORT_FORMATS, EXPORT_COLUMNS } from "./spreadsheet";
+export {
+  PROPERTY_STATUSES,
+  PROPERTY_TYPES,
+  PROPERTY_SORT_FIELDS,
+  EDITABLE_PROPERTY_FIELDS,
+} from "./types";
+export type {
+  PropertyQuery,
+  PropertySortField,
+  SortOrder,
+  FieldError,
+  PropertyPage,
+  PropertyInput,
+  EditablePropertyField,
+} from "./types";
+export type { ExportFormat } from "./spreadsheet";
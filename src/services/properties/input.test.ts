@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { parsePropertyInput, mergeOverrides } from "./input";
+
+describe("parsePropertyInput", () => {
+  test("create requires an address and price", () => {
+    expect(parsePropertyInput({ city: "Greer" }, "create").errors).toEqual([
+      { field: "street", message: "street is required" },
+      { field: "state", message: "state is required" },
+      { field: "price", message: "price is required" },
+    ]);
+  });
+
+  test("normalizes values", () => {
+    const { input, errors } = parsePropertyInput(
+      {
+        street: " 12 Main St ",
+        city: "Greer",
+        state: "South Carolina",
+        price: "289000",
+        status: "pending",
+        beds: 3,
+        baths: "2.5",
+        notes: "",
+      },
+      "create"
+    );
+
+    expect(errors).toEqual([]);
+    expect(input).toEqual({
+      street: "12 Main St",
+      city: "Greer",
+      state: "SC",
+      price: 289000,
+      status: "PENDING",
+      beds: 3,
+      baths: 2.5,
+      notes: null,
+    });
+  });
+
+  test("reports invalid fields", () => {
+    const { input, errors } = parsePropertyInput(
+      { zip: "2965", price: 0, propertyType: "castle", beds: 2.5, state: "Atlantis" },
+      "update"
+    );
+
+    expect(input).toBeUndefined();
+    expect(errors).toEqual([
+      { field: "zip", message: "zip must be a 5-digit ZIP code" },
+      { field: "price", message: "price must be greater than 0" },
+      { field: "propertyType", message: "propertyType must be one of HOME, LAND, CONDO, TOWNHOUSE, MULTI_FAMILY" },
+      { field: "beds", message: "beds must be a whole number" },
+      { field: "state", message: "state must be a state name or two-letter code" },
+    ]);
+  });
+
+  test("an edit can clear optional fields but not required ones", () => {
+    expect(parsePropertyInput({ sqft: null, zip: "" }, "update").input).toEqual({
+      sqft: null,
+      zip: null,
+    });
+    expect(parsePropertyInput({ street: "" }, "update").errors).toEqual([
+      { field: "street", message: "street is required" },
+    ]);
+  });
+
+  test("an edit must change something", () => {
+    expect(parsePropertyInput({}, "update").errors).toEqual([
+      { field: "body", message: "body must include at least one field to change" },
+    ]);
+  });
+
+  test("resetFields only names editable fields", () => {
+    expect(parsePropertyInput({ resetFields: ["price", "beds"] }, "update").input).toEqual({
+      resetFields: ["price", "beds"],
+    });
+    expect(parsePropertyInput({ resetFields: ["notes"] }, "update").errors).toHaveLength(1);
+  });
+});
+
+describe("mergeOverrides", () => {
+  test("adds edited fields and drops reset ones", () => {
+    expect(mergeOverrides(["price", "beds"], { sqft: 1600, notes: "roof", resetFields: ["beds"] })).toEqual([
+      "price",
+      "sqft",
+    ]);
+  });
+});
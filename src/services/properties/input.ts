@@ -0,0 +1,144 @@
+import { normalizeState } from "../address/normalize";
+import {
+  PROPERTY_STATUSES,
+  PROPERTY_TYPES,
+  EDITABLE_PROPERTY_FIELDS,
+  type EditablePropertyField,
+  type PropertyInput,
+  type FieldError,
+} from "./types";
+
+type FieldSpec =
+  | { type: "string"; maxLength: number; required?: boolean; pattern?: RegExp; hint?: string }
+  | { type: "number"; min: number; max?: number; integer?: boolean; positive?: boolean; required?: boolean }
+  | { type: "enum"; values: readonly string[] };
+
+/**
+ * Every field a create/edit body accepts, and what a valid value looks like
+ * Required fields are needed to create a property and can't be cleared;
+ * the others can be set to null
+ */
+const INPUT_SCHEMA: Record<Exclude<keyof PropertyInput, "resetFields">, FieldSpec> = {
+  street: { type: "string", maxLength: 200, required: true },
+  city: { type: "string", maxLength: 100, required: true },
+  state: { type: "string", maxLength: 50, required: true },
+  zip: { type: "string", maxLength: 10, pattern: /^\d{5}(-\d{4})?$/, hint: "a 5-digit ZIP code" },
+  price: { type: "number", min: 0, positive: true, max: 9_999_999_999, required: true },
+  status: { type: "enum", values: PROPERTY_STATUSES },
+  propertyType: { type: "enum", values: PROPERTY_TYPES },
+  beds: { type: "number", min: 0, max: 100, integer: true },
+  baths: { type: "number", min: 0, max: 99 },
+  sqft: { type: "number", min: 1, max: 1_000_000, integer: true },
+  lotSize: { type: "number", min: 0, max: 99_999_999 },
+  notes: { type: "string", maxLength: 5000 },
+};
+
+/**
+ * Validate a POST/PATCH /api/properties body
+ * Creating needs every required field; an edit only touches the fields it sends
+ */
+export function parsePropertyInput(
+  body: unknown,
+  mode: "create" | "update"
+): { input?: PropertyInput; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const data = (body && typeof body === "object" && !Array.isArray(body) ? body : {}) as Record<
+    string,
+    unknown
+  >;
+  const input: Record<string, unknown> = {};
+
+  for (const [field, spec] of Object.entries(INPUT_SCHEMA)) {
+    const raw = typeof data[field] === "string" ? (data[field] as string).trim() : data[field];
+
+    if (raw === undefined || raw === null || raw === "") {
+      if (spec.type !== "enum" && spec.required) {
+        if (mode === "create" || raw !== undefined) {
+          errors.push({ field, message: `${field} is required` });
+        }
+      } else if (raw !== undefined && spec.type !== "enum") {
+        input[field] = null;
+      }
+      continue;
+    }
+
+    const result = parseField(raw, spec);
+    if (typeof result === "object" && result !== null && "error" in result) {
+      errors.push({ field, message: `${field} must be ${result.error}` });
+    } else {
+      input[field] = result;
+    }
+  }
+
+  if (typeof input.state === "string") {
+    const state = normalizeState(input.state).toUpperCase();
+    if (/^[A-Z]{2}$/.test(state)) input.state = state;
+    else errors.push({ field: "state", message: "state must be a state name or two-letter code" });
+  }
+
+  if (data.resetFields !== undefined) {
+    const fields = data.resetFields;
+    if (
+      mode === "create" ||
+      !Array.isArray(fields) ||
+      !fields.every((f) => EDITABLE_PROPERTY_FIELDS.includes(f as EditablePropertyField))
+    ) {
+      errors.push({
+        field: "resetFields",
+        message: `resetFields must be a list of ${EDITABLE_PROPERTY_FIELDS.join(", ")} when editing`,
+      });
+    } else {
+      input.resetFields = fields;
+    }
+  }
+
+  if (mode === "update" && Object.keys(input).length === 0 && errors.length === 0) {
+    errors.push({ field: "body", message: "body must include at least one field to change" });
+  }
+
+  if (errors.length > 0) return { errors };
+  return { input: input as PropertyInput, errors };
+}
+
+/**
+ * The editable fields an input sets, which become manual overrides
+ */
+export function overriddenBy(input: PropertyInput): EditablePropertyField[] {
+  return EDITABLE_PROPERTY_FIELDS.filter((field) => input[field] !== undefined);
+}
+
+/**
+ * A property's override list after an edit
+ */
+export function mergeOverrides(current: string[], input: PropertyInput): string[] {
+  const reset = new Set<string>(input.resetFields ?? []);
+  const set = new Set([...current.filter((field) => !reset.has(field)), ...overriddenBy(input)]);
+  return EDITABLE_PROPERTY_FIELDS.filter((field) => set.has(field));
+}
+
+function parseField(raw: unknown, spec: FieldSpec): string | number | { error: string } {
+  switch (spec.type) {
+    case "string":
+      if (typeof raw !== "string") return { error: "text" };
+      if (raw.length > spec.maxLength) return { error: `at most ${spec.maxLength} characters` };
+      if (spec.pattern && !spec.pattern.test(raw)) return { error: spec.hint ?? "well-formed" };
+      return raw;
+
+    case "number": {
+      const value = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw) : NaN;
+      if (!Number.isFinite(value)) return { error: "a number" };
+      if (spec.integer && !Number.isInteger(value)) return { error: "a whole number" };
+      if (spec.positive ? value <= 0 : value < spec.min) {
+        return { error: spec.positive ? "greater than 0" : `at least ${spec.min}` };
+      }
+      if (spec.max !== undefined && value > spec.max) return { error: `at most ${spec.max}` };
+      return value;
+    }
+
+    case "enum": {
+      const value = typeof raw === "string" ? raw.toUpperCase() : "";
+      if (!spec.values.includes(value)) return { error: `one of ${spec.values.join(", ")}` };
+      return value;
+    }
+  }
+}
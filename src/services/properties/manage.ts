@@ -0,0 +1,155 @@
+import { PrismaClient, Prisma, type Property } from "../../../generated/prisma";
+import { normalizeAddress } from "../address/normalize";
+import { geocodeAddress } from "../geocoding";
+import { syncPropertySummary } from "../email/listings";
+import { daysOnMarket, isOffMarket } from "../email/utils";
+import { overriddenBy, mergeOverrides } from "./input";
+import type { PropertyInput } from "./types";
+
+const prisma = new PrismaClient();
+
+type SaveResult = { property: Property } | { duplicateId: string };
+
+/**
+ * Create a property by hand
+ * Every field it sets is an override, so if an email alert for the same
+ * address shows up later the listing joins it without replacing those values.
+ * Returns the existing property's ID instead if the address is already known
+ */
+export async function createProperty(input: PropertyInput): Promise<SaveResult> {
+  const street = input.street!;
+  const city = input.city!;
+  const state = input.state!;
+  const addressKey = normalizeAddress(street, city, state);
+
+  const duplicate = await findByAddressKey(addressKey);
+  if (duplicate) return { duplicateId: duplicate.id };
+
+  const location = await geocodeAddress({ street, city, state, zip: input.zip });
+  const now = new Date();
+  const status = input.status ?? "ACTIVE";
+
+  const property = await prisma.property.create({
+    data: {
+      street,
+      city,
+      state,
+      zip: input.zip,
+      addressKey,
+      latitude: location?.latitude,
+      longitude: location?.longitude,
+      geocodePrecision: location?.precision,
+      status,
+      price: new Prisma.Decimal(input.price!),
+      pricePerSqft: input.sqft
+        ? new Prisma.Decimal(input.price! / input.sqft).toDecimalPlaces(2)
+        : null,
+      offMarketDays: isOffMarket(status) ? 0 : null,
+      propertyType: input.propertyType ?? "HOME",
+      beds: input.beds,
+      baths: decimal(input.baths),
+      sqft: input.sqft,
+      lotSize: decimal(input.lotSize),
+      notes: input.notes,
+      overriddenFields: overriddenBy(input),
+      firstSeenAt: now,
+      lastSeenAt: now,
+    },
+  });
+
+  console.log(`✏️ Created property by hand: ${property.street}, ${property.city}`);
+  return { property };
+}
+
+/**
+ * Edit a property by hand, recording the edited fields as overrides
+ * Reset fields are handed back to its listings. Returns null if the property
+ * doesn't exist, or the other property's ID if the new address is taken
+ */
+export async function updateProperty(
+  id: string,
+  input: PropertyInput
+): Promise<SaveResult | null> {
+  const existing = await prisma.property.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const street = input.street ?? existing.street;
+  const city = input.city ?? existing.city;
+  const state = input.state ?? existing.state;
+  const zip = input.zip === undefined ? existing.zip : input.zip;
+  const addressKey = normalizeAddress(street, city, state);
+  const moved = addressKey !== existing.addressKey || zip !== existing.zip;
+
+  if (addressKey !== existing.addressKey) {
+    const duplicate = await findByAddressKey(addressKey);
+    if (duplicate && duplicate.id !== id) return { duplicateId: duplicate.id };
+  }
+
+  const location = moved ? await geocodeAddress({ street, city, state, zip }) : null;
+
+  // Derived fields follow the edit; syncPropertySummary refines them below
+  // when the property has listings
+  const price = input.price === undefined ? existing.price : new Prisma.Decimal(input.price);
+  const sqft = input.sqft === undefined ? existing.sqft : input.sqft;
+  const status = input.status ?? existing.status;
+
+  await prisma.property.update({
+    where: { id },
+    data: {
+      street: input.street,
+      city: input.city,
+      state: input.state,
+      zip: input.zip,
+      addressKey,
+      ...(moved && {
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        geocodePrecision: location?.precision ?? null,
+      }),
+      status: input.status,
+      price,
+      pricePerSqft: sqft ? price.dividedBy(sqft).toDecimalPlaces(2) : null,
+      offMarketDays: isOffMarket(status)
+        ? (existing.offMarketDays ?? daysOnMarket({ ...existing, status }))
+        : null,
+      propertyType: input.propertyType,
+      beds: input.beds,
+      baths: input.baths === undefined ? undefined : decimal(input.baths),
+      sqft: input.sqft,
+      lotSize: input.lotSize === undefined ? undefined : decimal(input.lotSize),
+      notes: input.notes,
+      overriddenFields: mergeOverrides(existing.overriddenFields, input),
+    },
+  });
+
+  await syncPropertySummary(id);
+
+  console.log(`✏️ Edited property: ${street}, ${city}`);
+  return { property: await prisma.property.findUniqueOrThrow({ where: { id } }) };
+}
+
+/**
+ * Delete a property with its listings, their history and any favorites
+ * Returns false if it doesn't exist
+ */
+export async function deleteProperty(id: string): Promise<boolean> {
+  const { count } = await prisma.property.deleteMany({ where: { id } });
+  if (count > 0) console.log(`🗑️ Deleted property ${id}`);
+  return count > 0;
+}
+
+async function findByAddressKey(addressKey: string) {
+  return prisma.property.findFirst({
+    where: { addressKey },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+function decimal(value: number | null | undefined) {
+  return value === null || value === undefined ? value : new Prisma.Decimal(value);
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { parsePropertyQuery, buildPropertyWhere, buildPropertyOrderBy } from "./query";
+
+const parse = (query: string) => parsePropertyQuery(new URLSearchParams(query));
+const where = (query: string, now?: Date) => buildPropertyWhere(parse(query).query!, now);
+
+describe("parsePropertyQuery", () => {
+  test("defaults", () => {
+    const { query, errors } = parse("");
+
+    expect(errors).toEqual([]);
+    expect(query).toMatchObject({ sortBy: "createdAt", order: "desc", limit: 50 });
+    expect(query?.cursor).toBeUndefined();
+  });
+
+  test("parses typed values", () => {
+    const { query } = parse(
+      "state=sc&type=condo&status=active,pending&minBeds=3&maxBaths=2.5&firstSeenAfter=2026-01-01&limit=20&cursor=clx123"
+    );
+
+    expect(query).toMatchObject({
+      state: "SC",
+      type: "CONDO",
+      status: ["ACTIVE", "PENDING"],
+      beds: { min: 3 },
+      baths: { max: 2.5 },
+      firstSeen: { after: new Date("2026-01-01") },
+      limit: 20,
+      cursor: "clx123",
+    });
+  });
+
+  test("empty values are ignored", () => {
+    expect(parse("minPrice=&city=").errors).toEqual([]);
+  });
+
+  test("cheapest first when sorting by price", () => {
+    expect(parse("sortBy=price").query).toMatchObject({ sortBy: "price", order: "asc" });
+    expect(parse("sortBy=price&order=desc").query).toMatchObject({ order: "desc" });
+  });
+
+  test("nearest first with a location", () => {
+    expect(parse("near=34.9,-82.2").query).toMatchObject({ sortBy: "distance", order: "asc" });
+  });
+
+  test.each([
+    ["minPrice=abc", "minPrice", "minPrice must be a number of at least 0"],
+    ["maxPrice=-1", "maxPrice", "maxPrice must be a number of at least 0"],
+    ["minBeds=2.5", "minBeds", "minBeds must be a whole number of at least 0"],
+    ["limit=500", "limit", "limit must be a whole number between 1 and 200"],
+    ["state=Carolina", "state", "state must be at most 2 characters"],
+    ["state=1a", "state", "state must be a two-letter state code"],
+    ["status=ACTIVE,GONE", "status", "status must be a comma-separated list of COMING_SOON, ACTIVE, PENDING, SOLD, OFF_MARKET"],
+    ["type=castle", "type", "type must be one of HOME, LAND, CONDO, TOWNHOUSE, MULTI_FAMILY"],
+    ["sortBy=name", "sortBy", "sortBy must be one of createdAt, price, pricePerSqft, priceDrop, beds, sqft, firstSeenAt, distance"],
+    ["order=up", "order", "order must be one of asc, desc"],
+    ["firstSeenBefore=last week", "firstSeenBefore", "firstSeenBefore must be an ISO date such as 2026-01-31"],
+    ["cursor=../etc", "cursor", "cursor must be a cursor from a previous page"],
+    ["minSqft=3000&maxSqft=1000", "minSqft", "minSqft must not exceed maxSqft"],
+    ["lastSeenAfter=2026-02-01&lastSeenBefore=2026-01-01", "lastSeenAfter", "lastSeenAfter must be earlier than lastSeenBefore"],
+    ["sortBy=distance", "sortBy", "sortBy=distance requires near=lat,lng"],
+    ["near=999,0", "near", "near must be lat,lng with latitude in [-90, 90] and longitude in [-180, 180]"],
+    ["near=34.9,-82.2&radiusMiles=0", "radiusMiles", "radiusMiles must be a number between 0 and 500"],
+  ])("%s", (query, field, message) => {
+    expect(parse(query)).toEqual({ errors: [{ field, message }] });
+  });
+
+  test("reports every invalid field", () => {
+    expect(parse("minPrice=abc&limit=0").errors.map((e) => e.field)).toEqual(["minPrice", "limit"]);
+  });
+});
+
+describe("buildPropertyWhere", () => {
+  test("no filters", () => {
+    expect(where("")).toEqual({});
+  });
+
+  test("attribute filters", () => {
+    expect(where("city=greer&source=zillow&status=SOLD&minPrice=200000&maxSqft=2400")).toEqual({
+      city: { contains: "greer", mode: "insensitive" },
+      listings: { some: { source: "zillow" } },
+      status: { in: ["SOLD"] },
+      price: { gte: 200000, lte: undefined },
+      sqft: { gte: undefined, lte: 2400 },
+    });
+  });
+
+  test("date ranges", () => {
+    expect(where("firstSeenAfter=2026-01-01&lastSeenBefore=2026-03-01")).toEqual({
+      firstSeenAt: { gte: new Date("2026-01-01"), lt: undefined },
+      lastSeenAt: { gte: undefined, lt: new Date("2026-03-01") },
+    });
+  });
+
+  test("days on market counts to now while listed and uses the frozen count after", () => {
+    const now = new Date("2026-03-31T12:00:00Z");
+
+    expect(where("minDaysOnMarket=7&maxDaysOnMarket=30", now)).toEqual({
+      AND: [
+        {
+          OR: [
+            {
+              offMarketDays: null,
+              firstSeenAt: {
+                lte: new Date("2026-03-24T12:00:00Z"),
+                gt: new Date("2026-02-28T12:00:00Z"),
+              },
+            },
+            { offMarketDays: { gte: 7, lte: 30 } },
+          ],
+        },
+      ],
+    });
+  });
+
+  test("near narrows to the bounding box", () => {
+    const result = where("near=34.85,-82.39&radiusMiles=10");
+
+    expect(result.latitude).toMatchObject({ gte: expect.any(Number), lte: expect.any(Number) });
+    expect(result.longitude).toMatchObject({ gte: expect.any(Number), lte: expect.any(Number) });
+  });
+});
+
+describe("buildPropertyOrderBy", () => {
+  test("ties broken by id", () => {
+    expect(buildPropertyOrderBy({ sortBy: "priceDrop", order: "desc" })).toEqual([
+      { priceDrop: "desc" },
+      { id: "asc" },
+    ]);
+  });
+
+  test("nullable columns sort unknowns last", () => {
+    expect(buildPropertyOrderBy({ sortBy: "pricePerSqft", order: "asc" })).toEqual([
+      { pricePerSqft: { sort: "asc", nulls: "last" } },
+      { id: "asc" },
+    ]);
+  });
+
+  test("distance is left to the caller", () => {
+    expect(buildPropertyOrderBy({ sortBy: "distance", order: "asc" })).toEqual([{ id: "asc" }]);
+  });
+});
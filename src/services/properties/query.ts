@@ -0,0 +1,263 @@
+import type { Prisma } from "../../../generated/prisma";
+import { parseNearFilter } from "../geocoding/near";
+import { boundingBox } from "../geocoding/distance";
+import {
+  PROPERTY_STATUSES,
+  PROPERTY_TYPES,
+  PROPERTY_SORT_FIELDS,
+  type PropertyQuery,
+  type FieldError,
+  type NumberRange,
+  type DateRange,
+} from "./types";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type ParamSpec =
+  | { type: "string"; maxLength: number; pattern?: RegExp; hint?: string }
+  | { type: "number"; min: number; max?: number; integer?: boolean }
+  | { type: "enum"; values: readonly string[]; list?: boolean; uppercase?: boolean }
+  | { type: "date" };
+
+/**
+ * Every query parameter /api/properties accepts, and what a valid value looks like
+ * near/radiusMiles are validated by parseNearFilter
+ */
+const QUERY_SCHEMA: Record<string, ParamSpec> = {
+  city: { type: "string", maxLength: 100 },
+  state: { type: "string", maxLength: 2, pattern: /^[a-z]{2}$/i, hint: "a two-letter state code" },
+  source: { type: "string", maxLength: 50 },
+  type: { type: "enum", values: PROPERTY_TYPES, uppercase: true },
+  status: { type: "enum", values: PROPERTY_STATUSES, list: true, uppercase: true },
+  minPrice: { type: "number", min: 0 },
+  maxPrice: { type: "number", min: 0 },
+  minBeds: { type: "number", min: 0, integer: true },
+  maxBeds: { type: "number", min: 0, integer: true },
+  minBaths: { type: "number", min: 0 },
+  maxBaths: { type: "number", min: 0 },
+  minSqft: { type: "number", min: 0, integer: true },
+  maxSqft: { type: "number", min: 0, integer: true },
+  minDaysOnMarket: { type: "number", min: 0, integer: true },
+  maxDaysOnMarket: { type: "number", min: 0, integer: true },
+  firstSeenAfter: { type: "date" },
+  firstSeenBefore: { type: "date" },
+  lastSeenAfter: { type: "date" },
+  lastSeenBefore: { type: "date" },
+  sortBy: { type: "enum", values: PROPERTY_SORT_FIELDS },
+  order: { type: "enum", values: ["asc", "desc"] },
+  cursor: { type: "string", maxLength: 64, pattern: /^[a-z0-9]+$/i, hint: "a cursor from a previous page" },
+  limit: { type: "number", min: 1, max: MAX_PAGE_SIZE, integer: true },
+};
+
+type ParsedValue = string | string[] | number | Date;
+
+/**
+ * Validate /api/properties query params against QUERY_SCHEMA
+ * Returns the typed query, or one error per offending parameter
+ */
+export function parsePropertyQuery(params: URLSearchParams): {
+  query?: PropertyQuery;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+  const values: Record<string, ParsedValue> = {};
+
+  for (const [field, spec] of Object.entries(QUERY_SCHEMA)) {
+    const raw = params.get(field)?.trim();
+    if (!raw) continue;
+
+    const result = parseParam(raw, spec);
+    if (typeof result === "object" && "error" in result) {
+      errors.push({ field, message: `${field} must be ${result.error}` });
+    } else {
+      values[field] = result;
+    }
+  }
+
+  const { filter: near, errors: nearErrors } = parseNearFilter(params);
+  for (const message of nearErrors) {
+    errors.push({ field: message.startsWith("radiusMiles") ? "radiusMiles" : "near", message });
+  }
+
+  const range = (min: string, max: string): NumberRange => {
+    const bounds = { min: values[min] as number | undefined, max: values[max] as number | undefined };
+    if (bounds.min !== undefined && bounds.max !== undefined && bounds.min > bounds.max) {
+      errors.push({ field: min, message: `${min} must not exceed ${max}` });
+    }
+    return bounds;
+  };
+
+  const dates = (after: string, before: string): DateRange => {
+    const bounds = { after: values[after] as Date | undefined, before: values[before] as Date | undefined };
+    if (bounds.after && bounds.before && bounds.after >= bounds.before) {
+      errors.push({ field: after, message: `${after} must be earlier than ${before}` });
+    }
+    return bounds;
+  };
+
+  // Nearest first is the natural order of a radius search
+  const sortBy = (values.sortBy as PropertyQuery["sortBy"]) ?? (near ? "distance" : "createdAt");
+
+  const query: PropertyQuery = {
+    city: values.city as string | undefined,
+    state: (values.state as string | undefined)?.toUpperCase(),
+    source: values.source as string | undefined,
+    type: values.type as PropertyQuery["type"],
+    status: values.status as PropertyQuery["status"],
+    price: range("minPrice", "maxPrice"),
+    beds: range("minBeds", "maxBeds"),
+    baths: range("minBaths", "maxBaths"),
+    sqft: range("minSqft", "maxSqft"),
+    daysOnMarket: range("minDaysOnMarket", "maxDaysOnMarket"),
+    firstSeen: dates("firstSeenAfter", "firstSeenBefore"),
+    lastSeen: dates("lastSeenAfter", "lastSeenBefore"),
+    near,
+    sortBy,
+    order: (values.order as PropertyQuery["order"]) ?? defaultOrder(sortBy),
+    cursor: values.cursor as string | undefined,
+    limit: (values.limit as number | undefined) ?? DEFAULT_PAGE_SIZE,
+  };
+
+  if (query.sortBy === "distance" && !near) {
+    errors.push({ field: "sortBy", message: "sortBy=distance requires near=lat,lng" });
+  }
+
+  if (errors.length > 0) return { errors };
+  return { query, errors };
+}
+
+function parseParam(raw: string, spec: ParamSpec): ParsedValue | { error: string } {
+  switch (spec.type) {
+    case "string":
+      if (raw.length > spec.maxLength) return { error: `at most ${spec.maxLength} characters` };
+      if (spec.pattern && !spec.pattern.test(raw)) return { error: spec.hint ?? "well-formed" };
+      return raw;
+
+    case "number": {
+      const value = Number(raw);
+      const kind = spec.integer ? "a whole number" : "a number";
+      const bounds = spec.max === undefined ? ` of at least ${spec.min}` : ` between ${spec.min} and ${spec.max}`;
+      if (!Number.isFinite(value) || (spec.integer && !Number.isInteger(value))) {
+        return { error: `${kind}${bounds}` };
+      }
+      if (value < spec.min || (spec.max !== undefined && value > spec.max)) {
+        return { error: `${kind}${bounds}` };
+      }
+      return value;
+    }
+
+    case "enum": {
+      const items = (spec.list ? raw.split(",") : [raw]).map((item) =>
+        spec.uppercase ? item.trim().toUpperCase() : item.trim()
+      );
+      const invalid = items.filter((item) => !spec.values.includes(item));
+      if (invalid.length > 0) {
+        return { error: `${spec.list ? "a comma-separated list of" : "one of"} ${spec.values.join(", ")}` };
+      }
+      return spec.list ? items : items[0]!;
+    }
+
+    case "date": {
+      const value = new Date(raw);
+      if (!/^\d{4}-\d{2}-\d{2}/.test(raw) || Number.isNaN(value.getTime())) {
+        return { error: "an ISO date such as 2026-01-31" };
+      }
+      return value;
+    }
+  }
+}
+
+/** Prices and sizes read best cheapest/smallest first, everything else newest/biggest first */
+function defaultOrder(sortBy: PropertyQuery["sortBy"]): PropertyQuery["order"] {
+  return sortBy === "price" || sortBy === "pricePerSqft" || sortBy === "distance" ? "asc" : "desc";
+}
+
+/**
+ * Translate a validated query into a Prisma where clause
+ * A near filter only narrows to its bounding box; callers trim to the circle
+ */
+export function buildPropertyWhere(
+  query: PropertyQuery,
+  now: Date = new Date()
+): Prisma.PropertyWhereInput {
+  const where: Prisma.PropertyWhereInput = {};
+  const and: Prisma.PropertyWhereInput[] = [];
+
+  if (query.city) where.city = { contains: query.city, mode: "insensitive" };
+  if (query.state) where.state = query.state;
+  if (query.source) where.listings = { some: { source: query.source } };
+  if (query.type) where.propertyType = query.type;
+  if (query.status) where.status = { in: query.status };
+
+  if (hasBounds(query.price)) where.price = { gte: query.price.min, lte: query.price.max };
+  if (hasBounds(query.beds)) where.beds = { gte: query.beds.min, lte: query.beds.max };
+  if (hasBounds(query.baths)) where.baths = { gte: query.baths.min, lte: query.baths.max };
+  if (hasBounds(query.sqft)) where.sqft = { gte: query.sqft.min, lte: query.sqft.max };
+
+  if (query.firstSeen.after || query.firstSeen.before) {
+    where.firstSeenAt = { gte: query.firstSeen.after, lt: query.firstSeen.before };
+  }
+  if (query.lastSeen.after || query.lastSeen.before) {
+    where.lastSeenAt = { gte: query.lastSeen.after, lt: query.lastSeen.before };
+  }
+
+  if (hasBounds(query.daysOnMarket)) {
+    const { min, max } = query.daysOnMarket;
+    // Listed properties count from firstSeenAt to now; off-market ones have it frozen
+    and.push({
+      OR: [
+        {
+          offMarketDays: null,
+          firstSeenAt: {
+            lte: min !== undefined ? daysAgo(now, min) : undefined,
+            gt: max !== undefined ? daysAgo(now, max + 1) : undefined,
+          },
+        },
+        { offMarketDays: { gte: min, lte: max } },
+      ],
+    });
+  }
+
+  if (query.near) {
+    const box = boundingBox(query.near.center, query.near.radiusMiles);
+    where.latitude = { gte: box.minLatitude, lte: box.maxLatitude };
+    where.longitude = { gte: box.minLongitude, lte: box.maxLongitude };
+  }
+
+  if (and.length > 0) where.AND = and;
+  return where;
+}
+
+/**
+ * Translate sortBy/order into a Prisma orderBy
+ * The id tiebreaker gives cursors a stable position; distance is sorted by the caller
+ */
+export function buildPropertyOrderBy(
+  query: Pick<PropertyQuery, "sortBy" | "order">
+): Prisma.PropertyOrderByWithRelationInput[] {
+  const { sortBy, order } = query;
+  const tiebreaker = { id: "asc" } as const;
+
+  switch (sortBy) {
+    case "distance":
+      return [tiebreaker];
+    case "pricePerSqft":
+    case "beds":
+    case "sqft":
+      // Unknown values sort last either way
+      return [{ [sortBy]: { sort: order, nulls: "last" } }, tiebreaker];
+    default:
+      return [{ [sortBy]: order }, tiebreaker];
+  }
+}
+
+function hasBounds(range: NumberRange) {
+  return range.min !== undefined || range.max !== undefined;
+}
+
+function daysAgo(now: Date, days: number) {
+  return new Date(now.getTime() - days * MS_PER_DAY);
+}
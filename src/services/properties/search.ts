@@ -0,0 +1,137 @@
+import { PrismaClient } from "../../../generated/prisma";
+import { distanceMiles } from "../geocoding/distance";
+import { withDaysOnMarket } from "../email/utils";
+import { buildPropertyWhere, buildPropertyOrderBy } from "./query";
+import type { PropertyQuery, PropertyPage } from "./types";
+
+const prisma = new PrismaClient();
+
+const include = { listings: { orderBy: { price: "asc" as const } } };
+
+/** Most properties the map is sent at once */
+export const MAX_MAP_PROPERTIES = 2000;
+
+/**
+ * One page of properties matching a validated query
+ * nextCursor is the last property's id, or null on the last page
+ */
+export async function searchProperties(query: PropertyQuery) {
+  const now = new Date();
+  const where = buildPropertyWhere(query, now);
+  const orderBy = buildPropertyOrderBy(query);
+
+  if (query.near) return searchNear(query, where, orderBy, now);
+
+  const [rows, totalCount] = await Promise.all([
+    prisma.property.findMany({
+      where,
+      include,
+      orderBy,
+      // One extra row tells us whether there's another page
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    }),
+    prisma.property.count({ where }),
+  ]);
+
+  const page = rows.slice(0, query.limit);
+  return {
+    properties: page.map((property) => withDaysOnMarket(property, now)),
+    nextCursor: rows.length > query.limit ? page.at(-1)!.id : null,
+    totalCount,
+  };
+}
+
+/**
+ * Radius searches trim the bounding box to a circle in memory, so they
+ * page over the whole (already small) box rather than in the database
+ */
+async function searchNear(
+  query: PropertyQuery,
+  where: ReturnType<typeof buildPropertyWhere>,
+  orderBy: ReturnType<typeof buildPropertyOrderBy>,
+  now: Date
+) {
+  const rows = await prisma.property.findMany({ where, include, orderBy });
+  const nearby = withinRadius(
+    rows.map((property) => withDaysOnMarket(property, now)),
+    query
+  );
+
+  const start = query.cursor ? nearby.findIndex((p) => p.id === query.cursor) + 1 : 0;
+  // An unknown cursor means the page it came from is gone
+  const page = query.cursor && start === 0 ? [] : nearby.slice(start, start + query.limit);
+
+  return {
+    properties: page,
+    nextCursor: start + query.limit < nearby.length && page.length > 0 ? page.at(-1)!.id : null,
+    totalCount: nearby.length,
+  } satisfies PropertyPage<(typeof nearby)[number]>;
+}
+
+/**
+ * Every property matching a query, for plotting on the map
+ * The query's cursor and limit are ignored; past MAX_MAP_PROPERTIES the rest
+ * are left off and truncated is set
+ */
+export async function searchMapProperties(query: PropertyQuery) {
+  const now = new Date();
+  const where = buildPropertyWhere(query, now);
+  const orderBy = buildPropertyOrderBy(query);
+
+  if (query.near) {
+    const rows = await prisma.property.findMany({ where, include, orderBy });
+    const nearby = withinRadius(
+      rows.map((property) => withDaysOnMarket(property, now)),
+      query
+    );
+    return {
+      properties: nearby.slice(0, MAX_MAP_PROPERTIES),
+      totalCount: nearby.length,
+      truncated: nearby.length > MAX_MAP_PROPERTIES,
+    };
+  }
+
+  const [rows, totalCount] = await Promise.all([
+    prisma.property.findMany({ where, include, orderBy, take: MAX_MAP_PROPERTIES }),
+    prisma.property.count({ where }),
+  ]);
+
+  return {
+    properties: rows.map((property) => withDaysOnMarket(property, now)),
+    totalCount,
+    truncated: totalCount > MAX_MAP_PROPERTIES,
+  };
+}
+
+/**
+ * Trim bounding-box rows to the query's radius, adding distanceMiles,
+ * and order them by distance when that's the requested sort
+ */
+export function withinRadius<T extends { latitude: number | null; longitude: number | null }>(
+  rows: T[],
+  query: Pick<PropertyQuery, "near" | "sortBy" | "order">
+): (T & { distanceMiles: number })[] {
+  const near = query.near!;
+  const nearby = rows
+    .map((property) => ({
+      ...property,
+      distanceMiles: distanceMiles(near.center, {
+        latitude: property.latitude!,
+        longitude: property.longitude!,
+      }),
+    }))
+    .filter((property) => property.distanceMiles <= near.radiusMiles);
+
+  if (query.sortBy === "distance") {
+    // Array sort is stable, so ties keep the id order from the query
+    const direction = query.order === "asc" ? 1 : -1;
+    nearby.sort((a, b) => direction * (a.distanceMiles - b.distanceMiles));
+  }
+
+  return nearby;
+}
+
+export async function cleanup() {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { Prisma } from "../../../generated/prisma";
+import { EXPORT_COLUMNS, exportRow, csvLine, type ExportProperty } from "./spreadsheet";
+
+const property: ExportProperty = {
+  id: "clxprop1",
+  street: "12 Main St, Unit 4",
+  city: "Greer",
+  state: "SC",
+  zip: "29650",
+  addressKey: "12 main st # 4|greer|sc",
+  latitude: 34.93,
+  longitude: -82.23,
+  geocodePrecision: "zip",
+  status: "ACTIVE",
+  price: new Prisma.Decimal(289000),
+  pricePerSqft: new Prisma.Decimal("180.63"),
+  priceDrop: new Prisma.Decimal(11000),
+  propertyType: "CONDO",
+  beds: 3,
+  baths: new Prisma.Decimal("2.5"),
+  sqft: 1600,
+  lotSize: null,
+  firstSeenAt: new Date("2026-09-01T00:00:00Z"),
+  lastSeenAt: new Date("2026-10-15T00:00:00Z"),
+  offMarketDays: null,
+  notes: null,
+  overriddenFields: ["price"],
+  createdAt: new Date("2026-09-01T00:00:00Z"),
+  updatedAt: new Date("2026-10-15T00:00:00Z"),
+  listings: [
+    {
+      source: "zillow",
+      url: "https://www.zillow.com/homedetails/1_zpid/",
+      priceHistory: [
+        {
+          oldPrice: new Prisma.Decimal(300000),
+          newPrice: new Prisma.Decimal(295000),
+          changeDate: new Date("2026-09-20T00:00:00Z"),
+        },
+      ],
+    },
+    {
+      source: "redfin",
+      url: "https://www.redfin.com/SC/Greer/home/2",
+      priceHistory: [
+        {
+          oldPrice: new Prisma.Decimal(295000),
+          newPrice: new Prisma.Decimal(289000),
+          changeDate: new Date("2026-10-10T00:00:00Z"),
+        },
+      ],
+    },
+  ],
+};
+
+const context = { origin: "https://deals.example.com", now: new Date("2026-10-19T12:00:00Z") };
+
+describe("exportRow", () => {
+  const row = Object.fromEntries(
+    EXPORT_COLUMNS.map((column, i) => [column.header, exportRow(property, context)[i]])
+  );
+
+  test("one value per column", () => {
+    expect(exportRow(property, context)).toHaveLength(EXPORT_COLUMNS.length);
+  });
+
+  test("decimals become numbers", () => {
+    expect(row).toMatchObject({ price: 289000, pricePerSqft: 180.63, baths: 2.5, lotSize: null });
+  });
+
+  test("latest price change across listings", () => {
+    expect(row).toMatchObject({
+      lastPriceChangeDate: new Date("2026-10-10T00:00:00Z"),
+      lastPriceChangeFrom: 295000,
+      lastPriceChangeTo: 289000,
+    });
+  });
+
+  test("derived columns", () => {
+    expect(row).toMatchObject({
+      daysOnMarket: 48,
+      sources: "zillow, redfin",
+      listingUrls: "https://www.zillow.com/homedetails/1_zpid/ https://www.redfin.com/SC/Greer/home/2",
+      link: "https://deals.example.com/properties/clxprop1",
+      overriddenFields: "price",
+    });
+  });
+
+  test("no price change without history", () => {
+    const unchanged = { ...property, listings: [{ ...property.listings[0]!, priceHistory: [] }] };
+    const values = exportRow(unchanged, context);
+    const index = EXPORT_COLUMNS.findIndex((c) => c.header === "lastPriceChangeDate");
+
+    expect(values[index]).toBeNull();
+  });
+});
+
+describe("csvLine", () => {
+  test.each<[Parameters<typeof csvLine>[0], string]>([
+    [["a", 1, null], "a,1,\r\n"],
+    [[new Date("2026-10-19T00:00:00Z")], "2026-10-19T00:00:00.000Z\r\n"],
+    [["12 Main St, Unit 4"], '"12 Main St, Unit 4"\r\n'],
+    [['The "Big" House'], '"The ""Big"" House"\r\n'],
+    [["line\nbreak"], '"line\nbreak"\r\n'],
+    [["=HYPERLINK(\"x\")"], '"\'=HYPERLINK(""x"")"\r\n'],
+    [["@SUM(A1)", -5], "'@SUM(A1),-5\r\n"],
+  ])("%p", (values, expected) => {
+    expect(csvLine(values)).toBe(expected);
+  });
+});
@@ -0,0 +1,95 @@
+import type { Property, PriceHistory } from "../../../generated/prisma";
+import { daysOnMarket } from "../email/utils";
+
+export type ExportFormat = "csv" | "xlsx";
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx"];
+
+export type CellValue = string | number | Date | null;
+
+export interface ExportProperty extends Property {
+  listings: {
+    source: string;
+    url: string | null;
+    priceHistory: Pick<PriceHistory, "oldPrice" | "newPrice" | "changeDate">[];
+  }[];
+}
+
+type Column = {
+  header: string;
+  width?: number;
+  value: (property: ExportProperty, context: { origin: string; now: Date }) => CellValue;
+};
+
+const decimal = (value: { toNumber(): number } | null) => value?.toNumber() ?? null;
+
+/** The newest price change across all of a property's listings */
+function latestPriceChange(property: ExportProperty) {
+  return property.listings
+    .flatMap((listing) => listing.priceHistory)
+    .reduce<ExportProperty["listings"][number]["priceHistory"][number] | null>(
+      (latest, change) => (!latest || change.changeDate > latest.changeDate ? change : latest),
+      null
+    );
+}
+
+/**
+ * Spreadsheet columns: every Property column, then derived ones
+ */
+export const EXPORT_COLUMNS: Column[] = [
+  { header: "id", value: (p) => p.id },
+  { header: "street", width: 30, value: (p) => p.street },
+  { header: "city", width: 16, value: (p) => p.city },
+  { header: "state", value: (p) => p.state },
+  { header: "zip", value: (p) => p.zip },
+  { header: "status", width: 12, value: (p) => p.status },
+  { header: "propertyType", width: 14, value: (p) => p.propertyType },
+  { header: "price", width: 12, value: (p) => decimal(p.price) },
+  { header: "pricePerSqft", value: (p) => decimal(p.pricePerSqft) },
+  { header: "priceDrop", value: (p) => decimal(p.priceDrop) },
+  { header: "beds", value: (p) => p.beds },
+  { header: "baths", value: (p) => decimal(p.baths) },
+  { header: "sqft", value: (p) => p.sqft },
+  { header: "lotSize", value: (p) => decimal(p.lotSize) },
+  { header: "latitude", value: (p) => p.latitude },
+  { header: "longitude", value: (p) => p.longitude },
+  { header: "geocodePrecision", value: (p) => p.geocodePrecision },
+  { header: "addressKey", width: 30, value: (p) => p.addressKey },
+  { header: "notes", width: 40, value: (p) => p.notes },
+  { header: "overriddenFields", width: 20, value: (p) => p.overriddenFields.join(", ") },
+  { header: "daysOnMarket", value: (p, { now }) => daysOnMarket(p, now) },
+  { header: "offMarketDays", value: (p) => p.offMarketDays },
+  { header: "firstSeenAt", width: 20, value: (p) => p.firstSeenAt },
+  { header: "lastSeenAt", width: 20, value: (p) => p.lastSeenAt },
+  { header: "createdAt", width: 20, value: (p) => p.createdAt },
+  { header: "updatedAt", width: 20, value: (p) => p.updatedAt },
+  { header: "lastPriceChangeDate", width: 20, value: (p) => latestPriceChange(p)?.changeDate ?? null },
+  { header: "lastPriceChangeFrom", value: (p) => decimal(latestPriceChange(p)?.oldPrice ?? null) },
+  { header: "lastPriceChangeTo", value: (p) => decimal(latestPriceChange(p)?.newPrice ?? null) },
+  { header: "sources", value: (p) => p.listings.map((l) => l.source).join(", ") },
+  { header: "listingUrls", width: 40, value: (p) => p.listings.flatMap((l) => (l.url ? [l.url] : [])).join(" ") },
+  { header: "link", width: 40, value: (p, { origin }) => `${origin}/properties/${p.id}` },
+];
+
+export function exportRow(
+  property: ExportProperty,
+  context: { origin: string; now: Date }
+): CellValue[] {
+  return EXPORT_COLUMNS.map((column) => column.value(property, context));
+}
+
+/**
+ * One CSV line (RFC 4180), CRLF-terminated
+ * Text that a spreadsheet would run as a formula is prefixed with a quote
+ */
+export function csvLine(values: CellValue[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
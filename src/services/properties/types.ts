@@ -0,0 +1,103 @@
+import type { NearFilter } from "../geocoding/near";
+
+export const PROPERTY_STATUSES = ["COMING_SOON", "ACTIVE", "PENDING", "SOLD", "OFF_MARKET"] as const;
+export const PROPERTY_TYPES = ["HOME", "LAND", "CONDO", "TOWNHOUSE", "MULTI_FAMILY"] as const;
+
+/** Fields /api/properties can sort by; distance needs near=lat,lng */
+export const PROPERTY_SORT_FIELDS = [
+  "createdAt",
+  "price",
+  "pricePerSqft",
+  "priceDrop",
+  "beds",
+  "sqft",
+  "firstSeenAt",
+  "distance",
+] as const;
+
+export type PropertyStatusFilter = (typeof PROPERTY_STATUSES)[number];
+export type PropertyTypeFilter = (typeof PROPERTY_TYPES)[number];
+export type PropertySortField = (typeof PROPERTY_SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export interface DateRange {
+  after?: Date;
+  before?: Date;
+}
+
+/** Validated /api/properties query */
+export interface PropertyQuery {
+  city?: string;
+  state?: string;
+  source?: string;
+  type?: PropertyTypeFilter;
+  status?: PropertyStatusFilter[];
+  price: NumberRange;
+  beds: NumberRange;
+  baths: NumberRange;
+  sqft: NumberRange;
+  daysOnMarket: NumberRange;
+  firstSeen: DateRange;
+  lastSeen: DateRange;
+  near?: NearFilter;
+  sortBy: PropertySortField;
+  order: SortOrder;
+  cursor?: string;
+  limit: number;
+}
+
+/** A 400 detail naming the offending query parameter */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface PropertyPage<T> {
+  properties: T[];
+  nextCursor: string | null;
+  totalCount: number;
+}
+
+/**
+ * Property fields that can be edited by hand
+ * Once edited, a field is recorded in Property.overriddenFields and
+ * email ingest stops overwriting it
+ */
+export const EDITABLE_PROPERTY_FIELDS = [
+  "street",
+  "city",
+  "state",
+  "zip",
+  "price",
+  "status",
+  "propertyType",
+  "beds",
+  "baths",
+  "sqft",
+  "lotSize",
+] as const;
+
+export type EditablePropertyField = (typeof EDITABLE_PROPERTY_FIELDS)[number];
+
+/** Validated body for creating or editing a property; absent fields are left alone */
+export interface PropertyInput {
+  street?: string;
+  city?: string;
+  state?: string;
+  zip?: string | null;
+  price?: number;
+  status?: PropertyStatusFilter;
+  propertyType?: PropertyTypeFilter;
+  beds?: number | null;
+  baths?: number | null;
+  sqft?: number | null;
+  lotSize?: number | null;
+  notes?: string | null;
+  // Edit only: hand the fields back to email ingest
+  resetFields?: EditablePropertyField[];
+}